@@ -9,14 +9,73 @@ const __dirname = path.dirname(__filename);
 const entitiesDir = path.resolve(__dirname, "../src/entities");
 const files = fs.readdirSync(entitiesDir).filter((f) => f.endsWith(".json"));
 
+// Timestamps the server stamps on every stored record, so they are always
+// present on records read back even though callers never send them.
+const SERVER_FIELDS = ["createdAt", "updatedAt"];
+
+const indent = (depth) => "  ".repeat(depth);
+
+// Maps a JSON schema property to a TypeScript type expression.
+function toTsType(prop, depth) {
+  if (!prop) return "any";
+
+  if (Array.isArray(prop.enum)) {
+    return prop.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  switch (prop.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const itemType = toTsType(prop.items, depth);
+      return itemType.includes("|") ? `(${itemType})[]` : `${itemType}[]`;
+    }
+    case "object":
+      if (!prop.properties) return "Record<string, any>";
+      return `{\n${renderProperties(prop, depth + 1)}${indent(depth)}}`;
+    default:
+      return "any";
+  }
+}
+
+function renderProperties(schema, depth, serverFields = []) {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties || {})
+    .map(([key, prop]) => {
+      const optional = required.has(key) || serverFields.includes(key) ? "" : "?";
+      const doc = prop.description ? `${indent(depth)}/** ${prop.description} */\n` : "";
+      return `${doc}${indent(depth)}${key}${optional}: ${toTsType(prop, depth)};\n`;
+    })
+    .join("");
+}
+
 for (const file of files) {
   const name = path.basename(file, ".json");
-  const jsFile = `${entitiesDir}/${name}.js`;
+  const schema = JSON.parse(fs.readFileSync(`${entitiesDir}/${file}`, "utf8"));
+  const tsFile = `${entitiesDir}/${name}.ts`;
+  const legacyJsFile = `${entitiesDir}/${name}.js`;
 
-  const content = `import { createEntityClient } from "../utils/entityWrapper";
+  const content = `// Generated by scripts/generateEntityStubs.js from ${name}.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
 import schema from "./${name}.json";
-export const ${name} = createEntityClient("${name}", schema);
+
+export interface ${name} {
+  _id: string;
+${renderProperties(schema, 1, SERVER_FIELDS)}}
+
+export const ${name} = createEntityClient<${name}>("${name}", schema);
 `;
 
-  fs.writeFileSync(jsFile, content);
+  fs.writeFileSync(tsFile, content);
+
+  // Older versions of this script emitted untyped .js stubs, which would shadow
+  // the typed client during module resolution.
+  if (fs.existsSync(legacyJsFile)) {
+    fs.unlinkSync(legacyJsFile);
+  }
 }
@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { ConfigProvider } from 'antd';
 import Monetization from './components/monetization/Monetization';
 import { AuthProvider } from './contexts/AuthContext';
+import { SavedViewsProvider } from './contexts/SavedViewsContext';
 import AppLayout from './components/Layout/AppLayout';
 import Dashboard from './pages/Dashboard';
 import { getRouterBasename } from './utils/routerUtils';
@@ -10,6 +11,11 @@ import PeopleRoutes from './pages/People';
 import HouseholdsRoutes from './pages/Households';
 import TagsPage from './pages/Tags';
 import ProfileFieldsPage from './pages/Settings/ProfileFields';
+import TeamPage from './pages/Settings/Team';
+import PermissionsPage from './pages/Settings/Permissions';
+import ImportHistoryPage from './pages/Settings/ImportHistory';
+import ImportTemplatesPage from './pages/Settings/ImportTemplates';
+import BackupPage from './pages/Settings/Backup';
 
 function App() {
   return (
@@ -22,17 +28,24 @@ function App() {
         }}
       >
         <AuthProvider>
-          <Router basename={getRouterBasename()}>
-            <AppLayout>
-              <Routes>
-                <Route path="/" element={<Dashboard />} />
-                <Route path="/people/*" element={<PeopleRoutes />} />
-                <Route path="/households/*" element={<HouseholdsRoutes />} />
-                <Route path="/tags" element={<TagsPage />} />
-                <Route path="/settings/profile-fields" element={<ProfileFieldsPage />} />
-              </Routes>
-            </AppLayout>
-          </Router>
+          <SavedViewsProvider>
+            <Router basename={getRouterBasename()}>
+              <AppLayout>
+                <Routes>
+                  <Route path="/" element={<Dashboard />} />
+                  <Route path="/people/*" element={<PeopleRoutes />} />
+                  <Route path="/households/*" element={<HouseholdsRoutes />} />
+                  <Route path="/tags" element={<TagsPage />} />
+                  <Route path="/settings/profile-fields" element={<ProfileFieldsPage />} />
+                  <Route path="/settings/team" element={<TeamPage />} />
+                  <Route path="/settings/permissions" element={<PermissionsPage />} />
+                  <Route path="/settings/import-history" element={<ImportHistoryPage />} />
+                  <Route path="/settings/import-templates" element={<ImportTemplatesPage />} />
+                  <Route path="/settings/backup" element={<BackupPage />} />
+                </Routes>
+              </AppLayout>
+            </Router>
+          </SavedViewsProvider>
         </AuthProvider>
       </ConfigProvider>
     </Monetization>
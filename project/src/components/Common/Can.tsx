@@ -0,0 +1,17 @@
+import React from 'react';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { Action, Resource } from '../../utils/permissions';
+
+interface CanProps {
+  action: Action;
+  resource: Resource;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ action, resource, fallback = null, children }) => {
+  const { can } = usePermissions();
+  return <>{can(action, resource) ? children : fallback}</>;
+};
+
+export default Can;
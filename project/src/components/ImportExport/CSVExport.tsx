@@ -9,17 +9,32 @@ import {
   Row,
   Col,
   Space,
+  Radio,
+  Select,
+  Progress,
 } from 'antd';
 import { DownloadOutlined } from '@ant-design/icons';
-import type { Person as PersonType, ProfileFieldDef as ProfileFieldDefType, Tag as TagType } from '../../types';
-import { useAuth } from '../../contexts/AuthContext';
+import type { ProfileFieldDef as ProfileFieldDefType, Tag as TagType } from '../../types';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  EXPORT_FORMATS,
+  CORE_EXPORT_COLUMNS,
+  HOUSEHOLD_EXPORT_COLUMNS,
+  getExportColumns,
+  createExportWriter,
+  exportPeople,
+  downloadBlob,
+} from '../../utils/peopleExport';
+import type { ExportFormat, ExportRowMode } from '../../utils/peopleExport';
 
 const { Title, Text } = Typography;
+const { Option } = Select;
 
 interface CSVExportProps {
   visible: boolean;
   onClose: () => void;
-  people: PersonType[];
+  where: Record<string, any>;
+  total: number;
   profileFields: ProfileFieldDefType[];
   tags: TagType[];
   currentFilters?: any;
@@ -28,12 +43,13 @@ interface CSVExportProps {
 const CSVExport: React.FC<CSVExportProps> = ({ 
   visible, 
   onClose, 
-  people, 
+  where,
+  total,
   profileFields, 
   tags,
   currentFilters 
 }) => {
-  const { userRole } = useAuth();
+  const { can } = usePermissions();
   const [selectedColumns, setSelectedColumns] = useState<string[]>([
     'firstName',
     'lastName',
@@ -42,22 +58,13 @@ const CSVExport: React.FC<CSVExportProps> = ({
     'status',
   ]);
   const [exporting, setExporting] = useState(false);
-
-  const coreColumns = [
-    { key: 'firstName', label: 'First Name' },
-    { key: 'lastName', label: 'Last Name' },
-    { key: 'preferredName', label: 'Preferred Name' },
-    { key: 'email', label: 'Email' },
-    { key: 'phone', label: 'Phone' },
-    { key: 'status', label: 'Status' },
-    { key: 'tags', label: 'Tags' },
-    { key: 'household', label: 'Household' },
-    { key: 'createdAt', label: 'Created Date' },
-    { key: 'updatedAt', label: 'Updated Date' },
-  ];
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [rowMode, setRowMode] = useState<ExportRowMode>('person');
+  const [birthdayField, setBirthdayField] = useState<string | undefined>();
+  const [progress, setProgress] = useState<number | null>(null);
 
   const visibleProfileFields = profileFields.filter(field => 
-    field.visibility === 'public' || userRole === 'admin' || userRole === 'owner'
+    field.visibility !== 'staff_only' || can('export', 'staffField')
   );
 
   const handleColumnToggle = (columnKey: string, checked: boolean) => {
@@ -68,99 +75,52 @@ const CSVExport: React.FC<CSVExportProps> = ({
     }
   };
 
-  const formatCellValue = (person: PersonType, columnKey: string) => {
-    switch (columnKey) {
-      case 'firstName':
-      case 'lastName':
-      case 'preferredName':
-      case 'email':
-      case 'phone':
-      case 'status':
-        return person[columnKey as keyof PersonType] || '';
-      
-      case 'tags':
-        const personTags = tags.filter(tag => person.tagIds.includes(tag._id));
-        return personTags.map(tag => tag.name).join('; ');
-      
-      case 'household':
-        return person.householdId ? 'Yes' : 'No';
-      
-      case 'createdAt':
-      case 'updatedAt':
-        return new Date(person[columnKey as keyof PersonType] as string).toLocaleDateString();
-      
-      default:
-        // Dynamic field
-        const value = person.fields[columnKey];
-        if (value === undefined || value === null) return '';
-        
-        if (Array.isArray(value)) {
-          return value.join('; ');
-        }
-        
-        if (typeof value === 'boolean') {
-          return value ? 'Yes' : 'No';
-        }
-        
-        return value.toString();
+  const dateFields = visibleProfileFields.filter(field => field.type === 'date');
+
+  const handleFormatChange = (value: ExportFormat) => {
+    setFormat(value);
+    if (value === 'vcard' && birthdayField === undefined) {
+      setBirthdayField(dateFields.find(field => /birth/i.test(`${field.key} ${field.label}`))?.key);
     }
   };
 
   const handleExport = async () => {
-    if (selectedColumns.length === 0) {
+    if (format !== 'vcard' && rowMode === 'person' && selectedColumns.length === 0) {
       message.warning('Please select at least one column to export');
       return;
     }
 
     setExporting(true);
+    setProgress(0);
     try {
-      // Create CSV header
-      const headers = selectedColumns.map(key => {
-        const coreColumn = coreColumns.find(col => col.key === key);
-        if (coreColumn) return coreColumn.label;
-        
-        const profileField = profileFields.find(field => field.key === key);
-        return profileField?.label || key;
+      const writer = await createExportWriter({
+        format,
+        columns: getExportColumns(selectedColumns, profileFields),
+        context: { tags },
+        rowMode,
+        birthdayField,
       });
-
-      // Create CSV rows
-      const rows = people.map(person => 
-        selectedColumns.map(key => {
-          const value = formatCellValue(person, key);
-          // Escape quotes and wrap in quotes if contains comma
-          return value.includes(',') || value.includes('"') ? 
-            `"${value.replace(/"/g, '""')}"` : value;
-        })
+      const { blob, count } = await exportPeople(where, writer, (written) =>
+        setProgress(total > 0 ? Math.min(Math.round((written / total) * 100), 100) : 100)
       );
 
-      // Combine header and rows
-      const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-
-      // Download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `people-export-${new Date().toISOString().split('T')[0]}.csv`);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      message.success(`Exported ${people.length} people to CSV`);
+      const { label, extension } = EXPORT_FORMATS[format];
+      downloadBlob(blob, `people-export-${new Date().toISOString().split('T')[0]}.${extension}`);
+
+      message.success(`Exported ${count} people to ${label}`);
       onClose();
     } catch (error) {
       console.error('Export failed:', error);
       message.error('Export failed');
     } finally {
       setExporting(false);
+      setProgress(null);
     }
   };
 
   return (
     <Modal
-      title="Export People to CSV"
+      title="Export People"
       open={visible}
       onCancel={onClose}
       footer={
@@ -171,65 +131,138 @@ const CSVExport: React.FC<CSVExportProps> = ({
             icon={<DownloadOutlined />}
             onClick={handleExport}
             loading={exporting}
-            disabled={selectedColumns.length === 0}
+            disabled={format !== 'vcard' && rowMode === 'person' && selectedColumns.length === 0}
           >
-            Export CSV ({people.length} people)
+            Export {EXPORT_FORMATS[format].label} ({total} people)
           </Button>
         </Space>
       }
       width={700}
     >
       <div className="space-y-4">
-        <div>
-          <Text type="secondary">
-            Select the columns you want to include in the export. 
-            {currentFilters && ' Current filters will be applied.'}
-          </Text>
-        </div>
+        <Radio.Group value={format} onChange={(e) => handleFormatChange(e.target.value)}>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(value => (
+            <Radio.Button key={value} value={value}>{EXPORT_FORMATS[value].label}</Radio.Button>
+          ))}
+        </Radio.Group>
 
-        <Card title="Core Fields" size="small">
-          <Row gutter={[16, 8]}>
-            {coreColumns.map(column => (
-              <Col key={column.key} span={12}>
-                <Checkbox
-                  checked={selectedColumns.includes(column.key)}
-                  onChange={(e) => handleColumnToggle(column.key, e.target.checked)}
+        {format === 'vcard' ? (
+          <Card title="Contact Details" size="small">
+            <Space direction="vertical" className="w-full">
+              <Text type="secondary">
+                Each person becomes a contact with their name, preferred name, email, phone and tags.
+                {currentFilters && ' Current filters will be applied.'}
+              </Text>
+              <Space>
+                <Text>Birthday from</Text>
+                <Select
+                  value={birthdayField}
+                  onChange={setBirthdayField}
+                  placeholder="No birthday"
+                  allowClear
+                  style={{ width: 220 }}
                 >
-                  {column.label}
-                </Checkbox>
-              </Col>
-            ))}
-          </Row>
-        </Card>
-
-        {visibleProfileFields.length > 0 && (
-          <Card title="Custom Fields" size="small">
-            <Row gutter={[16, 8]}>
-              {visibleProfileFields.map(field => (
-                <Col key={field.key} span={12}>
-                  <Checkbox
-                    checked={selectedColumns.includes(field.key)}
-                    onChange={(e) => handleColumnToggle(field.key, e.target.checked)}
-                  >
-                    {field.label}
-                    {field.visibility === 'staff_only' && (
-                      <Text type="secondary" className="text-xs ml-1">(Staff Only)</Text>
-                    )}
-                  </Checkbox>
-                </Col>
-              ))}
-            </Row>
+                  {dateFields.map(field => (
+                    <Option key={field.key} value={field.key}>{field.label}</Option>
+                  ))}
+                </Select>
+              </Space>
+            </Space>
+          </Card>
+        ) : (
+          <Radio.Group value={rowMode} onChange={(e) => setRowMode(e.target.value)}>
+            <Space direction="vertical">
+              <Radio value="person">One row per person</Radio>
+              <Radio value="household">One row per household (mailing list)</Radio>
+            </Space>
+          </Radio.Group>
+        )}
+
+        {format !== 'vcard' && rowMode === 'household' && (
+          <Card title="Mailing List" size="small">
+            <Text type="secondary">
+              Each household is one row with an addressee line such as "John &amp; Jane Smith", the household
+              name and address, an email and phone, and the number of people. People without a household get
+              a row of their own.
+              {currentFilters && ' Current filters will be applied, and only the people they match are named.'}
+            </Text>
           </Card>
         )}
 
+        {format !== 'vcard' && rowMode === 'person' && (
+          <>
+            <div>
+              <Text type="secondary">
+                Select the columns you want to include in the export. 
+                {currentFilters && ' Current filters will be applied.'}
+              </Text>
+            </div>
+
+            <Card title="Core Fields" size="small">
+              <Row gutter={[16, 8]}>
+                {CORE_EXPORT_COLUMNS.map(column => (
+                  <Col key={column.key} span={12}>
+                    <Checkbox
+                      checked={selectedColumns.includes(column.key)}
+                      onChange={(e) => handleColumnToggle(column.key, e.target.checked)}
+                    >
+                      {column.label}
+                    </Checkbox>
+                  </Col>
+                ))}
+              </Row>
+            </Card>
+
+            <Card title="Household" size="small">
+              <Row gutter={[16, 8]}>
+                {HOUSEHOLD_EXPORT_COLUMNS.map(column => (
+                  <Col key={column.key} span={12}>
+                    <Checkbox
+                      checked={selectedColumns.includes(column.key)}
+                      onChange={(e) => handleColumnToggle(column.key, e.target.checked)}
+                    >
+                      {column.label}
+                    </Checkbox>
+                  </Col>
+                ))}
+              </Row>
+            </Card>
+
+            {visibleProfileFields.length > 0 && (
+              <Card title="Custom Fields" size="small">
+                <Row gutter={[16, 8]}>
+                  {visibleProfileFields.map(field => (
+                    <Col key={field.key} span={12}>
+                      <Checkbox
+                        checked={selectedColumns.includes(field.key)}
+                        onChange={(e) => handleColumnToggle(field.key, e.target.checked)}
+                      >
+                        {field.label}
+                        {field.visibility === 'staff_only' && (
+                          <Text type="secondary" className="text-xs ml-1">(Staff Only)</Text>
+                        )}
+                      </Checkbox>
+                    </Col>
+                  ))}
+                </Row>
+              </Card>
+            )}
+          </>
+        )}
+
         <div className="bg-gray-50 p-3 rounded">
           <Text strong>Export Summary:</Text>
           <ul className="mb-0 mt-2">
-            <li>Number of people: {people.length}</li>
-            <li>Selected columns: {selectedColumns.length}</li>
-            <li>File format: CSV</li>
+            <li>Number of people: {total}</li>
+            {format !== 'vcard' && rowMode === 'household' && <li>Rows: one per household</li>}
+            {format !== 'vcard' && rowMode === 'person' && <li>Selected columns: {selectedColumns.length}</li>}
+            <li>File format: {EXPORT_FORMATS[format].label}</li>
           </ul>
         </div>
+
+        {progress !== null && (
+          <Progress percent={progress} status="active" />
+        )}
       </div>
     </Modal>
   );
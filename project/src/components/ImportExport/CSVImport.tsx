@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Modal,
   Steps,
@@ -11,13 +11,56 @@ import {
   Alert,
   Space,
   Card,
+  Radio,
+  Row,
+  Col,
+  Statistic,
+  Progress,
+  Input,
 } from 'antd';
-import { InboxOutlined, DownloadOutlined } from '@ant-design/icons';
+import { InboxOutlined, DownloadOutlined, SaveOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
+import type { Workbook } from 'exceljs';
 import { Person } from '../../entities/Person';
 import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
-import type { ProfileFieldDef as ProfileFieldDefType } from '../../types';
+import { ImportBatch } from '../../entities/ImportBatch';
+import { ImportTemplate } from '../../entities/ImportTemplate';
+import type {
+  ProfileFieldDef as ProfileFieldDefType,
+  ImportTemplate as ImportTemplateType,
+  ImportBatch as ImportBatchType,
+} from '../../types';
+import type { EntityInput } from '../../utils/entityWrapper';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  IMPORT_MODE_LABELS,
+  loadMatchIndex,
+  planImport,
+  summarizePlan,
+  buildUpdatePayload,
+} from '../../utils/importMatching';
+import { parseCsvFile, toCsv } from '../../utils/csv';
+import { loadWorkbook, getSheetNames, readSheet } from '../../utils/xlsx';
+import { parseVCardFile } from '../../utils/vcard';
+import { IMPORT_FILE_ACCEPT, getImportSourceType, getSourceRowNumber } from '../../utils/importSources';
+import type { ImportSourceType, ImportTable } from '../../utils/importSources';
+import { CORE_IMPORT_FIELDS, validateImportRow } from '../../utils/importValidation';
+import type { RowError } from '../../utils/importValidation';
+import { getPreviousValues } from '../../utils/importBatches';
+import type { ImportMode, MatchKey, ImportRowData, PlannedRow } from '../../utils/importMatching';
+import { guessMapping, findMatchingTemplate, adaptTemplate } from '../../utils/importTemplates';
+import type { MappingConfig } from '../../utils/importTemplates';
+import { applyTransforms, getDerivedColumns, splitNameColumns } from '../../utils/importTransforms';
+import type { ColumnTransform } from '../../utils/importTransforms';
+import {
+  readHouseholdRow,
+  isHouseholdField,
+  getHouseholdGroupKey,
+  createHouseholdImporter,
+} from '../../utils/importHouseholds';
+import MappingFieldSelect from './MappingFieldSelect';
+import TransformEditor from './TransformEditor';
 
 const { Title, Text } = Typography;
 const { Dragger } = Upload;
@@ -33,114 +76,344 @@ interface CSVRow {
   [key: string]: string;
 }
 
-interface MappingConfig {
-  [csvColumn: string]: string | null;
-}
+// Distinct values offered when filling a lookup transform from the file
+const MAX_SAMPLE_VALUES = 50;
+const PREVIEW_ROWS = 5;
+
+// Each save resends everything the batch has recorded, so saves get further
+// apart as it grows: after BATCH_SAVE_INTERVAL rows at first, then after a
+// BATCH_SAVE_GROWTH share of the rows imported so far. A slow import still
+// saves every BATCH_SAVE_MAX_WAIT, so Import History still sees it as live.
+const BATCH_SAVE_INTERVAL = 25;
+const BATCH_SAVE_GROWTH = 0.2;
+const BATCH_SAVE_MAX_WAIT = 2 * 60 * 1000;
 
 const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) => {
-  const { userRole } = useAuth();
+  const { can } = usePermissions();
+  const { user } = useAuth();
   const [currentStep, setCurrentStep] = useState(0);
+  const [fileName, setFileName] = useState('');
   const [csvData, setCsvData] = useState<CSVRow[]>([]);
+  const [lineNumbers, setLineNumbers] = useState<number[] | undefined>();
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [mapping, setMapping] = useState<MappingConfig>({});
   const [profileFields, setProfileFields] = useState<ProfileFieldDefType[]>([]);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [importing, setImporting] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [matchKey, setMatchKey] = useState<MatchKey>('email');
+  const [plan, setPlan] = useState<PlannedRow[]>([]);
+  const [planning, setPlanning] = useState(false);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const [templates, setTemplates] = useState<ImportTemplateType[]>([]);
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [transforms, setTransforms] = useState<ColumnTransform[]>([]);
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState<string | null>(null);
 
-  const coreFields = [
-    { key: 'firstName', label: 'First Name', required: true },
-    { key: 'lastName', label: 'Last Name', required: true },
-    { key: 'preferredName', label: 'Preferred Name', required: false },
-    { key: 'email', label: 'Email', required: false },
-    { key: 'phone', label: 'Phone', required: false },
-    { key: 'status', label: 'Status', required: true },
-  ];
+  const coreFields = CORE_IMPORT_FIELDS;
+
+  // A saved template for these headers beats the auto-mapping heuristics
+  const applyDetectedMapping = (templatesData: ImportTemplateType[], headers: string[]) => {
+    const template = findMatchingTemplate(templatesData, headers);
+    if (template) {
+      applyTemplate(template, headers);
+      message.info(`Using saved template "${template.name}"`);
+    } else {
+      setActiveTemplateId(null);
+      setTransforms([]);
+      setMapping(guessMapping(headers));
+    }
+  };
+
+  const readFile = async (file: File, sourceType: ImportSourceType): Promise<ImportTable> => {
+    if (sourceType === 'xlsx') {
+      const loaded = await loadWorkbook(file);
+      const names = getSheetNames(loaded);
+      setWorkbook(names.length > 0 ? loaded : null);
+      setSheetNames(names);
+      setSheetName(names[0] ?? null);
+      return names.length > 0 ? readSheet(loaded, names[0]) : { headers: [], rows: [] };
+    }
+
+    setWorkbook(null);
+    setSheetNames([]);
+    setSheetName(null);
+    if (sourceType === 'vcard') {
+      return parseVCardFile(file);
+    }
+
+    const { headers, rows, lineNumbers: csvLineNumbers, encoding } = await parseCsvFile(file, {
+      onProgress: (fraction) => setParseProgress(Math.round(fraction * 100)),
+    });
+    if (encoding === 'windows-1252') {
+      message.info('The file is not UTF-8 encoded; it was read as Windows-1252 (Latin-1)');
+    }
+    return { headers, rows, lineNumbers: csvLineNumbers };
+  };
 
   const handleFileUpload = async (file: File) => {
+    const sourceType = getImportSourceType(file.name);
+    if (!sourceType) {
+      message.error('Please upload a CSV, Excel (.xlsx) or vCard (.vcf) file');
+      return false;
+    }
+
     try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        message.error('CSV file must have at least a header row and one data row');
+      setParseProgress(0);
+      const { headers, rows: data, lineNumbers: dataLineNumbers } = await readFile(file, sourceType);
+
+      if (data.length === 0) {
+        message.error(sourceType === 'vcard'
+          ? 'The file does not contain any contacts'
+          : 'The file must have at least a header row and one data row');
         return false;
       }
 
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-      const data = lines.slice(1).map(line => {
-        const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-        const row: CSVRow = {};
-        headers.forEach((header, index) => {
-          row[header] = values[index] || '';
-        });
-        return row;
-      });
-
+      setFileName(file.name);
       setCsvHeaders(headers);
       setCsvData(data);
+      setLineNumbers(dataLineNumbers);
       setCurrentStep(1);
 
-      // Fetch profile fields for mapping
-      const fieldsResponse = await ProfileFieldDef.list();
+      // Fetch profile fields and saved templates for mapping
+      const [fieldsResponse, templatesResponse] = await Promise.all([
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
+        ImportTemplate.queryAll({ sort: 'name' }),
+      ]);
       if (fieldsResponse.success) {
-        const fieldsData = Array.isArray(fieldsResponse.data) ? fieldsResponse.data : [fieldsResponse.data];
-        setProfileFields(fieldsData.filter(field => !field.archived));
+        const fieldsData = fieldsResponse.data;
+        setProfileFields(fieldsData);
       }
 
-      // Auto-map common column names
-      const autoMapping: MappingConfig = {};
-      headers.forEach(header => {
-        const lowerHeader = header.toLowerCase();
-        
-        if (lowerHeader.includes('first') && lowerHeader.includes('name')) {
-          autoMapping[header] = 'firstName';
-        } else if (lowerHeader.includes('last') && lowerHeader.includes('name')) {
-          autoMapping[header] = 'lastName';
-        } else if (lowerHeader.includes('email')) {
-          autoMapping[header] = 'email';
-        } else if (lowerHeader.includes('phone')) {
-          autoMapping[header] = 'phone';
-        } else if (lowerHeader.includes('status')) {
-          autoMapping[header] = 'status';
-        }
-      });
-      setMapping(autoMapping);
+      const templatesData = templatesResponse.success ? templatesResponse.data : [];
+      setTemplates(templatesData);
+      applyDetectedMapping(templatesData, headers);
 
     } catch (error) {
-      message.error('Failed to parse CSV file');
+      console.error('Failed to read import file:', error);
+      message.error('Failed to read the file');
+    } finally {
+      setParseProgress(null);
     }
     return false; // Prevent default upload
   };
 
+  // Each sheet has its own columns, so the mapping starts over
+  const handleSheetChange = (name: string) => {
+    if (!workbook) return;
+    try {
+      const { headers, rows, lineNumbers: sheetLineNumbers } = readSheet(workbook, name);
+      setSheetName(name);
+      setCsvHeaders(headers);
+      setCsvData(rows);
+      setLineNumbers(sheetLineNumbers);
+      applyDetectedMapping(templates, headers);
+    } catch (error) {
+      console.error('Failed to read sheet:', error);
+      message.error('Failed to read the sheet');
+    }
+  };
+
+  const applyTemplate = (template: ImportTemplateType, headers: string[]) => {
+    const adapted = adaptTemplate(template, headers);
+    setActiveTemplateId(template._id);
+    setMapping(adapted.mapping);
+    setTransforms(adapted.transforms);
+    if (template.mode) setMode(template.mode);
+    if (template.matchKey) setMatchKey(template.matchKey);
+  };
+
+  const handleTemplateChange = (templateId?: string) => {
+    const template = templates.find(t => t._id === templateId);
+    if (template) {
+      applyTemplate(template, csvHeaders);
+    } else {
+      setActiveTemplateId(null);
+      setTransforms([]);
+      setMapping(guessMapping(csvHeaders));
+    }
+  };
+
+  const openSaveTemplateModal = () => {
+    setTemplateName(templates.find(t => t._id === activeTemplateId)?.name || fileName.replace(/\.[^.]+$/, ''));
+    setShowSaveTemplateModal(true);
+  };
+
+  // Saving under the active template's name updates it; any other name
+  // creates a new template.
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+
+    const data = {
+      name,
+      headers: csvHeaders,
+      mapping: Object.fromEntries(Object.entries(mapping).filter(([, field]) => field)),
+      transforms: transforms.map(transform => ({
+        ...transform,
+        values: transform.values?.filter(entry => entry.from.trim()),
+      })),
+      mode,
+      matchKey: mode === 'create' ? null : matchKey,
+    };
+    const activeTemplate = templates.find(t => t._id === activeTemplateId);
+
+    try {
+      setSavingTemplate(true);
+      const response = activeTemplate && activeTemplate.name === name && can('update', 'importTemplate')
+        ? await ImportTemplate.update(activeTemplate._id, data)
+        : await ImportTemplate.create({ ...data, createdByUserId: user?._id });
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+
+      const saved = response.data;
+      setTemplates([...templates.filter(t => t._id !== saved._id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setActiveTemplateId(saved._id);
+      setShowSaveTemplateModal(false);
+      message.success(`Template "${name}" saved`);
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      message.error('Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  // Columns added by a split name transform are mapped to the name fields
+  // unless those are already taken; removed ones drop out of the mapping.
+  const handleTransformsChange = (nextTransforms: ColumnTransform[]) => {
+    const previousDerived = new Set(getDerivedColumns(transforms));
+    const nextDerived = new Set(getDerivedColumns(nextTransforms));
+    const nextMapping: MappingConfig = { ...mapping };
+
+    previousDerived.forEach(column => {
+      if (!nextDerived.has(column)) delete nextMapping[column];
+    });
+
+    nextTransforms.filter(transform => transform.type === 'splitName').forEach(transform => {
+      const [firstColumn, lastColumn] = splitNameColumns(transform.column);
+      if (previousDerived.has(firstColumn)) return;
+
+      if (nextMapping[transform.column] === 'firstName' || nextMapping[transform.column] === 'lastName') {
+        nextMapping[transform.column] = null;
+      }
+      const mappedFields = new Set(Object.values(nextMapping));
+      if (!mappedFields.has('firstName')) nextMapping[firstColumn] = 'firstName';
+      if (!mappedFields.has('lastName')) nextMapping[lastColumn] = 'lastName';
+    });
+
+    setTransforms(nextTransforms);
+    setMapping(nextMapping);
+  };
+
   const validateMapping = () => {
     const errors: string[] = [];
     const mappedFields = Object.values(mapping).filter(Boolean);
     
-    // Check required core fields
-    const requiredFields = coreFields.filter(f => f.required);
-    requiredFields.forEach(field => {
-      if (!mappedFields.includes(field.key)) {
-        errors.push(`Required field "${field.label}" is not mapped`);
+    // Check required core fields; rows that only update existing people may
+    // leave them out
+    if (mode !== 'update') {
+      const requiredFields = coreFields.filter(f => f.required);
+      requiredFields.forEach(field => {
+        if (!mappedFields.includes(field.key)) {
+          errors.push(`Required field "${field.label}" is not mapped`);
+        }
+      });
+    }
+
+    if (mode !== 'create' && !mappedFields.includes(matchKey.replace(/^fields\./, ''))) {
+      errors.push(`The match column "${getMatchKeyLabel(matchKey)}" is not mapped`);
+    }
+
+    if (
+      mappedFields.includes('householdRelationship') &&
+      !mappedFields.includes('householdKey') &&
+      !mappedFields.includes('householdName')
+    ) {
+      errors.push('Map a household ID or household name column to import household relationships');
+    }
+
+    setValidationErrors(errors);
+    return errors.length === 0;
+  };
+
+  // Only mapped columns end up in the row data; household columns are read
+  // separately by readHouseholdRow
+  const mapRow = (transformed: CSVRow): ImportRowData => {
+    const personData: ImportRowData = { fields: {} };
+
+    Object.entries(mapping).forEach(([csvCol, targetField]) => {
+      if (!targetField || isHouseholdField(targetField)) return;
+
+      const value = transformed[csvCol]?.trim() ?? '';
+      if (coreFields.some(f => f.key === targetField)) {
+        personData[targetField] = value;
+      } else {
+        // Dynamic field
+        personData.fields[targetField] = value;
       }
     });
 
-    // Validate data
-    csvData.slice(0, 5).forEach((row, index) => {
-      Object.entries(mapping).forEach(([csvCol, targetField]) => {
-        if (!targetField) return;
-        
-        const value = row[csvCol];
-        if (targetField === 'status' && !['active', 'inactive', 'visitor'].includes(value.toLowerCase())) {
-          errors.push(`Row ${index + 1}: Invalid status "${value}". Must be active, inactive, or visitor`);
+    return personData;
+  };
+
+  const getMatchKeyLabel = (key: MatchKey) => {
+    if (key === 'email') return 'Email';
+    if (key === 'phone') return 'Phone';
+    return profileFields.find(field => `fields.${field.key}` === key)?.label || key;
+  };
+
+  const preparePlan = async () => {
+    const isValid = validateMapping();
+    setCurrentStep(2);
+    if (!isValid) return;
+
+    try {
+      setPlanning(true);
+      const transformedRows = csvData.map(row => applyTransforms(row, transforms));
+      const rows = transformedRows.map(mapRow);
+      const index = mode === 'create' ? new Map() : await loadMatchIndex(matchKey);
+
+      // Every row is validated; rows with errors are held back from the import
+      const errors: RowError[] = [];
+      const validPlan: PlannedRow[] = [];
+      planImport(rows, mode, matchKey, index, lineNumbers).forEach(plannedRow => {
+        if (plannedRow.action === 'skip') {
+          validPlan.push(plannedRow);
+          return;
         }
-        if (targetField === 'email' && value && !value.includes('@')) {
-          errors.push(`Row ${index + 1}: Invalid email "${value}"`);
+        const result = validateImportRow(
+          plannedRow.rowNumber,
+          plannedRow.data,
+          profileFields,
+          plannedRow.action === 'create'
+        );
+        const householdResult = readHouseholdRow(plannedRow.rowNumber, transformedRows[plannedRow.rowNumber - 1], mapping);
+        const problems = [...result.errors, ...householdResult.errors];
+        if (problems.length > 0) {
+          errors.push(...problems);
+        } else {
+          validPlan.push({ ...plannedRow, data: result.data, household: householdResult.household });
         }
       });
-    });
 
-    setValidationErrors(errors);
-    return errors.length === 0;
+      setPlan(validPlan);
+      setRowErrors(errors);
+    } catch (error) {
+      console.error('Failed to match rows:', error);
+      message.error('Failed to match rows against existing people');
+      setPlan([]);
+      setRowErrors([]);
+    } finally {
+      setPlanning(false);
+    }
   };
 
   const handleImport = async () => {
@@ -151,42 +424,114 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
 
     setImporting(true);
     try {
-      let successCount = 0;
+      // The batch is recorded up front and what it has changed is saved as
+      // rows are imported, so an interrupted import can still be rolled back
+      // up to its last save
+      const batchResponse = await ImportBatch.create({
+        fileName: sheetNames.length > 1 ? `${fileName} (${sheetName})` : fileName,
+        mode,
+        matchKey: mode === 'create' ? null : matchKey,
+        mapping,
+        importedByUserId: user?._id,
+        importedByName: user?.name || user?.email,
+        status: 'running',
+      });
+      if (!batchResponse.success) {
+        throw new Error(batchResponse.message || 'Failed to record import batch');
+      }
+
+      const createdIds: string[] = [];
+      const updates: { personId: string; previous: Record<string, any> }[] = [];
       let errorCount = 0;
+      const households = plan.some(plannedRow => plannedRow.household) ? await createHouseholdImporter() : null;
 
-      for (const row of csvData) {
+      // A failed save stops the import, so no more than one interval of rows
+      // goes unrecorded. So does a rollback from Import History, which would
+      // otherwise be overwritten by this save.
+      let savedRows = 0;
+      let savedAt = Date.now();
+      const saveBatch = async (changes: EntityInput<ImportBatchType> = {}) => {
+        const current = await ImportBatch.get(batchResponse.data._id);
+        if (!current.success || !current.data) {
+          throw new Error(current.message || 'Failed to check the import progress');
+        }
+        if (current.data.status !== 'running') {
+          throw new Error('The import was rolled back while it was running');
+        }
+
+        const response = await ImportBatch.update(batchResponse.data._id, {
+          createdIds,
+          updates,
+          ...(households && {
+            ...households.result,
+            householdCount: households.result.createdHouseholdIds.length,
+          }),
+          createdCount: createdIds.length,
+          updatedCount: updates.length,
+          errorCount,
+          ...changes,
+        });
+        if (!response.success) {
+          throw new Error(response.message || 'Failed to save the import progress');
+        }
+        savedAt = Date.now();
+      };
+
+      for (const [index, plannedRow] of plan.entries()) {
         try {
-          const personData: any = {
-            status: 'active', // default
-            fields: {},
-          };
-
-          // Map core fields
-          Object.entries(mapping).forEach(([csvCol, targetField]) => {
-            if (!targetField) return;
-            
-            const value = row[csvCol];
-            if (coreFields.some(f => f.key === targetField)) {
-              personData[targetField] = value;
-            } else {
-              // Dynamic field
-              personData.fields[targetField] = value;
+          const householdId = households ? await households.getHouseholdId(plannedRow) : undefined;
+          let personId: string | undefined;
+
+          if (plannedRow.action === 'create') {
+            const response = await Person.create({ status: 'active', ...plannedRow.data, ...(householdId && { householdId }) });
+            if (!response.success) throw new Error(response.message);
+            personId = response.data._id;
+            createdIds.push(personId);
+          } else if (plannedRow.action === 'update' && plannedRow.existing) {
+            const payload = buildUpdatePayload(plannedRow);
+            if (householdId && plannedRow.existing.householdId !== householdId) {
+              payload.householdId = householdId;
             }
-          });
+            const response = await Person.update(plannedRow.existing._id, payload);
+            if (!response.success) throw new Error(response.message);
+            personId = plannedRow.existing._id;
+            updates.push({ personId, previous: getPreviousValues(plannedRow.existing, payload) });
+          }
 
-          await Person.create(personData);
-          successCount++;
+          if (households && personId && householdId && plannedRow.household) {
+            await households.addMember(personId, householdId, plannedRow.household.relationship);
+          }
         } catch (error) {
-          console.error('Failed to import row:', row, error);
+          console.error('Failed to import row:', getSourceRowNumber(lineNumbers, plannedRow.rowNumber), error);
           errorCount++;
         }
+
+        const imported = index + 1;
+        const interval = Math.max(BATCH_SAVE_INTERVAL, Math.ceil(savedRows * BATCH_SAVE_GROWTH));
+        if (imported - savedRows >= interval || Date.now() - savedAt >= BATCH_SAVE_MAX_WAIT) {
+          await saveBatch();
+          savedRows = imported;
+        }
       }
 
-      message.success(`Import completed: ${successCount} people imported, ${errorCount} errors`);
+      const createdCount = createdIds.length;
+      const updatedCount = updates.length;
+      const skippedCount = plan.filter(plannedRow => plannedRow.action === 'skip').length;
+      await saveBatch({
+        status: 'completed',
+        skippedCount,
+        rejectedCount: rejectedRowNumbers.size,
+      });
+
+      message.success(
+        `Import completed: ${createdCount} created, ${updatedCount} updated, ${skippedCount} skipped, ` +
+        `${rejectedRowNumbers.size} rejected, ${errorCount} errors`
+      );
       onSuccess();
       handleClose();
     } catch (error) {
-      message.error('Import failed');
+      console.error('Import failed:', error);
+      message.error(error instanceof Error && error.message ? `Import failed: ${error.message}` : 'Import failed');
     } finally {
       setImporting(false);
     }
@@ -195,74 +540,169 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
   const handleClose = () => {
     setCurrentStep(0);
     setCsvData([]);
+    setLineNumbers(undefined);
+    setFileName('');
     setCsvHeaders([]);
     setMapping({});
     setValidationErrors([]);
+    setMode('create');
+    setMatchKey('email');
+    setPlan([]);
+    setRowErrors([]);
+    setActiveTemplateId(null);
+    setTransforms([]);
+    setWorkbook(null);
+    setSheetNames([]);
+    setSheetName(null);
     onClose();
   };
 
-  const previewColumns: ColumnsType<CSVRow> = csvHeaders.map(header => ({
+  const transformedColumns = new Set(transforms.map(transform => transform.column));
+  const derivedColumns = getDerivedColumns(transforms);
+  const previewRows = useMemo(
+    () => csvData.slice(0, PREVIEW_ROWS).map((row, index) => ({
+      key: index,
+      raw: row,
+      transformed: applyTransforms(row, transforms),
+    })),
+    [csvData, transforms]
+  );
+
+  // Transformed columns show the file's value above the value to be imported
+  const previewColumns: ColumnsType<{ key: number; raw: CSVRow; transformed: CSVRow }> = [...csvHeaders, ...derivedColumns].map(header => ({
     title: (
       <div>
         <div>{header}</div>
-        <Select
-          size="small"
-          placeholder="Map to field"
+        <MappingFieldSelect
           value={mapping[header]}
           onChange={(value) => setMapping({ ...mapping, [header]: value })}
-          style={{ width: '100%' }}
-          allowClear
-        >
-          <Option value="" disabled>Core Fields</Option>
-          {coreFields.map(field => (
-            <Option key={field.key} value={field.key}>
-              {field.label} {field.required && '*'}
-            </Option>
-          ))}
-          {profileFields.length > 0 && <Option value="" disabled>Custom Fields</Option>}
-          {profileFields.map(field => (
-            <Option key={field.key} value={field.key}>
-              {field.label}
-            </Option>
-          ))}
-        </Select>
+          profileFields={profileFields}
+        />
       </div>
     ),
-    dataIndex: header,
     key: header,
     width: 200,
-    render: (text) => text || '-',
+    render: (_, { raw, transformed }) => {
+      const after = transformed[header];
+      if (!transformedColumns.has(header) || raw[header] === after) {
+        return after || '-';
+      }
+      return (
+        <div>
+          <Text type="secondary" delete>{raw[header] || '-'}</Text>
+          <div className="text-green-700">{after || '-'}</div>
+        </div>
+      );
+    },
   }));
 
+  const sampleValues = useMemo(() => {
+    const samples: Record<string, string[]> = {};
+    csvHeaders.forEach(header => {
+      const distinct = new Set<string>();
+      for (const row of csvData) {
+        const value = row[header]?.trim();
+        if (value) distinct.add(value);
+        if (distinct.size >= MAX_SAMPLE_VALUES) break;
+      }
+      samples[header] = Array.from(distinct);
+    });
+    return samples;
+  }, [csvHeaders, csvData]);
+
+  const planSummary = summarizePlan(plan);
+  const householdKeys = new Set(
+    plan.filter(plannedRow => plannedRow.household && plannedRow.action !== 'skip')
+      .map(plannedRow => getHouseholdGroupKey(plannedRow.household!))
+  );
+  const rejectedRowNumbers = new Set(rowErrors.map(error => error.rowNumber));
+
+  // The rejected rows keep their original columns so the file can be fixed and
+  // uploaded again; the problems are listed in an extra column.
+  const downloadRejectedRows = () => {
+    const rows = Array.from(rejectedRowNumbers).sort((a, b) => a - b).map(rowNumber => [
+      ...csvHeaders.map(header => csvData[rowNumber - 1][header]),
+      rowErrors
+        .filter(error => error.rowNumber === rowNumber)
+        .map(error => `${error.label}: ${error.message}`)
+        .join('; '),
+    ]);
+    const blob = new Blob([toCsv([[...csvHeaders, 'Import Errors'], ...rows])], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'rejected-rows.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const errorColumns: ColumnsType<RowError> = [
+    {
+      title: 'Row',
+      dataIndex: 'rowNumber',
+      key: 'rowNumber',
+      width: 70,
+      render: (rowNumber: number) => getSourceRowNumber(lineNumbers, rowNumber),
+    },
+    { title: 'Field', dataIndex: 'label', key: 'label', width: 150 },
+    { title: 'Value', dataIndex: 'value', key: 'value', render: (value) => value || <Text type="secondary">(empty)</Text> },
+    { title: 'Problem', dataIndex: 'message', key: 'message' },
+  ];
+  const skippedRows = plan.filter(plannedRow => plannedRow.action === 'skip');
+  const skippedColumns: ColumnsType<PlannedRow> = [
+    {
+      title: 'Row',
+      dataIndex: 'rowNumber',
+      key: 'rowNumber',
+      width: 70,
+      render: (rowNumber: number) => getSourceRowNumber(lineNumbers, rowNumber),
+    },
+    {
+      title: 'Person',
+      key: 'person',
+      render: (_, plannedRow) =>
+        [plannedRow.data.firstName, plannedRow.data.lastName].filter(Boolean).join(' ') || plannedRow.data.email || '-',
+    },
+    { title: 'Skipped because', dataIndex: 'reason', key: 'reason' },
+  ];
+
   const steps = [
     {
-      title: 'Upload CSV',
+      title: 'Upload File',
       content: (
         <div className="space-y-4">
           <Alert
-            message="CSV Import Instructions"
-            description="Upload a CSV file with person data. The first row should contain column headers."
+            message="Import Instructions"
+            description="Upload a CSV or Excel file with person data, or a vCard file of contacts. Spreadsheets should have column headers in the first row."
             type="info"
             showIcon
           />
           <Dragger
             beforeUpload={handleFileUpload}
             showUploadList={false}
-            accept=".csv"
+            accept={IMPORT_FILE_ACCEPT}
+            disabled={parseProgress !== null}
           >
             <p className="ant-upload-drag-icon">
               <InboxOutlined />
             </p>
-            <p className="ant-upload-text">Click or drag CSV file to this area to upload</p>
+            <p className="ant-upload-text">Click or drag a file to this area to upload</p>
             <p className="ant-upload-hint">
-              Supports .csv files only. First row should contain column headers.
+              CSV (comma, semicolon or tab separated), Excel (.xlsx) or vCard (.vcf) exported from a phone.
             </p>
           </Dragger>
+          {parseProgress !== null && (
+            <Progress percent={parseProgress} status="active" />
+          )}
           <Button
             icon={<DownloadOutlined />}
             onClick={() => {
               // Create sample CSV
-              const sampleCSV = 'First Name,Last Name,Email,Phone,Status\nJohn,Doe,john@example.com,(555) 123-4567,active\nJane,Smith,jane@example.com,(555) 987-6543,visitor';
+              const sampleCSV = toCsv([
+                ['First Name', 'Last Name', 'Email', 'Phone', 'Status'],
+                ['John', 'Doe', 'john@example.com', '(555) 123-4567', 'active'],
+                ['Jane', 'Smith', 'jane@example.com', '(555) 987-6543', 'visitor'],
+              ]);
               const blob = new Blob([sampleCSV], { type: 'text/csv' });
               const url = URL.createObjectURL(blob);
               const a = document.createElement('a');
@@ -283,22 +723,88 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
         <div className="space-y-4">
           <Alert
             message="Column Mapping"
-            description="Map CSV columns to person fields. Required fields must be mapped."
+            description="Map columns to person fields. Required fields must be mapped."
             type="info"
             showIcon
           />
+          {sheetNames.length > 1 && (
+            <Card size="small" title="Sheet">
+              <Select value={sheetName ?? undefined} onChange={handleSheetChange} style={{ width: '100%' }}>
+                {sheetNames.map(name => (
+                  <Option key={name} value={name}>{name}</Option>
+                ))}
+              </Select>
+            </Card>
+          )}
+          <Card
+            size="small"
+            title="Template"
+            extra={can('create', 'importTemplate') && (
+              <Button size="small" icon={<SaveOutlined />} onClick={openSaveTemplateModal}>
+                Save as Template
+              </Button>
+            )}
+          >
+            <Select
+              placeholder="No template - columns mapped automatically"
+              value={activeTemplateId ?? undefined}
+              onChange={handleTemplateChange}
+              allowClear
+              style={{ width: '100%' }}
+            >
+              {templates.map(template => (
+                <Option key={template._id} value={template._id}>{template.name}</Option>
+              ))}
+            </Select>
+          </Card>
+          <Card size="small" title="Import Mode">
+            <Space direction="vertical" className="w-full">
+              <Radio.Group value={mode} onChange={(e) => setMode(e.target.value)}>
+                {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(value => (
+                  <Radio key={value} value={value}>{IMPORT_MODE_LABELS[value]}</Radio>
+                ))}
+              </Radio.Group>
+              {mode !== 'create' && (
+                <Space>
+                  <Text>Match existing people by</Text>
+                  <Select value={matchKey} onChange={setMatchKey} style={{ width: 220 }}>
+                    <Option value="email">Email</Option>
+                    <Option value="phone">Phone</Option>
+                    {profileFields
+                      .filter(field => ['text', 'email', 'phone', 'number'].includes(field.type))
+                      .map(field => (
+                        <Option key={field.key} value={`fields.${field.key}`}>{field.label}</Option>
+                      ))}
+                  </Select>
+                </Space>
+              )}
+              {mode !== 'create' && (
+                <Text type="secondary">
+                  Matched people only get the mapped columns updated; everything else is left as is.
+                </Text>
+              )}
+            </Space>
+          </Card>
           <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
             <Table
               columns={previewColumns}
-              dataSource={csvData.slice(0, 5)}
+              dataSource={previewRows}
               pagination={false}
               scroll={{ x: true }}
               size="small"
             />
           </div>
           <Text type="secondary">
-            Showing first 5 rows. Total rows: {csvData.length}
+            Showing first {PREVIEW_ROWS} rows. Total rows: {csvData.length}
           </Text>
+          <Card size="small" title="Value Transforms">
+            <TransformEditor
+              columns={csvHeaders}
+              value={transforms}
+              onChange={handleTransformsChange}
+              sampleValues={sampleValues}
+            />
+          </Card>
         </div>
       ),
     },
@@ -320,30 +826,85 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
               showIcon
             />
           ) : (
-            <Alert
-              message="Ready to Import"
-              description={`${csvData.length} people will be imported.`}
-              type="success"
-              showIcon
-            />
+            <>
+              <Alert
+                message="Ready to Import"
+                description={`${csvData.length} rows checked against ${mode === 'create' ? 'nothing (create mode)' : `existing people by ${getMatchKeyLabel(matchKey).toLowerCase()}`}.`}
+                type="success"
+                showIcon
+              />
+              <Card size="small" loading={planning}>
+                <Row gutter={16}>
+                  <Col span={6}>
+                    <Statistic title="Create" value={planSummary.create} valueStyle={{ color: '#3f8600' }} />
+                  </Col>
+                  <Col span={6}>
+                    <Statistic title="Update" value={planSummary.update} valueStyle={{ color: '#1890ff' }} />
+                  </Col>
+                  <Col span={6}>
+                    <Statistic title="Skip" value={planSummary.skip} valueStyle={{ color: '#8c8c8c' }} />
+                  </Col>
+                  <Col span={6}>
+                    <Statistic title="Rejected" value={rejectedRowNumbers.size} valueStyle={{ color: '#cf1322' }} />
+                  </Col>
+                </Row>
+                {householdKeys.size > 0 && (
+                  <Text type="secondary" className="block mt-3">
+                    People will be added to {householdKeys.size} households. Existing households are reused by
+                    household ID, or by name when the name is unique; the rest are created.
+                  </Text>
+                )}
+              </Card>
+              {rowErrors.length > 0 && (
+                <Card
+                  size="small"
+                  title={`${rowErrors.length} problems in ${rejectedRowNumbers.size} rows — these rows will not be imported`}
+                  extra={
+                    <Button size="small" icon={<DownloadOutlined />} onClick={downloadRejectedRows}>
+                      Download Rejected Rows
+                    </Button>
+                  }
+                >
+                  <Table
+                    columns={errorColumns}
+                    dataSource={rowErrors}
+                    rowKey={(error) => `${error.rowNumber}:${error.field}`}
+                    size="small"
+                    pagination={{ pageSize: 5, showSizeChanger: false }}
+                  />
+                </Card>
+              )}
+              {skippedRows.length > 0 && (
+                <Table
+                  columns={skippedColumns}
+                  dataSource={skippedRows}
+                  rowKey="rowNumber"
+                  size="small"
+                  pagination={{ pageSize: 5, showSizeChanger: false }}
+                />
+              )}
+            </>
           )}
         </div>
       ),
     },
   ];
 
-  if (userRole === 'viewer') {
+  if (!can('import', 'person')) {
     return null;
   }
 
   return (
     <Modal
-      title="Import People from CSV"
+      title="Import People"
       open={visible}
       onCancel={handleClose}
+      closable={!importing}
+      maskClosable={!importing}
+      keyboard={!importing}
       footer={
         <Space>
-          <Button onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleClose} disabled={importing}>Cancel</Button>
           {currentStep > 0 && (
             <Button onClick={() => setCurrentStep(currentStep - 1)}>
               Previous
@@ -354,9 +915,10 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
               type="primary" 
               onClick={() => {
                 if (currentStep === 1) {
-                  validateMapping();
+                  preparePlan();
+                } else {
+                  setCurrentStep(currentStep + 1);
                 }
-                setCurrentStep(currentStep + 1);
               }}
               disabled={currentStep === 0 && csvData.length === 0}
             >
@@ -368,7 +930,7 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
               type="primary" 
               onClick={handleImport}
               loading={importing}
-              disabled={validationErrors.length > 0}
+              disabled={validationErrors.length > 0 || planning || planSummary.create + planSummary.update === 0}
             >
               Import People
             </Button>
@@ -383,6 +945,29 @@ const CSVImport: React.FC<CSVImportProps> = ({ visible, onClose, onSuccess }) =>
         ))}
       </Steps>
       {steps[currentStep].content}
+
+      <Modal
+        title="Save Import Template"
+        open={showSaveTemplateModal}
+        onOk={handleSaveTemplate}
+        onCancel={() => setShowSaveTemplateModal(false)}
+        okText="Save"
+        okButtonProps={{ disabled: !templateName.trim() }}
+        confirmLoading={savingTemplate}
+      >
+        <div className="space-y-2">
+          <Input
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="e.g. Monthly giving export"
+            onPressEnter={handleSaveTemplate}
+          />
+          <Text type="secondary" className="block">
+            Saves the column mapping, value transforms and import mode. Files with the same
+            headers will use this template automatically. Keep the name to update the current template.
+          </Text>
+        </div>
+      </Modal>
     </Modal>
   );
 };
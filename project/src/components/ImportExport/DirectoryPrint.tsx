@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  Button,
+  Card,
+  Checkbox,
+  Input,
+  Radio,
+  Select,
+  Space,
+  Typography,
+  message,
+} from 'antd';
+import { PrinterOutlined } from '@ant-design/icons';
+import type { ProfileFieldDef as ProfileFieldDefType, Tag as TagType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  DIRECTORY_DETAIL_LABELS,
+  LABEL_LAYOUTS,
+  PAPER_SIZES,
+  SORT_ORDER_LABELS,
+  loadPrintHouseholds,
+  openPrintWindow,
+  renderDirectory,
+  renderLabels,
+  showPrintDocument,
+} from '../../utils/directoryPrint';
+import type { DirectoryDetail, PaperSize, PrintSortOrder } from '../../utils/directoryPrint';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+type PrintDocument = 'labels' | 'directory';
+
+interface DirectoryPrintProps {
+  visible: boolean;
+  onClose: () => void;
+  where: Record<string, any>;
+  total: number;
+  profileFields: ProfileFieldDefType[];
+  tags: TagType[];
+}
+
+const DirectoryPrint: React.FC<DirectoryPrintProps> = ({
+  visible,
+  onClose,
+  where,
+  total,
+  profileFields,
+  tags,
+}) => {
+  const { organizationId, organizations } = useAuth();
+  const { can } = usePermissions();
+  const [documentType, setDocumentType] = useState<PrintDocument>('labels');
+  const [source, setSource] = useState<'filters' | 'tag'>('filters');
+  const [tagId, setTagId] = useState<string | undefined>();
+  const [paper, setPaper] = useState<PaperSize>('letter');
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [sortOrder, setSortOrder] = useState<PrintSortOrder>('lastName');
+  const [skipWithoutAddress, setSkipWithoutAddress] = useState(true);
+  const [title, setTitle] = useState('');
+  const [details, setDetails] = useState<DirectoryDetail[]>(['photos', 'address', 'phone', 'email']);
+  const [fieldKeys, setFieldKeys] = useState<string[]>([]);
+  const [printing, setPrinting] = useState(false);
+
+  const organizationName = organizations.find(organization => organization._id === organizationId)?.name;
+  const defaultTitle = organizationName ? `${organizationName} Directory` : 'Church Directory';
+
+  const visibleProfileFields = profileFields.filter(field =>
+    field.visibility !== 'staff_only' || can('export', 'staffField')
+  );
+  const paperLayouts = LABEL_LAYOUTS.filter(layout => layout.paper === paper);
+
+  const handlePaperChange = (value: PaperSize) => {
+    setPaper(value);
+    if (LABEL_LAYOUTS.find(layout => layout.id === layoutId)?.paper !== value) {
+      setLayoutId(LABEL_LAYOUTS.find(layout => layout.paper === value)!.id);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (source === 'tag' && !tagId) {
+      message.warning('Please select a tag');
+      return;
+    }
+
+    // Opened before loading anything, while the click still counts as one
+    const printWindow = openPrintWindow();
+    if (!printWindow) {
+      message.error('The print window was blocked. Please allow pop-ups for this site.');
+      return;
+    }
+
+    setPrinting(true);
+    try {
+      const printWhere = source === 'tag' ? { archived: { $ne: true }, tagIds: { $in: [tagId] } } : where;
+      const groups = await loadPrintHouseholds(printWhere, sortOrder);
+      if (groups.length === 0) {
+        printWindow.close();
+        message.warning('No people to print');
+        return;
+      }
+
+      let html: string;
+      if (documentType === 'labels') {
+        const labels = renderLabels(groups, {
+          layout: LABEL_LAYOUTS.find(layout => layout.id === layoutId)!,
+          skipWithoutAddress,
+        });
+        if (labels.count === 0) {
+          printWindow.close();
+          message.warning('None of these households have an address');
+          return;
+        }
+        html = labels.html;
+      } else {
+        html = renderDirectory(groups, {
+          title: title.trim() || defaultTitle,
+          paper,
+          details,
+          // Fields archived or hidden since they were picked are left out
+          profileFields: fieldKeys.flatMap(key => visibleProfileFields.filter(field => field.key === key)),
+        });
+      }
+
+      showPrintDocument(printWindow, html);
+      onClose();
+    } catch (error) {
+      printWindow.close();
+      console.error('Print failed:', error);
+      message.error('Failed to prepare the document');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Print Labels & Directory"
+      open={visible}
+      onCancel={onClose}
+      footer={
+        <Space>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="primary" icon={<PrinterOutlined />} onClick={handlePrint} loading={printing}>
+            {documentType === 'labels' ? 'Print Labels' : 'Print Directory'}
+          </Button>
+        </Space>
+      }
+      width={700}
+    >
+      <div className="space-y-4">
+        <Radio.Group value={documentType} onChange={(e) => setDocumentType(e.target.value)}>
+          <Radio.Button value="labels">Mailing Labels</Radio.Button>
+          <Radio.Button value="directory">Directory</Radio.Button>
+        </Radio.Group>
+
+        <Card title="People" size="small">
+          <Radio.Group value={source} onChange={(e) => setSource(e.target.value)}>
+            <Space direction="vertical">
+              <Radio value="filters">Current filters ({total} people)</Radio>
+              <Radio value="tag">
+                <Space>
+                  Everyone tagged
+                  <Select
+                    value={tagId}
+                    onChange={(value) => {
+                      setTagId(value);
+                      setSource('tag');
+                    }}
+                    placeholder="Select a tag"
+                    style={{ width: 200 }}
+                  >
+                    {tags.map(tag => (
+                      <Option key={tag._id} value={tag._id}>{tag.name}</Option>
+                    ))}
+                  </Select>
+                </Space>
+              </Radio>
+            </Space>
+          </Radio.Group>
+        </Card>
+
+        <Card title="Layout" size="small">
+          <Space direction="vertical" className="w-full">
+            <Space wrap>
+              <Text>Paper</Text>
+              <Select value={paper} onChange={handlePaperChange} style={{ width: 140 }}>
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(value => (
+                  <Option key={value} value={value}>{PAPER_SIZES[value].label}</Option>
+                ))}
+              </Select>
+              <Text>Sort by</Text>
+              <Select value={sortOrder} onChange={setSortOrder} style={{ width: 160 }}>
+                {(Object.keys(SORT_ORDER_LABELS) as PrintSortOrder[]).map(value => (
+                  <Option key={value} value={value}>{SORT_ORDER_LABELS[value]}</Option>
+                ))}
+              </Select>
+            </Space>
+
+            {documentType === 'labels' ? (
+              <>
+                <Space>
+                  <Text>Labels</Text>
+                  <Select value={layoutId} onChange={setLayoutId} style={{ width: 280 }}>
+                    {paperLayouts.map(layout => (
+                      <Option key={layout.id} value={layout.id}>{layout.label}</Option>
+                    ))}
+                  </Select>
+                </Space>
+                <Checkbox checked={skipWithoutAddress} onChange={(e) => setSkipWithoutAddress(e.target.checked)}>
+                  Skip households without an address
+                </Checkbox>
+                <Text type="secondary">
+                  One label per household, addressed to the head and spouse, such as "John &amp; Jane Smith".
+                </Text>
+              </>
+            ) : (
+              <Space>
+                <Text>Title</Text>
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={defaultTitle}
+                  style={{ width: 300 }}
+                />
+              </Space>
+            )}
+          </Space>
+        </Card>
+
+        {documentType === 'directory' && (
+          <Card title="Include" size="small">
+            <Space direction="vertical" className="w-full">
+              <Checkbox.Group
+                value={details}
+                onChange={(values) => setDetails(values as DirectoryDetail[])}
+                options={(Object.keys(DIRECTORY_DETAIL_LABELS) as DirectoryDetail[]).map(value => ({
+                  value,
+                  label: DIRECTORY_DETAIL_LABELS[value],
+                }))}
+              />
+              {visibleProfileFields.length > 0 && (
+                <Select
+                  mode="multiple"
+                  value={fieldKeys}
+                  onChange={setFieldKeys}
+                  placeholder="Add custom fields"
+                  className="w-full"
+                >
+                  {visibleProfileFields.map(field => (
+                    <Option key={field.key} value={field.key}>{field.label}</Option>
+                  ))}
+                </Select>
+              )}
+            </Space>
+          </Card>
+        )}
+
+        <Text type="secondary">
+          The document opens in a new tab. Use your browser's print dialog to print it or save it as a PDF.
+        </Text>
+      </div>
+    </Modal>
+  );
+};
+
+export default DirectoryPrint;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Select } from 'antd';
+import type { ProfileFieldDef as ProfileFieldDefType } from '../../types';
+import { CORE_IMPORT_FIELDS } from '../../utils/importValidation';
+import { HOUSEHOLD_IMPORT_FIELDS } from '../../utils/importHouseholds';
+
+const { Option } = Select;
+
+interface MappingFieldSelectProps {
+  value?: string | null;
+  onChange: (value: string | null) => void;
+  profileFields: ProfileFieldDefType[];
+  size?: 'small' | 'middle';
+}
+
+// Target field picker shared by the import dialog and the template editor.
+const MappingFieldSelect: React.FC<MappingFieldSelectProps> = ({ value, onChange, profileFields, size = 'small' }) => (
+  <Select
+    size={size}
+    placeholder="Map to field"
+    value={value || undefined}
+    onChange={(selected) => onChange(selected ?? null)}
+    style={{ width: '100%' }}
+    allowClear
+  >
+    <Option value="" disabled>Core Fields</Option>
+    {CORE_IMPORT_FIELDS.map(field => (
+      <Option key={field.key} value={field.key}>
+        {field.label} {field.required && '*'}
+      </Option>
+    ))}
+    <Option value="" disabled>Household</Option>
+    {HOUSEHOLD_IMPORT_FIELDS.map(field => (
+      <Option key={field.key} value={field.key}>
+        {field.label}
+      </Option>
+    ))}
+    {profileFields.length > 0 && <Option value="" disabled>Custom Fields</Option>}
+    {profileFields.map(field => (
+      <Option key={field.key} value={field.key}>
+        {field.label}
+      </Option>
+    ))}
+  </Select>
+);
+
+export default MappingFieldSelect;
@@ -0,0 +1,224 @@
+import React from 'react';
+import { AutoComplete, Button, Card, Input, Radio, Select, Space, Typography } from 'antd';
+import { PlusOutlined, DeleteOutlined, ArrowRightOutlined } from '@ant-design/icons';
+import {
+  TRANSFORM_TYPE_LABELS,
+  CASE_STYLE_LABELS,
+  DATE_FORMATS,
+  createTransform,
+  splitNameColumns,
+  previewTransform,
+} from '../../utils/importTransforms';
+import type { ColumnTransform, TransformType, CaseStyle } from '../../utils/importTransforms';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+interface TransformEditorProps {
+  columns: string[];
+  value: ColumnTransform[];
+  onChange: (transforms: ColumnTransform[]) => void;
+  // Distinct values per column from the uploaded file, used to prefill lookups
+  // and preview each transform
+  sampleValues?: Record<string, string[]>;
+}
+
+// Sample values shown before and after each transform
+const PREVIEW_COUNT = 3;
+
+const TransformEditor: React.FC<TransformEditorProps> = ({ columns, value, onChange, sampleValues }) => {
+  const updateTransform = (index: number, changes: Partial<ColumnTransform>) => {
+    onChange(value.map((transform, i) => (i === index ? { ...transform, ...changes } : transform)));
+  };
+
+  const changeType = (index: number, type: TransformType) => {
+    onChange(value.map((transform, i) => (i === index ? createTransform(transform.column, type) : transform)));
+  };
+
+  const removeTransform = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addTransform = () => {
+    const usedColumns = new Set(value.map(transform => transform.column));
+    const column = columns.find(c => !usedColumns.has(c)) || columns[0];
+    if (!column) return;
+    onChange([...value, createTransform(column, 'lookup')]);
+  };
+
+  const fillFromFile = (index: number) => {
+    const transform = value[index];
+    const existing = new Set((transform.values || []).map(entry => entry.from.trim().toLowerCase()));
+    const additions = (sampleValues?.[transform.column] || [])
+      .filter(sample => !existing.has(sample.trim().toLowerCase()))
+      .map(sample => ({ from: sample, to: '' }));
+    updateTransform(index, {
+      values: [...(transform.values || []).filter(entry => entry.from || entry.to), ...additions],
+    });
+  };
+
+  const renderLookup = (transform: ColumnTransform, index: number) => (
+    <>
+      {(transform.values || []).map((entry, entryIndex) => (
+        <Space key={entryIndex} className="w-full">
+          <Input
+            size="small"
+            placeholder="Value in file"
+            value={entry.from}
+            onChange={(e) => updateTransform(index, {
+              values: transform.values?.map((v, i) => (i === entryIndex ? { ...v, from: e.target.value } : v)),
+            })}
+          />
+          <ArrowRightOutlined className="text-gray-400" />
+          <Input
+            size="small"
+            placeholder="Imported as"
+            value={entry.to}
+            onChange={(e) => updateTransform(index, {
+              values: transform.values?.map((v, i) => (i === entryIndex ? { ...v, to: e.target.value } : v)),
+            })}
+          />
+          <Button
+            type="text"
+            size="small"
+            icon={<DeleteOutlined />}
+            onClick={() => updateTransform(index, {
+              values: transform.values?.filter((_, i) => i !== entryIndex),
+            })}
+          />
+        </Space>
+      ))}
+      <Space>
+        <Button
+          size="small"
+          icon={<PlusOutlined />}
+          onClick={() => updateTransform(index, { values: [...(transform.values || []), { from: '', to: '' }] })}
+        >
+          Add Value
+        </Button>
+        {sampleValues?.[transform.column] && (
+          <Button size="small" onClick={() => fillFromFile(index)}>
+            Add Values From File
+          </Button>
+        )}
+      </Space>
+    </>
+  );
+
+  const renderOptions = (transform: ColumnTransform, index: number) => {
+    switch (transform.type) {
+      case 'lookup':
+        return renderLookup(transform, index);
+      case 'date':
+        return (
+          <Space>
+            <Text>Dates in the file look like</Text>
+            <AutoComplete
+              size="small"
+              value={transform.format}
+              onChange={(format) => updateTransform(index, { format })}
+              options={DATE_FORMATS.map(format => ({ value: format }))}
+              style={{ width: 160 }}
+            />
+          </Space>
+        );
+      case 'case':
+        return (
+          <Radio.Group
+            size="small"
+            value={transform.caseStyle}
+            onChange={(e) => updateTransform(index, { caseStyle: e.target.value })}
+          >
+            {(Object.keys(CASE_STYLE_LABELS) as CaseStyle[]).map(style => (
+              <Radio key={style} value={style}>{CASE_STYLE_LABELS[style]}</Radio>
+            ))}
+          </Radio.Group>
+        );
+      case 'phone':
+        return <Text type="secondary">10-digit numbers are formatted as (555) 123-4567.</Text>;
+      case 'trim':
+        return <Text type="secondary">Removes leading, trailing and repeated spaces.</Text>;
+      case 'splitName': {
+        const [firstColumn, lastColumn] = splitNameColumns(transform.column);
+        return (
+          <Text type="secondary">
+            Adds the columns "{firstColumn}" and "{lastColumn}", which can be mapped to the name fields.
+          </Text>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const renderPreview = (transform: ColumnTransform) => {
+    const samples = (sampleValues?.[transform.column] || []).slice(0, PREVIEW_COUNT);
+    if (samples.length === 0) return null;
+
+    return (
+      <div className="border-t pt-2 mt-2">
+        <Text type="secondary" className="text-xs block">Preview</Text>
+        {samples.map(sample => (
+          <div key={sample} className="text-xs">
+            <Text type="secondary">{sample}</Text>
+            <ArrowRightOutlined className="text-gray-400 mx-2" />
+            <Text>{previewTransform(transform, sample) || '-'}</Text>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <Text type="secondary" className="block">
+          No transforms. Add one to rewrite values, e.g. "Member" to "active", before they are imported.
+        </Text>
+      )}
+
+      {value.map((transform, index) => (
+        <Card
+          key={index}
+          size="small"
+          title={
+            <Space>
+              <Select
+                size="small"
+                value={transform.column}
+                onChange={(column) => updateTransform(index, { column })}
+                style={{ width: 180 }}
+              >
+                {columns.map(column => (
+                  <Option key={column} value={column}>{column}</Option>
+                ))}
+              </Select>
+              <Select
+                size="small"
+                value={transform.type}
+                onChange={(type) => changeType(index, type)}
+                style={{ width: 160 }}
+              >
+                {(Object.keys(TRANSFORM_TYPE_LABELS) as TransformType[]).map(type => (
+                  <Option key={type} value={type}>{TRANSFORM_TYPE_LABELS[type]}</Option>
+                ))}
+              </Select>
+            </Space>
+          }
+          extra={<Button type="text" danger size="small" icon={<DeleteOutlined />} onClick={() => removeTransform(index)} />}
+        >
+          <div className="space-y-2">
+            {renderOptions(transform, index)}
+          </div>
+          {renderPreview(transform)}
+        </Card>
+      ))}
+
+      <Button icon={<PlusOutlined />} onClick={addTransform} disabled={columns.length === 0}>
+        Add Transform
+      </Button>
+    </div>
+  );
+};
+
+export default TransformEditor;
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Layout } from 'antd';
 import Header from './Header';
 import Sidebar from './Sidebar';
+import CommandPalette from './CommandPalette';
 import { useBreakpoint } from '../../hooks/useBreakpoint';
 
 const { Content } = Layout;
@@ -14,10 +15,23 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const breakpoint = useBreakpoint();
   const isMobile = ['xs', 'sm'].includes(breakpoint);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  // Ctrl+K, or Cmd+K on a Mac, opens the command palette from any page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <Layout className="min-h-screen">
-      <Header onMenuClick={() => setMobileMenuOpen(true)} />
+      <Header onMenuClick={() => setMobileMenuOpen(true)} onSearchClick={() => setPaletteOpen(true)} />
       <Layout>
         <Sidebar 
           mobileOpen={mobileMenuOpen} 
@@ -27,6 +41,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           {children}
         </Content>
       </Layout>
+      <CommandPalette open={paletteOpen} onClose={() => setPaletteOpen(false)} />
     </Layout>
   );
 };
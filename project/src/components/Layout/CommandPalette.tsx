@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Modal, Input, Spin, Tag } from 'antd';
+import type { InputRef } from 'antd';
+import {
+  SearchOutlined,
+  UserOutlined,
+  HomeOutlined,
+  TagOutlined,
+  MessageOutlined,
+  FileOutlined,
+  PlusOutlined,
+  HistoryOutlined,
+  UserAddOutlined,
+} from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Household } from '../../entities/Household';
+import { Tag as TagEntity } from '../../entities/Tag';
+import { Note } from '../../entities/Note';
+import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
+import type { ProfileFieldDef as ProfileFieldDefType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { Action, Resource } from '../../utils/permissions';
+import { containsText } from '../../utils/queryUtils';
+import { getSearchableFields, quickSearchPeople } from '../../utils/personSearch';
+import type { HighlightTerm } from '../../utils/personSearch';
+import {
+  COMMAND_GROUP_LABELS,
+  addRecentItem,
+  loadRecentItems,
+  matchesCommand,
+} from '../../utils/commandPalette';
+import type { CommandGroup, RecentItem, RecentKind } from '../../utils/commandPalette';
+import HighlightText from '../People/HighlightText';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface CommandItem {
+  key: string;
+  group: CommandGroup;
+  icon: React.ReactNode;
+  label: string;
+  detail?: string;
+  terms?: HighlightTerm[];
+  // Opened by navigating here and remembered as recent
+  recent?: RecentItem;
+  // Run instead of navigating
+  run?: () => void;
+}
+
+interface PageCommand {
+  label: string;
+  path: string;
+  // Extra words the page is found by
+  keywords?: string;
+  permission?: [Action, Resource];
+  settings?: boolean;
+}
+
+// Mirrors the sidebar, plus pages only reachable from other pages
+const PAGE_COMMANDS: PageCommand[] = [
+  { label: 'Dashboard', path: '/', keywords: 'home' },
+  { label: 'People', path: '/people' },
+  { label: 'Find Duplicates', path: '/people/duplicates', keywords: 'merge', permission: ['merge', 'person'] },
+  { label: 'Households', path: '/households', keywords: 'families' },
+  { label: 'Tags', path: '/tags' },
+  { label: 'Profile Fields', path: '/settings/profile-fields', permission: ['manage', 'profileField'], settings: true },
+  { label: 'Team', path: '/settings/team', keywords: 'members invitations', permission: ['manage', 'team'], settings: true },
+  { label: 'Import Templates', path: '/settings/import-templates', permission: ['view', 'importTemplate'], settings: true },
+  { label: 'Import History', path: '/settings/import-history', keywords: 'rollback', permission: ['view', 'importBatch'], settings: true },
+  { label: 'Backup & Restore', path: '/settings/backup', permission: ['export', 'backup'], settings: true },
+  { label: 'Permissions', path: '/settings/permissions', keywords: 'roles', settings: true },
+];
+
+const RECENT_ICONS: Record<RecentKind, React.ReactNode> = {
+  person: <UserOutlined />,
+  household: <HomeOutlined />,
+  tag: <TagOutlined />,
+  note: <MessageOutlined />,
+  page: <FileOutlined />,
+};
+
+// Results of each kind shown at most
+const RESULTS_PER_GROUP = 5;
+
+const SEARCH_DEBOUNCE = 200;
+
+// Searches people, households, tags, notes and pages from anywhere, and runs
+// quick actions. Picking a person while adding a note opens their note form.
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose }) => {
+  const navigate = useNavigate();
+  const { user, organizationId } = useAuth();
+  const { can } = usePermissions();
+  const [query, setQuery] = useState('');
+  // 'note' while picking the person to add a note to
+  const [mode, setMode] = useState<'search' | 'note'>('search');
+  const [recentItems, setRecentItems] = useState<RecentItem[]>([]);
+  const [recordItems, setRecordItems] = useState<CommandItem[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [profileFields, setProfileFields] = useState<ProfileFieldDefType[] | null>(null);
+  const inputRef = useRef<InputRef>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const searchRequestRef = useRef(0);
+
+  useEffect(() => {
+    setProfileFields(null);
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setMode('search');
+    setRecentItems(user && organizationId ? loadRecentItems(user._id, organizationId) : []);
+    if (!profileFields) fetchProfileFields();
+  }, [open]);
+
+  useEffect(() => {
+    const timeout = setTimeout(searchRecords, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [query, mode, profileFields]);
+
+  const fetchProfileFields = async () => {
+    try {
+      const response = await ProfileFieldDef.query({ where: { archived: { $ne: true } } });
+      setProfileFields(response.success ? response.data : []);
+    } catch (error) {
+      console.error('Failed to load profile fields:', error);
+      setProfileFields([]);
+    }
+  };
+
+  const searchRecords = async () => {
+    // Only the latest search may update the results
+    const request = ++searchRequestRef.current;
+    const text = query.trim();
+    if (!text) {
+      setRecordItems([]);
+      setSearching(false);
+      return;
+    }
+
+    try {
+      setSearching(true);
+      const searchFields = getSearchableFields(profileFields || [], can('view', 'staffField'));
+      const [people, households, tags, notes] = await Promise.all([
+        quickSearchPeople(text, searchFields, RESULTS_PER_GROUP),
+        mode === 'search'
+          ? Household.query({ where: { name: containsText(text) }, sort: 'name', limit: RESULTS_PER_GROUP })
+          : null,
+        mode === 'search'
+          ? TagEntity.query({ where: { name: containsText(text) }, sort: 'name', limit: RESULTS_PER_GROUP })
+          : null,
+        mode === 'search' && can('view', 'note')
+          ? Note.query({
+            where: {
+              body: containsText(text),
+              ...(can('view', 'staffNote') ? {} : { visibility: { $ne: 'staff_only' } }),
+            },
+            sort: '-createdAt',
+            limit: RESULTS_PER_GROUP,
+          })
+          : null,
+      ]);
+      if (request !== searchRequestRef.current) return;
+
+      const items: CommandItem[] = people.map(person => mode === 'note'
+        ? {
+          key: `note-for-${person.personId}`,
+          group: 'people',
+          icon: <UserOutlined />,
+          label: person.label,
+          detail: person.detail,
+          terms: person.terms,
+          run: () => openPath(`/people/${person.personId}?note=new`),
+        }
+        : {
+          key: `person-${person.personId}`,
+          group: 'people',
+          icon: <UserOutlined />,
+          label: person.label,
+          detail: person.detail,
+          terms: person.terms,
+          recent: { kind: 'person', label: person.label, detail: person.detail, path: `/people/${person.personId}` },
+        });
+
+      if (households?.success) {
+        items.push(...households.data.map((household): CommandItem => ({
+          key: `household-${household._id}`,
+          group: 'households',
+          icon: <HomeOutlined />,
+          label: household.name,
+          detail: household.city,
+          recent: { kind: 'household', label: household.name, detail: household.city, path: `/households/${household._id}` },
+        })));
+      }
+      if (tags?.success) {
+        items.push(...tags.data.map((tag): CommandItem => ({
+          key: `tag-${tag._id}`,
+          group: 'tags',
+          icon: <TagOutlined />,
+          label: tag.name,
+          detail: 'People with this tag',
+          recent: { kind: 'tag', label: tag.name, path: `/people?tagIds=${tag._id}` },
+        })));
+      }
+      if (notes?.success) {
+        items.push(...notes.data.map((note): CommandItem => {
+          const label = note.body.length > 80 ? `${note.body.slice(0, 80)}…` : note.body;
+          const detail = dayjs(note.createdAt).format('MMM D, YYYY');
+          return {
+            key: `note-${note._id}`,
+            group: 'notes',
+            icon: <MessageOutlined />,
+            label,
+            detail,
+            recent: { kind: 'note', label, detail, path: `/people/${note.personId}` },
+          };
+        }));
+      }
+      setRecordItems(items);
+    } catch (error) {
+      console.error('Command palette search failed:', error);
+    } finally {
+      if (request === searchRequestRef.current) setSearching(false);
+    }
+  };
+
+  const openPath = (path: string, recent?: RecentItem) => {
+    if (recent && user && organizationId) {
+      addRecentItem(user._id, organizationId, recent);
+    }
+    onClose();
+    navigate(path);
+  };
+
+  const startNoteMode = () => {
+    setMode('note');
+    setQuery('');
+    inputRef.current?.focus();
+  };
+
+  const actionItems = useMemo((): CommandItem[] => [
+    ...(can('create', 'person') ? [{
+      key: 'action-add-person',
+      group: 'actions' as const,
+      icon: <UserAddOutlined />,
+      label: 'Add person',
+      run: () => openPath('/people/new'),
+    }] : []),
+    ...(can('create', 'note') ? [{
+      key: 'action-add-note',
+      group: 'actions' as const,
+      icon: <MessageOutlined />,
+      label: 'Add note to…',
+      run: startNoteMode,
+    }] : []),
+    ...(can('create', 'household') ? [{
+      key: 'action-add-household',
+      group: 'actions' as const,
+      icon: <PlusOutlined />,
+      label: 'Add household',
+      run: () => openPath('/households?new=1'),
+    }] : []),
+    ...(can('create', 'tag') ? [{
+      key: 'action-add-tag',
+      group: 'actions' as const,
+      icon: <PlusOutlined />,
+      label: 'Add tag',
+      run: () => openPath('/tags?new=1'),
+    }] : []),
+  ], [can, user, organizationId]);
+
+  const pageItems = useMemo(() => PAGE_COMMANDS
+    .filter(page => (!page.settings || can('view', 'settings')) && (!page.permission || can(...page.permission)))
+    .map((page): CommandItem => ({
+      key: `page-${page.path}`,
+      group: 'pages',
+      icon: <FileOutlined />,
+      label: page.label,
+      detail: page.settings ? 'Settings' : undefined,
+      recent: { kind: 'page', label: page.label, detail: page.settings ? 'Settings' : undefined, path: page.path },
+    })), [can]);
+
+  const items = useMemo((): CommandItem[] => {
+    const text = query.trim();
+    if (mode === 'note') return recordItems;
+
+    if (!text) {
+      return [
+        ...recentItems.map((recent): CommandItem => ({
+          key: `recent-${recent.path}`,
+          group: 'recent',
+          icon: RECENT_ICONS[recent.kind] || <HistoryOutlined />,
+          label: recent.label,
+          detail: recent.detail,
+          recent,
+        })),
+        ...actionItems,
+      ];
+    }
+
+    const pageKeywords = new Map(PAGE_COMMANDS.map(page => [`page-${page.path}`, page.keywords || '']));
+    return [
+      ...actionItems.filter(item => matchesCommand(text, item.label)),
+      ...recordItems,
+      ...pageItems.filter(item => matchesCommand(text, `${item.label} ${item.detail || ''} ${pageKeywords.get(item.key)}`)),
+    ];
+  }, [query, mode, recentItems, recordItems, actionItems, pageItems]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: CommandItem) => {
+    if (item.run) {
+      item.run();
+    } else if (item.recent) {
+      openPath(item.recent.path, item.recent);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (items.length ? (index + 1) % items.length : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (items.length ? (index - 1 + items.length) % items.length : 0));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    } else if (e.key === 'Backspace' && mode === 'note' && !query) {
+      setMode('search');
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      closable={false}
+      width={600}
+      styles={{ body: { padding: 0 } }}
+      afterOpenChange={(visible) => visible && inputRef.current?.focus()}
+    >
+      <div className="p-3 border-b">
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={mode === 'note' ? 'Add a note to which person?' : 'Search people, households, tags, notes and pages'}
+          prefix={mode === 'note' ? <Tag className="mr-1">Add note</Tag> : <SearchOutlined className="text-gray-400" />}
+          suffix={searching ? <Spin size="small" /> : null}
+          size="large"
+          variant="borderless"
+        />
+      </div>
+
+      <div ref={listRef} className="max-h-96 overflow-auto py-2">
+        {items.length === 0 && (
+          <div className="px-4 py-6 text-center text-gray-400">
+            {query.trim() ? (searching ? 'Searching…' : 'No results') : 'Type to search for a person'}
+          </div>
+        )}
+        {items.map((item, index) => (
+          <React.Fragment key={item.key}>
+            {(index === 0 || items[index - 1].group !== item.group) && (
+              <div className="px-4 pt-2 pb-1 text-xs uppercase text-gray-400">{COMMAND_GROUP_LABELS[item.group]}</div>
+            )}
+            <div
+              data-index={index}
+              className={`mx-2 px-3 py-2 rounded flex items-center gap-3 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => runItem(item)}
+            >
+              <span className="text-gray-500">{item.icon}</span>
+              <span className="truncate">
+                <HighlightText text={item.label} terms={item.terms} />
+              </span>
+              {item.detail && <span className="ml-auto text-sm text-gray-400 truncate">{item.detail}</span>}
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="px-4 py-2 border-t text-xs text-gray-400">
+        ↑↓ to move · Enter to open · Esc to close{mode === 'note' && ' · Backspace to go back'}
+      </div>
+    </Modal>
+  );
+};
+
+export default CommandPalette;
@@ -1,19 +1,24 @@
 import React, { useState } from 'react';
 import { Layout, Select, Typography, Avatar, Dropdown, Button } from 'antd';
 import type { MenuProps } from 'antd';
-import { MenuOutlined } from '@ant-design/icons';
+import { MenuOutlined, SearchOutlined } from '@ant-design/icons';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useBreakpoint } from '../../hooks/useBreakpoint';
+import { PALETTE_SHORTCUT_LABEL } from '../../utils/commandPalette';
 
 const { Header: AntHeader } = Layout;
 const { Title } = Typography;
 
 interface HeaderProps {
   onMenuClick?: () => void;
+  onSearchClick?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
-  const { user, organizationId, organizations } = useAuth();
+const Header: React.FC<HeaderProps> = ({ onMenuClick, onSearchClick }) => {
+  const { user, organizationId, organizations, userRole, logout, switchOrganization } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
   const breakpoint = useBreakpoint();
   const isMobile = ['xs', 'sm'].includes(breakpoint);
   const currentOrg = organizations.find(org => org._id === organizationId);
@@ -26,12 +31,18 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
     {
       key: 'logout',
       label: 'Logout',
+      onClick: logout,
     },
   ];
 
   const handleOrgChange = (value: string) => {
-    // In real app, this would update the current organization
-    console.log('Switching to org:', value);
+    switchOrganization(value);
+
+    // A record page belongs to the previous organization, so fall back to its list
+    const recordPage = location.pathname.match(/^\/(people|households)\/[^/]+/);
+    if (recordPage) {
+      navigate(`/${recordPage[1]}`);
+    }
   };
 
   return (
@@ -68,7 +79,18 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
       </div>
       
       <div className="flex items-center space-x-2 sm:space-x-4">
-        {!isMobile && <span className="text-gray-600">{currentOrg?.name}</span>}
+        <Button icon={<SearchOutlined />} onClick={onSearchClick}>
+          {!isMobile && (
+            <>
+              Search <span className="text-gray-400 ml-1">{PALETTE_SHORTCUT_LABEL}</span>
+            </>
+          )}
+        </Button>
+        {!isMobile && (
+          <span className="text-gray-600">
+            {currentOrg?.name} <span className="text-gray-400">({userRole})</span>
+          </span>
+        )}
         <Dropdown menu={{ items: userMenuItems }} placement="bottomRight">
           <div className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 px-2 py-1 rounded">
             <Avatar src={user?.imageUrl} size="small">
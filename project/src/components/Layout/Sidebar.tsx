@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Layout, Menu, Drawer } from 'antd';
+import { Layout, Menu, Drawer, Badge } from 'antd';
 import {
   DashboardOutlined,
   TeamOutlined,
@@ -8,7 +8,8 @@ import {
   SettingOutlined,
 } from '@ant-design/icons';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useSavedViews } from '../../contexts/SavedViewsContext';
 import { useBreakpoint } from '../../hooks/useBreakpoint';
 
 const { Sider } = Layout;
@@ -21,7 +22,8 @@ interface SidebarProps {
 const Sidebar: React.FC<SidebarProps> = ({ mobileOpen = false, onMobileClose }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { userRole } = useAuth();
+  const { can } = usePermissions();
+  const { views, counts } = useSavedViews();
   const breakpoint = useBreakpoint();
   const isMobile = ['xs', 'sm'].includes(breakpoint);
 
@@ -31,7 +33,34 @@ const Sidebar: React.FC<SidebarProps> = ({ mobileOpen = false, onMobileClose })
       icon: <DashboardOutlined />,
       label: 'Dashboard',
     },
-    {
+    // Saved views are listed under People, each with the number of people it matches
+    views.length > 0 ? {
+      key: 'people',
+      icon: <TeamOutlined />,
+      label: 'People',
+      children: [
+        {
+          key: '/people',
+          label: 'All People',
+        },
+        ...views.map(view => ({
+          key: `/people?view=${view._id}`,
+          label: (
+            <span className="flex items-center justify-between gap-2">
+              <span className="truncate">{view.name}</span>
+              {counts[view._id] && (
+                <Badge
+                  count={counts[view._id].capped ? `${counts[view._id].count}+` : counts[view._id].count}
+                  showZero
+                  overflowCount={9999}
+                  color="#bfbfbf"
+                />
+              )}
+            </span>
+          ),
+        })),
+      ],
+    } : {
       key: '/people',
       icon: <TeamOutlined />,
       label: 'People',
@@ -46,14 +75,34 @@ const Sidebar: React.FC<SidebarProps> = ({ mobileOpen = false, onMobileClose })
       icon: <TagOutlined />,
       label: 'Tags',
     },
-    ...(userRole === 'admin' || userRole === 'owner' ? [{
+    ...(can('view', 'settings') ? [{
       key: '/settings',
       icon: <SettingOutlined />,
       label: 'Settings',
       children: [
-        {
+        ...(can('manage', 'profileField') ? [{
           key: '/settings/profile-fields',
           label: 'Profile Fields',
+        }] : []),
+        ...(can('manage', 'team') ? [{
+          key: '/settings/team',
+          label: 'Team',
+        }] : []),
+        ...(can('view', 'importTemplate') ? [{
+          key: '/settings/import-templates',
+          label: 'Import Templates',
+        }] : []),
+        ...(can('view', 'importBatch') ? [{
+          key: '/settings/import-history',
+          label: 'Import History',
+        }] : []),
+        ...(can('export', 'backup') ? [{
+          key: '/settings/backup',
+          label: 'Backup & Restore',
+        }] : []),
+        {
+          key: '/settings/permissions',
+          label: 'Permissions',
         },
       ],
     }] : []),
@@ -68,7 +117,9 @@ const Sidebar: React.FC<SidebarProps> = ({ mobileOpen = false, onMobileClose })
 
   const getSelectedKey = () => {
     const path = location.pathname;
-    if (path.startsWith('/settings')) return '/settings/profile-fields';
+    if (path === '/settings') return '/settings/profile-fields';
+    const viewId = new URLSearchParams(location.search).get('view');
+    if (path === '/people' && viewId) return `/people?view=${viewId}`;
     return path;
   };
 
@@ -76,6 +127,9 @@ const Sidebar: React.FC<SidebarProps> = ({ mobileOpen = false, onMobileClose })
     if (location.pathname.startsWith('/settings')) {
       return ['/settings'];
     }
+    if (location.pathname.startsWith('/people')) {
+      return ['people'];
+    }
     return [];
   };
 
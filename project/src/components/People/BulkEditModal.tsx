@@ -0,0 +1,338 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  Form,
+  Select,
+  Input,
+  InputNumber,
+  DatePicker,
+  Checkbox,
+  Progress,
+  Alert,
+  Table,
+  Tag,
+  Button,
+  Space,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { Household } from '../../entities/Household';
+import type {
+  Person as PersonType,
+  Tag as TagType,
+  ProfileFieldDef as ProfileFieldDefType,
+  Household as HouseholdType,
+} from '../../types';
+import { RELATIONSHIP_LABELS } from '../../utils/households';
+import { BULK_EDIT_LABELS, runBulkEdit } from '../../utils/bulkEdit';
+import type { BulkEdit, BulkEditType, BulkOutcome, BulkRowResult } from '../../utils/bulkEdit';
+
+const { TextArea } = Input;
+const { Option } = Select;
+
+interface BulkEditModalProps {
+  // The kind of edit to make; the modal is open while set
+  type: BulkEditType | null;
+  personIds: string[];
+  tags: TagType[];
+  // Fields the user may edit
+  profileFields: ProfileFieldDefType[];
+  onClose: () => void;
+  // Called once a run finishes, before its summary is shown
+  onComplete: (results: BulkRowResult[]) => void;
+}
+
+const STATUS_LABELS: Record<PersonType['status'], string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  visitor: 'Visitor',
+};
+
+const OUTCOME_TAGS: Record<BulkOutcome, { color?: string; label: string }> = {
+  updated: { color: 'green', label: 'Updated' },
+  unchanged: { label: 'Unchanged' },
+  failed: { color: 'red', label: 'Failed' },
+};
+
+// Failed rows first so they are seen without paging
+const OUTCOME_ORDER: BulkOutcome[] = ['failed', 'updated', 'unchanged'];
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ type, personIds, tags, profileFields, onClose, onComplete }) => {
+  const [form] = Form.useForm();
+  const [households, setHouseholds] = useState<HouseholdType[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BulkRowResult[] | null>(null);
+  const fieldKey = Form.useWatch('fieldKey', form);
+  const selectedField = profileFields.find(field => field.key === fieldKey);
+  const running = progress !== null && results === null;
+
+  useEffect(() => {
+    if (!type) return;
+    form.resetFields();
+    setProgress(null);
+    setResults(null);
+    if (type === 'household') {
+      fetchHouseholds();
+    }
+  }, [type]);
+
+  const fetchHouseholds = async () => {
+    try {
+      const response = await Household.queryAll({ sort: 'name', fields: ['name'] });
+      if (response.success) {
+        setHouseholds(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch households:', error);
+      message.error('Failed to load households');
+    }
+  };
+
+  const toBulkEdit = (values: any): BulkEdit => {
+    switch (type) {
+      case 'status':
+        return { type, status: values.status };
+      case 'addTags':
+      case 'removeTags':
+        return { type, tagIds: values.tagIds };
+      case 'setField': {
+        // Stored the way the person form stores them
+        const value = selectedField?.type === 'date' ? values.value.toISOString() : values.value ?? null;
+        return { type, fieldKey: values.fieldKey, value: selectedField?.type === 'checkbox' ? Boolean(value) : value };
+      }
+      case 'clearField':
+        return { type, fieldKey: values.fieldKey };
+      case 'household':
+        return { type, householdId: values.householdId, relationship: values.relationship };
+      default:
+        return { type: 'archive' };
+    }
+  };
+
+  const run = async (ids: string[], edit: BulkEdit) => {
+    setResults(null);
+    setProgress({ done: 0, total: ids.length });
+    try {
+      const rowResults = await runBulkEdit(ids, edit, (done, total) => setProgress({ done, total }));
+      setResults(rowResults);
+      onComplete(rowResults);
+    } catch (error) {
+      console.error('Failed to run bulk edit:', error);
+      message.error('Failed to update the selected people');
+      setProgress(null);
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    await run(personIds, toBulkEdit(values));
+  };
+
+  const handleRetryFailed = async () => {
+    if (!results) return;
+    await run(results.filter(row => row.outcome === 'failed').map(row => row.personId), toBulkEdit(form.getFieldsValue(true)));
+  };
+
+  const renderValueInput = (field: ProfileFieldDefType) => {
+    switch (field.type) {
+      case 'textarea':
+        return <TextArea rows={3} />;
+      case 'number':
+        return <InputNumber className="w-full" />;
+      case 'date':
+        return <DatePicker className="w-full" />;
+      case 'checkbox':
+        return <Checkbox>{field.label}</Checkbox>;
+      case 'select':
+      case 'multiselect':
+        return (
+          <Select mode={field.type === 'multiselect' ? 'multiple' : undefined}>
+            {field.options?.map(option => (
+              <Option key={option.value} value={option.value}>
+                {option.label}
+              </Option>
+            ))}
+          </Select>
+        );
+      default:
+        return <Input type={field.type === 'email' ? 'email' : field.type === 'url' ? 'url' : 'text'} />;
+    }
+  };
+
+  const fieldSelect = (
+    <Form.Item name="fieldKey" label="Field" rules={[{ required: true, message: 'Select a field' }]}>
+      <Select
+        placeholder="Select a field"
+        showSearch
+        optionFilterProp="children"
+        onChange={() => form.setFieldValue('value', undefined)}
+      >
+        {profileFields.map(field => (
+          <Option key={field.key} value={field.key}>
+            {field.label}
+          </Option>
+        ))}
+      </Select>
+    </Form.Item>
+  );
+
+  const renderForm = () => {
+    switch (type) {
+      case 'status':
+        return (
+          <Form.Item name="status" label="Status" rules={[{ required: true, message: 'Select a status' }]}>
+            <Select placeholder="Select a status">
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <Option key={value} value={value}>
+                  {label}
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+        );
+      case 'addTags':
+      case 'removeTags':
+        return (
+          <Form.Item name="tagIds" label="Tags" rules={[{ required: true, message: 'Select at least one tag' }]}>
+            <Select mode="multiple" placeholder="Select tags" optionFilterProp="children">
+              {tags.map(tag => (
+                <Option key={tag._id} value={tag._id}>
+                  {tag.name}
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+        );
+      case 'setField':
+        return (
+          <>
+            {fieldSelect}
+            {selectedField && (
+              <Form.Item
+                name="value"
+                label={selectedField.type === 'checkbox' ? undefined : 'Value'}
+                valuePropName={selectedField.type === 'checkbox' ? 'checked' : 'value'}
+                rules={selectedField.type === 'checkbox' ? [] : [{ required: true, message: 'Enter a value' }]}
+              >
+                {renderValueInput(selectedField)}
+              </Form.Item>
+            )}
+          </>
+        );
+      case 'clearField':
+        return fieldSelect;
+      case 'household':
+        return (
+          <>
+            <Form.Item name="householdId" label="Household" rules={[{ required: true, message: 'Select a household' }]}>
+              <Select placeholder="Select a household" showSearch optionFilterProp="children">
+                {households.map(household => (
+                  <Option key={household._id} value={household._id}>
+                    {household.name}
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+            <Form.Item name="relationship" label="Relationship" initialValue="other">
+              <Select>
+                {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+                  <Option key={value} value={value}>
+                    {label}
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+            <p className="text-gray-500">People in another household are moved out of it.</p>
+          </>
+        );
+      case 'archive':
+        return <p>Archived people are hidden from the people list, searches and exports.</p>;
+      default:
+        return null;
+    }
+  };
+
+  const counts = Object.fromEntries(OUTCOME_ORDER.map(outcome => [
+    outcome,
+    results?.filter(row => row.outcome === outcome).length ?? 0,
+  ])) as Record<BulkOutcome, number>;
+
+  const resultColumns: ColumnsType<BulkRowResult> = [
+    {
+      title: 'Name',
+      key: 'name',
+      render: (_, row) => row.name || <span className="text-gray-400">Unknown person</span>,
+    },
+    {
+      title: 'Result',
+      dataIndex: 'outcome',
+      key: 'outcome',
+      render: (outcome: BulkOutcome) => <Tag color={OUTCOME_TAGS[outcome].color}>{OUTCOME_TAGS[outcome].label}</Tag>,
+    },
+    {
+      title: 'Error',
+      dataIndex: 'error',
+      key: 'error',
+      render: (error?: string) => error && <span className="text-red-600">{error}</span>,
+    },
+  ];
+
+  const footer = results ? (
+    <Space>
+      {counts.failed > 0 && <Button onClick={handleRetryFailed}>Retry Failed</Button>}
+      <Button type="primary" onClick={onClose}>Done</Button>
+    </Space>
+  ) : (
+    <Space>
+      <Button onClick={onClose} disabled={running}>Cancel</Button>
+      <Button type="primary" danger={type === 'archive'} loading={running} onClick={() => form.submit()}>
+        {type === 'archive' ? 'Archive' : 'Apply'} to {personIds.length} {personIds.length === 1 ? 'person' : 'people'}
+      </Button>
+    </Space>
+  );
+
+  return (
+    <Modal
+      title={type ? BULK_EDIT_LABELS[type] : undefined}
+      open={type !== null}
+      onCancel={onClose}
+      footer={footer}
+      closable={!running}
+      maskClosable={false}
+      keyboard={!running}
+      width={results ? 720 : 520}
+    >
+      <Form form={form} layout="vertical" onFinish={handleSubmit} disabled={running} className={results ? 'hidden' : undefined}>
+        {renderForm()}
+      </Form>
+
+      {progress && !results && (
+        <div className="space-y-2">
+          <Progress percent={progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 100} status="active" />
+          <div className="text-gray-500">
+            {progress.done} of {progress.total} people processed
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="space-y-4">
+          <Alert
+            type={counts.failed > 0 ? 'warning' : 'success'}
+            showIcon
+            message={`${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.failed} failed`}
+            description={counts.failed > 0 ? 'Failed people stay selected so they can be retried.' : undefined}
+          />
+          <Table
+            columns={resultColumns}
+            dataSource={[...results].sort((a, b) => OUTCOME_ORDER.indexOf(a.outcome) - OUTCOME_ORDER.indexOf(b.outcome))}
+            rowKey="personId"
+            size="small"
+            pagination={{ pageSize: 10, showSizeChanger: false }}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default BulkEditModal;
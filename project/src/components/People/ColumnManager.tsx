@@ -0,0 +1,107 @@
+import React from 'react';
+import { Button, Checkbox, Space, Tooltip, Typography } from 'antd';
+import { DragOutlined, PushpinFilled, PushpinOutlined } from '@ant-design/icons';
+import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
+import type { DropResult } from 'react-beautiful-dnd';
+import type { ColumnLayout } from '../../utils/columnLayout';
+
+const { Text } = Typography;
+
+interface ColumnManagerProps {
+  layout: ColumnLayout;
+  visibleColumns: string[];
+  labels: Record<string, string>;
+  onLayoutChange: (layout: ColumnLayout) => void;
+  onVisibleColumnsChange: (keys: string[]) => void;
+  onReset: () => void;
+}
+
+// Lists every column of the people list in display order. Columns are dragged
+// to reorder them, checked to show them and pinned to keep them on the left.
+const ColumnManager: React.FC<ColumnManagerProps> = ({
+  layout,
+  visibleColumns,
+  labels,
+  onLayoutChange,
+  onVisibleColumnsChange,
+  onReset,
+}) => {
+  // Pinned columns always come first, whatever is dragged where
+  const withPinnedFirst = (order: string[], pinned: string[]) => ({
+    ...layout,
+    order: [...order.filter(key => pinned.includes(key)), ...order.filter(key => !pinned.includes(key))],
+    pinned: order.filter(key => pinned.includes(key)),
+  });
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
+
+    const order = Array.from(layout.order);
+    const [moved] = order.splice(result.source.index, 1);
+    order.splice(result.destination.index, 0, moved);
+    onLayoutChange(withPinnedFirst(order, layout.pinned));
+  };
+
+  const togglePinned = (key: string) => {
+    const pinned = layout.pinned.includes(key)
+      ? layout.pinned.filter(pinnedKey => pinnedKey !== key)
+      : [...layout.pinned, key];
+    onLayoutChange(withPinnedFirst(layout.order, pinned));
+  };
+
+  const toggleVisible = (key: string, checked: boolean) => {
+    onVisibleColumnsChange(checked
+      ? [...visibleColumns, key]
+      : visibleColumns.filter(col => col !== key));
+  };
+
+  return (
+    <Space direction="vertical" className="w-full">
+      <div className="flex justify-between items-center">
+        <Text type="secondary">Drag to reorder. Drag a column's right edge in the table header to resize it.</Text>
+        <Button size="small" onClick={onReset}>Reset</Button>
+      </div>
+      <DragDropContext onDragEnd={handleDragEnd}>
+        <Droppable droppableId="columns">
+          {(provided) => (
+            <div {...provided.droppableProps} ref={provided.innerRef}>
+              {layout.order.map((key, index) => (
+                <Draggable key={key} draggableId={key} index={index}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      className={`flex items-center gap-2 px-2 py-1 rounded ${snapshot.isDragging ? 'bg-white shadow-lg' : ''}`}
+                    >
+                      <div {...provided.dragHandleProps}>
+                        <DragOutlined className="text-gray-400 cursor-grab" />
+                      </div>
+                      <Checkbox
+                        checked={visibleColumns.includes(key)}
+                        onChange={(e) => toggleVisible(key, e.target.checked)}
+                      >
+                        {labels[key] || key}
+                      </Checkbox>
+                      <Tooltip title={layout.pinned.includes(key) ? 'Unpin' : 'Pin to the left'}>
+                        <Button
+                          type="text"
+                          size="small"
+                          className="ml-auto"
+                          icon={layout.pinned.includes(key) ? <PushpinFilled /> : <PushpinOutlined />}
+                          onClick={() => togglePinned(key)}
+                        />
+                      </Tooltip>
+                    </div>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+      </DragDropContext>
+    </Space>
+  );
+};
+
+export default ColumnManager;
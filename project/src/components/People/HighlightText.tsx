@@ -0,0 +1,27 @@
+import React from 'react';
+import { getHighlightRanges } from '../../utils/personSearch';
+import type { HighlightTerm } from '../../utils/personSearch';
+
+interface HighlightTextProps {
+  text: string;
+  terms?: HighlightTerm[];
+}
+
+// Renders text with the parts that matched a search marked
+const HighlightText: React.FC<HighlightTextProps> = ({ text, terms }) => {
+  const ranges = terms?.length ? getHighlightRanges(text, terms) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="bg-yellow-200 px-0">{text.slice(start, end)}</mark>);
+    position = end;
+  }
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default HighlightText;
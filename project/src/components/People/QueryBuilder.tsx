@@ -0,0 +1,275 @@
+import React from 'react';
+import {
+  Button,
+  DatePicker,
+  Input,
+  InputNumber,
+  Radio,
+  Select,
+  Space,
+  Typography,
+} from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import type { Tag as TagType } from '../../types';
+import {
+  FIELD_TYPE_OPERATORS,
+  MAX_GROUP_DEPTH,
+  OPERATORS,
+  createQueryGroup,
+  createQueryRule,
+  getOperatorLabel,
+} from '../../utils/peopleQuery';
+import type { QueryField, QueryGroup, QueryNode, QueryOperator, QueryRule, QueryValue } from '../../utils/peopleQuery';
+
+const { Text } = Typography;
+const { Option, OptGroup } = Select;
+const { RangePicker } = DatePicker;
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+interface QueryBuilderProps {
+  value: QueryGroup;
+  onChange: (value: QueryGroup) => void;
+  fields: QueryField[];
+  tags: TagType[];
+}
+
+interface RuleEditorProps {
+  rule: QueryRule;
+  onChange: (rule: QueryRule) => void;
+  onRemove: () => void;
+  fields: QueryField[];
+  tags: TagType[];
+}
+
+const ValueEditor: React.FC<{
+  field: QueryField;
+  operator: QueryOperator;
+  value: QueryValue | undefined;
+  onChange: (value: QueryValue) => void;
+  tags: TagType[];
+}> = ({ field, operator, value, onChange, tags }) => {
+  const kind = OPERATORS[operator].value;
+  if (kind === 'none') return null;
+
+  const options = field.type === 'tags'
+    ? tags.map(tag => ({ value: tag._id, label: tag.name }))
+    : field.options || [];
+
+  if (kind === 'multiple' || field.type === 'select') {
+    return (
+      <Select
+        mode={kind === 'multiple' ? 'multiple' : undefined}
+        value={value ?? undefined}
+        onChange={onChange}
+        options={options}
+        placeholder="Select..."
+        style={{ minWidth: 220 }}
+        optionFilterProp="label"
+      />
+    );
+  }
+
+  if (operator === 'inLast') {
+    return (
+      <InputNumber
+        value={value as number | null | undefined}
+        onChange={onChange}
+        min={1}
+        precision={0}
+        addonAfter="days"
+        style={{ width: 140 }}
+      />
+    );
+  }
+
+  if (field.type === 'date') {
+    if (kind === 'range') {
+      const [from, to] = Array.isArray(value) ? value : [];
+      return (
+        <RangePicker
+          value={[from ? dayjs(String(from)) : null, to ? dayjs(String(to)) : null]}
+          onChange={(dates) => onChange([
+            dates?.[0]?.format(DATE_FORMAT) ?? null,
+            dates?.[1]?.format(DATE_FORMAT) ?? null,
+          ])}
+          allowEmpty={[true, true]}
+        />
+      );
+    }
+    return (
+      <DatePicker
+        value={value ? dayjs(String(value)) : null}
+        onChange={(date) => onChange(date ? date.format(DATE_FORMAT) : null)}
+      />
+    );
+  }
+
+  if (field.type === 'number') {
+    if (kind === 'range') {
+      const [from, to] = Array.isArray(value) ? value : [];
+      return (
+        <Space>
+          <InputNumber value={from ?? null} onChange={(next) => onChange([next, to ?? null])} placeholder="From" />
+          <Text type="secondary">and</Text>
+          <InputNumber value={to ?? null} onChange={(next) => onChange([from ?? null, next])} placeholder="To" />
+        </Space>
+      );
+    }
+    return <InputNumber value={value as number | null | undefined} onChange={onChange} />;
+  }
+
+  return (
+    <Input
+      value={value as string | undefined}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Value"
+      style={{ width: 220 }}
+    />
+  );
+};
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onChange, onRemove, fields, tags }) => {
+  const field = fields.find(f => f.key === rule.field);
+  const coreFields = fields.filter(f => !f.key.startsWith('fields.'));
+  const profileFields = fields.filter(f => f.key.startsWith('fields.'));
+
+  // A new field starts over with its first operator and no value
+  const handleFieldChange = (key: string) => {
+    const nextField = fields.find(f => f.key === key);
+    if (nextField) onChange({ ...createQueryRule(nextField), id: rule.id });
+  };
+
+  // The value is kept while the new operator takes the same kind of value;
+  // a number of days is not a date
+  const handleOperatorChange = (operator: QueryOperator) => {
+    const sameValue = OPERATORS[operator].value === OPERATORS[rule.operator].value
+      && (operator === 'inLast') === (rule.operator === 'inLast');
+    onChange({ ...rule, operator, value: sameValue ? rule.value : undefined });
+  };
+
+  return (
+    <Space wrap>
+      <Select
+        value={field ? rule.field : undefined}
+        onChange={handleFieldChange}
+        placeholder="Field no longer exists"
+        style={{ width: 180 }}
+        showSearch
+        optionFilterProp="children"
+      >
+        <OptGroup label="Person">
+          {coreFields.map(f => <Option key={f.key} value={f.key}>{f.label}</Option>)}
+        </OptGroup>
+        {profileFields.length > 0 && (
+          <OptGroup label="Profile Fields">
+            {profileFields.map(f => <Option key={f.key} value={f.key}>{f.label}</Option>)}
+          </OptGroup>
+        )}
+      </Select>
+      {field && (
+        <>
+          <Select value={rule.operator} onChange={handleOperatorChange} style={{ width: 170 }}>
+            {FIELD_TYPE_OPERATORS[field.type].map(operator => (
+              <Option key={operator} value={operator}>{getOperatorLabel(field, operator)}</Option>
+            ))}
+          </Select>
+          <ValueEditor
+            field={field}
+            operator={rule.operator}
+            value={rule.value}
+            onChange={(value) => onChange({ ...rule, value })}
+            tags={tags}
+          />
+        </>
+      )}
+      <Button type="text" danger icon={<DeleteOutlined />} onClick={onRemove} />
+    </Space>
+  );
+};
+
+const GroupEditor: React.FC<QueryBuilderProps & { depth: number; onRemove?: () => void }> = ({
+  value,
+  onChange,
+  fields,
+  tags,
+  depth,
+  onRemove,
+}) => {
+  const updateChild = (index: number, child: QueryNode) =>
+    onChange({ ...value, rules: value.rules.map((node, i) => (i === index ? child : node)) });
+
+  const removeChild = (index: number) =>
+    onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={depth > 1 ? 'border-l-4 border-blue-200 pl-3' : undefined}>
+      <Space direction="vertical" className="w-full">
+        <Space>
+          <Text>Match</Text>
+          <Radio.Group
+            value={value.combinator}
+            onChange={(e) => onChange({ ...value, combinator: e.target.value })}
+            size="small"
+            optionType="button"
+            options={[
+              { value: 'and', label: 'All (AND)' },
+              { value: 'or', label: 'Any (OR)' },
+            ]}
+          />
+          <Text>of the following</Text>
+          {onRemove && <Button type="text" danger size="small" icon={<DeleteOutlined />} onClick={onRemove} />}
+        </Space>
+
+        {value.rules.map((node, index) => node.kind === 'rule' ? (
+          <RuleEditor
+            key={node.id}
+            rule={node}
+            onChange={(rule) => updateChild(index, rule)}
+            onRemove={() => removeChild(index)}
+            fields={fields}
+            tags={tags}
+          />
+        ) : (
+          <GroupEditor
+            key={node.id}
+            value={node}
+            onChange={(group) => updateChild(index, group)}
+            onRemove={() => removeChild(index)}
+            fields={fields}
+            tags={tags}
+            depth={depth + 1}
+          />
+        ))}
+
+        <Space>
+          <Button
+            size="small"
+            icon={<PlusOutlined />}
+            onClick={() => onChange({ ...value, rules: [...value.rules, createQueryRule(fields[0])] })}
+          >
+            Add Condition
+          </Button>
+          {depth < MAX_GROUP_DEPTH && (
+            <Button
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => onChange({
+                ...value,
+                rules: [...value.rules, createQueryGroup(value.combinator === 'and' ? 'or' : 'and', [createQueryRule(fields[0])])],
+              })}
+            >
+              Add Group
+            </Button>
+          )}
+        </Space>
+      </Space>
+    </div>
+  );
+};
+
+// Edits a query tree of nested AND/OR groups
+const QueryBuilder: React.FC<QueryBuilderProps> = (props) => <GroupEditor {...props} depth={1} />;
+
+export default QueryBuilder;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { MIN_COLUMN_WIDTH } from '../../utils/columnLayout';
+
+interface ResizableHeaderCellProps extends React.ThHTMLAttributes<HTMLTableCellElement> {
+  // Called while the edge is dragged, then once more with done set on release
+  onResize?: (width: number, done: boolean) => void;
+}
+
+// Table header cell with a handle on its right edge that resizes the column.
+// Header cells of columns without onResize render as plain cells.
+const ResizableHeaderCell: React.FC<ResizableHeaderCellProps> = ({ onResize, children, ...props }) => {
+  if (!onResize) return <th {...props}>{children}</th>;
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLSpanElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startWidth = (e.currentTarget.parentElement as HTMLElement).offsetWidth;
+    let width = startWidth;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX));
+      onResize(width, false);
+    };
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      onResize(width, true);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <th {...props} style={{ ...props.style, position: 'relative' }}>
+      {children}
+      <span
+        className="absolute top-0 right-0 h-full w-2 cursor-col-resize z-10"
+        onMouseDown={handleMouseDown}
+        // Keeps a click on the handle from sorting the column
+        onClick={(e) => e.stopPropagation()}
+      />
+    </th>
+  );
+};
+
+export default ResizableHeaderCell;
@@ -1,5 +1,14 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import type { AuthContext as AuthContextType, Organization } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Button, message } from 'antd';
+import { LoginOutlined } from '@ant-design/icons';
+import { OrgMember } from '../entities/OrgMember';
+import { Organization } from '../entities/Organization';
+import type { AuthContext as AuthContextType, OrgMembership, User } from '../types';
+import { fetchSessionUser, getLoginUrl, signOut } from '../utils/authApi';
+import { setActiveOrganizationId } from '../utils/entityWrapper';
+import { PENDING_INVITE_KEY, redeemInvitation } from '../utils/invitations';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import EmptyState from '../components/Common/EmptyState';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -15,37 +24,155 @@ interface AuthProviderProps {
   children: React.ReactNode;
 }
 
-export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  // Mock data - in real app this would come from your auth system
-  const [authData] = useState<AuthContextType>({
-    user: {
-      _id: '123',
-      email: 'admin@church.com',
-      name: 'Church Admin',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    organizationId: 'org123',
-    userRole: 'admin',
-    organizations: [
-      {
-        _id: 'org123',
-        name: 'First Baptist Church',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        _id: 'org456',
-        name: 'Community Church',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-    ],
+interface SessionState {
+  user: User | null;
+  memberships: OrgMembership[];
+  organizationId: string | null;
+}
+
+const ACTIVE_ORGANIZATION_KEY = 'activeOrganizationId';
+
+const emptySession: SessionState = { user: null, memberships: [], organizationId: null };
+
+// Keeps the last organization the user picked, as long as they still belong to it
+const pickActiveOrganization = (memberships: OrgMembership[]) => {
+  const storedId = localStorage.getItem(ACTIVE_ORGANIZATION_KEY);
+  const stored = memberships.find(membership => membership.organization._id === storedId);
+  return (stored ?? memberships[0])?.organization._id ?? null;
+};
+
+// Resolves the user's OrgMember rows into the organizations they belong to and
+// their role in each.
+const loadMemberships = async (userId: string): Promise<OrgMembership[]> => {
+  const membersResponse = await OrgMember.queryAll({ where: { userId }, allOrganizations: true });
+  if (!membersResponse.success || membersResponse.data.length === 0) return [];
+
+  const organizationIds = membersResponse.data.map(member => member.organizationId);
+  const organizationsResponse = await Organization.query({
+    where: { _id: { $in: organizationIds } },
+    sort: 'name',
   });
+  if (!organizationsResponse.success) return [];
+
+  return organizationsResponse.data.flatMap(organization => {
+    const member = membersResponse.data.find(m => m.organizationId === organization._id);
+    return member ? [{ memberId: member._id, organization, role: member.role }] : [];
+  });
+};
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [session, setSession] = useState<SessionState>(emptySession);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const user = await fetchSessionUser();
+
+      // An invitation link was opened before signing in; redeem it now
+      const pendingInviteToken = localStorage.getItem(PENDING_INVITE_KEY);
+      if (user && pendingInviteToken) {
+        localStorage.removeItem(PENDING_INVITE_KEY);
+        const result = await redeemInvitation(pendingInviteToken, user);
+        if (result.success && result.organizationId) {
+          localStorage.setItem(ACTIVE_ORGANIZATION_KEY, result.organizationId);
+          message.success(result.message);
+        } else {
+          message.error(result.message);
+        }
+      }
+
+      const memberships = user ? await loadMemberships(user._id) : [];
+      const organizationId = pickActiveOrganization(memberships);
+      // Scope entity clients before any page mounts and starts fetching
+      setActiveOrganizationId(organizationId);
+      setSession({ user, memberships, organizationId });
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      setActiveOrganizationId(null);
+      setSession(emptySession);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    await signOut();
+    setActiveOrganizationId(null);
+    setSession(emptySession);
+  }, []);
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    setActiveOrganizationId(organizationId);
+    localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    setSession(prev => ({ ...prev, organizationId }));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    // Re-check the session when the Google login popup reports success
+    const handleAuthMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      if (event.data?.type === 'GOOGLE_AUTH_SUCCESS') {
+        if (event.data.inviteToken) {
+          localStorage.setItem(PENDING_INVITE_KEY, event.data.inviteToken);
+        }
+        refresh();
+      }
+    };
+
+    window.addEventListener('message', handleAuthMessage);
+    return () => window.removeEventListener('message', handleAuthMessage);
+  }, [refresh]);
+
+  if (loading) {
+    return <LoadingSpinner tip="Signing in..." className="min-h-screen" />;
+  }
+
+  if (!session.user) {
+    return (
+      <EmptyState
+        title="Sign in required"
+        description="Sign in to access your church's records."
+        action={{
+          text: 'Sign in with Google',
+          icon: <LoginOutlined />,
+          onClick: () => { window.location.href = getLoginUrl(); },
+        }}
+      />
+    );
+  }
+
+  if (session.memberships.length === 0) {
+    return (
+      <div className="flex flex-col items-center">
+        <EmptyState
+          title="No organization access"
+          description={`${session.user.email} is not a member of any organization yet. Ask an administrator to invite you.`}
+        />
+        <Button onClick={logout}>Sign out</Button>
+      </div>
+    );
+  }
+
+  const activeMembership = session.memberships.find(
+    membership => membership.organization._id === session.organizationId
+  ) ?? session.memberships[0];
+
+  const authData: AuthContextType = {
+    user: session.user,
+    organizationId: activeMembership.organization._id,
+    userRole: activeMembership.role,
+    organizations: session.memberships.map(membership => membership.organization),
+    memberships: session.memberships,
+    switchOrganization,
+    refresh,
+    logout,
+  };
 
   return (
     <AuthContext.Provider value={authData}>
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
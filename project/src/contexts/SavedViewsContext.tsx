@@ -0,0 +1,117 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { Person } from '../entities/Person';
+import { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import type { SavedView } from '../types';
+import { useAuth } from './AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
+import { getQueryFields } from '../utils/peopleQuery';
+import { getSearchableFields } from '../utils/personSearch';
+import { getViewWhere, loadSavedViews } from '../utils/savedViews';
+
+export interface SavedViewCount {
+  count: number;
+  // The view searches and matched more people than a search returns, so
+  // count is a lower bound
+  capped: boolean;
+}
+
+interface SavedViewsContextType {
+  views: SavedView[];
+  // Number of people each view matches, by view ID
+  counts: Record<string, SavedViewCount>;
+  refresh: () => Promise<void>;
+  refreshCounts: () => Promise<void>;
+}
+
+const SavedViewsContext = createContext<SavedViewsContextType | undefined>(undefined);
+
+export const useSavedViews = () => {
+  const context = useContext(SavedViewsContext);
+  if (context === undefined) {
+    throw new Error('useSavedViews must be used within a SavedViewsProvider');
+  }
+  return context;
+};
+
+// Counts are refreshed this often while the app is open, so views people are
+// added to elsewhere stay current
+const COUNT_REFRESH_INTERVAL = 60000;
+
+export const SavedViewsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, organizationId } = useAuth();
+  const { can } = usePermissions();
+  const canViewStaffFields = can('view', 'staffField');
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [counts, setCounts] = useState<Record<string, SavedViewCount>>({});
+  const viewsRef = useRef<SavedView[]>([]);
+  // The organization being shown, so loads started before a switch can tell
+  // their results are no longer wanted
+  const organizationRef = useRef(organizationId);
+  organizationRef.current = organizationId;
+
+  const loadCounts = useCallback(async (currentViews: SavedView[]) => {
+    if (currentViews.length === 0) {
+      setCounts({});
+      return;
+    }
+
+    const requestOrganizationId = organizationRef.current;
+    try {
+      const fieldsResponse = await ProfileFieldDef.query({ where: { archived: { $ne: true } } });
+      const profileFields = fieldsResponse.success ? fieldsResponse.data : [];
+      const queryFields = getQueryFields(profileFields);
+      const searchFields = getSearchableFields(profileFields, canViewStaffFields);
+      const viewCounts = await Promise.all(currentViews.map(async (view): Promise<[string, SavedViewCount] | null> => {
+        // One view that cannot be counted leaves the others' badges current
+        try {
+          const { where, truncated } = await getViewWhere(view, queryFields, searchFields);
+          const response = await Person.query({ where, limit: 1, fields: ['_id'] });
+          return response.success
+            ? [view._id, { count: response.count ?? response.data.length, capped: truncated }]
+            : null;
+        } catch (error) {
+          console.error(`Failed to count saved view ${view._id}:`, error);
+          return null;
+        }
+      }));
+      if (organizationRef.current !== requestOrganizationId) return;
+      setCounts(Object.fromEntries(viewCounts.filter((entry): entry is [string, SavedViewCount] => entry !== null)));
+    } catch (error) {
+      console.error('Failed to count saved views:', error);
+    }
+  }, [canViewStaffFields]);
+
+  const refresh = useCallback(async () => {
+    if (!user || !organizationId) return;
+    try {
+      const response = await loadSavedViews(user._id);
+      if (response.success && organizationRef.current === organizationId) {
+        viewsRef.current = response.data;
+        setViews(response.data);
+        await loadCounts(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+    }
+  }, [user, organizationId, loadCounts]);
+
+  const refreshCounts = useCallback(() => loadCounts(viewsRef.current), [loadCounts]);
+
+  useEffect(() => {
+    viewsRef.current = [];
+    setViews([]);
+    setCounts({});
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const interval = setInterval(refreshCounts, COUNT_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refreshCounts]);
+
+  return (
+    <SavedViewsContext.Provider value={{ views, counts, refresh, refreshCounts }}>
+      {children}
+    </SavedViewsContext.Provider>
+  );
+};
@@ -1,3 +0,0 @@
-import { createEntityClient } from "../utils/entityWrapper";
-import schema from "./Client.json";
-export const Client = createEntityClient("Client", schema);
@@ -0,0 +1,35 @@
+// Generated by scripts/generateEntityStubs.js from Client.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Client.json";
+
+export interface Client {
+  _id: string;
+  /** Unique identifier for the user who owns the client record */
+  userId?: number;
+  /** Unique identifier for the client */
+  id?: number;
+  /** Client's first name */
+  firstName: string;
+  /** Client's last name */
+  lastName: string;
+  /** Client's email address */
+  email?: string;
+  /** Client's phone number */
+  phone?: string;
+  /** Client's company name */
+  company?: string;
+  /** Description of the legal matter or case type */
+  legalMatter?: string;
+  /** Client status: prospect, consultation_scheduled, active, closed */
+  status: string;
+  /** Priority level: low, medium, high */
+  priority?: string;
+  /** Additional notes about the client */
+  notes?: string;
+  /** Date and time of consultation */
+  consultationDate?: string;
+  /** Estimated potential case value */
+  potentialValue?: number;
+}
+
+export const Client = createEntityClient<Client>("Client", schema);
@@ -0,0 +1,21 @@
+// Generated by scripts/generateEntityStubs.js from FlashCard.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./FlashCard.json";
+
+export interface FlashCard {
+  _id: string;
+  /** Unique identifier for the user */
+  userId?: number;
+  /** Unique identifier for the flash card session */
+  id?: number;
+  /** Number of correct answers in this session */
+  correctAnswers: number;
+  /** Total number of questions attempted in this session */
+  totalQuestions: number;
+  /** Difficulty level (easy, medium, hard) */
+  level: string;
+  /** Date of the flash card session */
+  sessionDate?: string;
+}
+
+export const FlashCard = createEntityClient<FlashCard>("FlashCard", schema);
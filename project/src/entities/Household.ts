@@ -0,0 +1,31 @@
+// Generated by scripts/generateEntityStubs.js from Household.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Household.json";
+
+export interface Household {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Name of the household */
+  name: string;
+  /** ID of the household in the system it was imported from, such as a family ID */
+  externalId?: string;
+  /** Street address */
+  addressLine1?: string;
+  /** Apartment, suite or unit */
+  addressLine2?: string;
+  /** City */
+  city?: string;
+  /** State, province or region */
+  state?: string;
+  /** Postal or ZIP code */
+  postalCode?: string;
+  /** Country */
+  country?: string;
+  /** When the household was created */
+  createdAt: string;
+  /** When the household was last updated */
+  updatedAt: string;
+}
+
+export const Household = createEntityClient<Household>("Household", schema);
@@ -0,0 +1,17 @@
+// Generated by scripts/generateEntityStubs.js from HouseholdMember.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./HouseholdMember.json";
+
+export interface HouseholdMember {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** ID of the household */
+  householdId: string;
+  /** ID of the person */
+  personId: string;
+  /** Relationship within the household */
+  relationship: "head" | "spouse" | "child" | "other";
+}
+
+export const HouseholdMember = createEntityClient<HouseholdMember>("HouseholdMember", schema);
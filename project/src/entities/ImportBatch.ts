@@ -0,0 +1,62 @@
+// Generated by scripts/generateEntityStubs.js from ImportBatch.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./ImportBatch.json";
+
+export interface ImportBatch {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Name of the imported file */
+  fileName: string;
+  /** Import mode the batch ran with */
+  mode: "create" | "upsert" | "update";
+  /** Key rows were matched on (email, phone or fields.<key>) */
+  matchKey?: string;
+  /** Column to field mapping used for the import */
+  mapping?: Record<string, any>;
+  /** ID of the user who ran the import */
+  importedByUserId: string;
+  /** Display name of the user who ran the import */
+  importedByName?: string;
+  /** State of the batch */
+  status: "running" | "completed" | "rolled_back";
+  /** IDs of the people created by the batch */
+  createdIds?: string[];
+  /** People updated by the batch with their values before the update */
+  updates?: {
+    personId: string;
+    previous: Record<string, any>;
+  }[];
+  /** IDs of the households created by the batch */
+  createdHouseholdIds?: string[];
+  /** IDs of the household memberships created by the batch */
+  createdMemberIds?: string[];
+  /** Household memberships removed when the batch moved people to another household */
+  removedMembers?: ({
+    householdId: string;
+    personId: string;
+    relationship: "head" | "spouse" | "child" | "other";
+  })[];
+  /** Number of people created */
+  createdCount?: number;
+  /** Number of people updated */
+  updatedCount?: number;
+  /** Number of households created */
+  householdCount?: number;
+  /** Number of rows skipped */
+  skippedCount?: number;
+  /** Number of rows rejected by validation */
+  rejectedCount?: number;
+  /** Number of rows that failed to save */
+  errorCount?: number;
+  /** When the batch was rolled back */
+  rolledBackAt?: string;
+  /** ID of the user who rolled the batch back */
+  rolledBackByUserId?: string;
+  /** When the import ran */
+  createdAt: string;
+  /** When the batch was last saved, which a running import does as it goes */
+  updatedAt: string;
+}
+
+export const ImportBatch = createEntityClient<ImportBatch>("ImportBatch", schema);
@@ -0,0 +1,39 @@
+// Generated by scripts/generateEntityStubs.js from ImportTemplate.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./ImportTemplate.json";
+
+export interface ImportTemplate {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Name of the template */
+  name: string;
+  /** Column headers of the file the template was saved from, used to detect it */
+  headers: string[];
+  /** Column to field mapping */
+  mapping: Record<string, any>;
+  /** Value transforms applied to columns before they are mapped */
+  transforms?: ({
+    column: string;
+    type: "lookup" | "date" | "phone" | "splitName" | "trim" | "case";
+    /** Date format of the column, e.g. MM/DD/YYYY */
+    format?: string;
+    caseStyle?: "upper" | "lower" | "title";
+    values?: {
+      from: string;
+      to: string;
+    }[];
+  })[];
+  /** Import mode to preselect */
+  mode?: "create" | "upsert" | "update";
+  /** Key to match existing people on (email, phone or fields.<key>) */
+  matchKey?: string;
+  /** ID of the user who created the template */
+  createdByUserId?: string;
+  /** When the template was created */
+  createdAt: string;
+  /** When the template was last updated */
+  updatedAt: string;
+}
+
+export const ImportTemplate = createEntityClient<ImportTemplate>("ImportTemplate", schema);
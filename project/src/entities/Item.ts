@@ -0,0 +1,17 @@
+// Generated by scripts/generateEntityStubs.js from Item.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Item.json";
+
+export interface Item {
+  _id: string;
+  /** Unique identifier for the user who owns the to do list item */
+  userId?: number;
+  /** Unique identifier for the to do list item */
+  id?: number;
+  /** Name of to do list item */
+  title?: string;
+  /** Whether the to do list item is complete */
+  completed?: boolean;
+}
+
+export const Item = createEntityClient<Item>("Item", schema);
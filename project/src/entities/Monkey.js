@@ -1,3 +0,0 @@
-import { createEntityClient } from "../utils/entityWrapper";
-import schema from "./Monkey.json";
-export const Monkey = createEntityClient("Monkey", schema);
@@ -0,0 +1,25 @@
+// Generated by scripts/generateEntityStubs.js from Monkey.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Monkey.json";
+
+export interface Monkey {
+  _id: string;
+  /** Unique identifier for the monkey */
+  id?: number;
+  /** Name of the monkey */
+  name: string;
+  /** Species of the monkey (e.g., Chimpanzee, Gorilla, Orangutan) */
+  species: string;
+  /** Age of the monkey in years */
+  age?: number;
+  /** Natural habitat of the monkey */
+  habitat?: string;
+  /** Primary diet of the monkey */
+  diet?: string;
+  /** An interesting fact about this monkey */
+  funFact?: string;
+  /** URL to monkey image */
+  imageUrl?: string;
+}
+
+export const Monkey = createEntityClient<Monkey>("Monkey", schema);
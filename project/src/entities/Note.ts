@@ -0,0 +1,21 @@
+// Generated by scripts/generateEntityStubs.js from Note.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Note.json";
+
+export interface Note {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** ID of the person this note is about */
+  personId: string;
+  /** ID of the user who authored the note */
+  authorUserId: string;
+  /** Content of the note */
+  body: string;
+  /** Who can see this note */
+  visibility: "staff_only" | "org";
+  /** When the note was created */
+  createdAt: string;
+}
+
+export const Note = createEntityClient<Note>("Note", schema);
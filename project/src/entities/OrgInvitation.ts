@@ -0,0 +1,27 @@
+// Generated by scripts/generateEntityStubs.js from OrgInvitation.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./OrgInvitation.json";
+
+export interface OrgInvitation {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Email address the invitation was sent to */
+  email: string;
+  /** Role granted when the invitation is accepted */
+  role: "owner" | "admin" | "member" | "viewer";
+  /** Secret token redeemed through the auth callback */
+  token: string;
+  /** State of the invitation */
+  status: "pending" | "accepted" | "revoked";
+  /** ID of the user who sent the invitation */
+  invitedByUserId: string;
+  /** ID of the user who accepted the invitation */
+  acceptedByUserId?: string;
+  /** When the invitation stops being redeemable */
+  expiresAt: string;
+  /** When the invitation was created */
+  createdAt: string;
+}
+
+export const OrgInvitation = createEntityClient<OrgInvitation>("OrgInvitation", schema);
@@ -0,0 +1,21 @@
+// Generated by scripts/generateEntityStubs.js from OrgMember.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./OrgMember.json";
+
+export interface OrgMember {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** ID of the user */
+  userId: string;
+  /** Email address of the user, copied when the membership is created */
+  email?: string;
+  /** Display name of the user, copied when the membership is created */
+  name?: string;
+  /** Role of the user in the organization */
+  role: "owner" | "admin" | "member" | "viewer";
+  /** When the membership was created */
+  createdAt: string;
+}
+
+export const OrgMember = createEntityClient<OrgMember>("OrgMember", schema);
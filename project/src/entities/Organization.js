@@ -1,3 +0,0 @@
-import { createEntityClient } from "../utils/entityWrapper";
-import schema from "./Organization.json";
-export const Organization = createEntityClient("Organization", schema);
@@ -0,0 +1,15 @@
+// Generated by scripts/generateEntityStubs.js from Organization.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Organization.json";
+
+export interface Organization {
+  _id: string;
+  /** Name of the organization/church */
+  name: string;
+  /** When the organization was created */
+  createdAt: string;
+  /** When the organization was last updated */
+  updatedAt: string;
+}
+
+export const Organization = createEntityClient<Organization>("Organization", schema);
@@ -0,0 +1,39 @@
+// Generated by scripts/generateEntityStubs.js from Person.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Person.json";
+
+export interface Person {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** First name of the person */
+  firstName: string;
+  /** Last name of the person */
+  lastName: string;
+  /** Preferred name of the person */
+  preferredName?: string;
+  /** Email address */
+  email?: string;
+  /** Phone number */
+  phone?: string;
+  /** Status of the person */
+  status: "active" | "inactive" | "visitor";
+  /** URL of the person's photo, used in the printed directory */
+  photoUrl?: string;
+  /** Dynamic fields based on profile field definitions */
+  fields?: Record<string, any>;
+  /** ID of the household this person belongs to */
+  householdId?: string;
+  /** Array of tag IDs associated with this person */
+  tagIds?: string[];
+  /** Whether the person has been archived (for example after being merged into another record) */
+  archived?: boolean;
+  /** ID of the person this record was merged into */
+  mergedIntoId?: string;
+  /** When the person was created */
+  createdAt: string;
+  /** When the person was last updated */
+  updatedAt: string;
+}
+
+export const Person = createEntityClient<Person>("Person", schema);
@@ -0,0 +1,34 @@
+// Generated by scripts/generateEntityStubs.js from ProfileFieldDef.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./ProfileFieldDef.json";
+
+export interface ProfileFieldDef {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Slug-safe unique key for the field */
+  key: string;
+  /** Display label for the field */
+  label: string;
+  /** Type of the field */
+  type: "text" | "textarea" | "number" | "date" | "checkbox" | "select" | "multiselect" | "email" | "phone" | "url";
+  /** Options for select/multiselect fields */
+  options?: {
+    value: string;
+    label: string;
+  }[];
+  /** Whether the field is required */
+  required?: boolean;
+  /** Who can see this field */
+  visibility?: "public" | "staff_only";
+  /** Whether the field is archived */
+  archived?: boolean;
+  /** Order of the field in forms */
+  orderIndex: number;
+  /** When the field was created */
+  createdAt: string;
+  /** When the field was last updated */
+  updatedAt: string;
+}
+
+export const ProfileFieldDef = createEntityClient<ProfileFieldDef>("ProfileFieldDef", schema);
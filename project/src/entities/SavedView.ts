@@ -0,0 +1,35 @@
+// Generated by scripts/generateEntityStubs.js from SavedView.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./SavedView.json";
+
+export interface SavedView {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Name of the view, shown in the sidebar */
+  name: string;
+  /** ID of the user who saved the view */
+  ownerUserId: string;
+  /** Name of the user who saved the view, for display */
+  ownerName?: string;
+  /** Whether only the owner or everyone in the organization sees the view */
+  visibility: "private" | "shared";
+  /** Search text of the people list */
+  search?: string;
+  /** Status and tag filters of the people list */
+  filters?: Record<string, any>;
+  /** Advanced filter query, encoded as in the people list URL */
+  query?: string;
+  /** Keys of the columns shown in the people list */
+  visibleColumns?: string[];
+  /** Sort order of the people list */
+  sort?: string;
+  /** Number of people per page */
+  pageSize?: number;
+  /** When the view was created */
+  createdAt: string;
+  /** When the view was last updated */
+  updatedAt: string;
+}
+
+export const SavedView = createEntityClient<SavedView>("SavedView", schema);
@@ -0,0 +1,17 @@
+// Generated by scripts/generateEntityStubs.js from Tag.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./Tag.json";
+
+export interface Tag {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** Name of the tag */
+  name: string;
+  /** Color of the tag for display */
+  color?: string;
+  /** When the tag was created */
+  createdAt: string;
+}
+
+export const Tag = createEntityClient<Tag>("Tag", schema);
@@ -0,0 +1,21 @@
+// Generated by scripts/generateEntityStubs.js from UserPreference.json. Do not edit by hand.
+import { createEntityClient } from "../utils/entityWrapper";
+import schema from "./UserPreference.json";
+
+export interface UserPreference {
+  _id: string;
+  /** ID of the organization */
+  organizationId: string;
+  /** ID of the user the preference belongs to */
+  userId: string;
+  /** What the preference is for, e.g. peopleList.columns */
+  key: string;
+  /** The stored preference */
+  value?: Record<string, any>;
+  /** When the preference was first saved */
+  createdAt: string;
+  /** When the preference was last saved */
+  updatedAt: string;
+}
+
+export const UserPreference = createEntityClient<UserPreference>("UserPreference", schema);
@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { hasPermission } from '../utils/permissions';
+import type { Action, Resource } from '../utils/permissions';
+
+export const usePermissions = () => {
+  const { userRole } = useAuth();
+
+  const can = useCallback(
+    (action: Action, resource: Resource) => hasPermission(userRole, action, resource),
+    [userRole]
+  );
+
+  return { can, role: userRole };
+};
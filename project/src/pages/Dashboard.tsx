@@ -8,10 +8,11 @@ import {
 } from '@ant-design/icons';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
 import { Person } from '../entities/Person';
 import { Note } from '../entities/Note';
 import { Tag as TagEntity } from '../entities/Tag';
-import type { Person as PersonType, Note as NoteType, Tag as TagType } from '../types';
+import type { Note as NoteType, Tag as TagType } from '../types';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
 import EmptyState from '../components/Common/EmptyState';
 
@@ -27,6 +28,7 @@ interface DashboardStats {
 
 const Dashboard: React.FC = () => {
   const { organizationId } = useAuth();
+  const { can } = usePermissions();
   const [stats, setStats] = useState<DashboardStats>({
     totalPeople: 0,
     activePeople: 0,
@@ -43,41 +45,53 @@ const Dashboard: React.FC = () => {
       try {
         setLoading(true);
         
-        // Fetch people stats
-        const peopleResponse = await Person.list();
-        if (peopleResponse.success) {
-          const people: PersonType[] = Array.isArray(peopleResponse.data) ? peopleResponse.data : [peopleResponse.data];
-          const now = new Date();
-          const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-          
-          const totalPeople = people.length;
-          const activePeople = people.filter(p => p.status === 'active').length;
-          const inactivePeople = people.filter(p => p.status === 'inactive').length;
-          const visitors = people.filter(p => p.status === 'visitor').length;
-          const peopleThisMonth = people.filter(p => new Date(p.createdAt) >= thisMonth).length;
-          
-          setStats({
-            totalPeople,
-            activePeople,
-            inactivePeople,
-            visitors,
-            peopleThisMonth,
+        // Only the totals are needed, so each count query asks for a single record
+        const countPeople = async (where: Record<string, any> = {}) => {
+          const response = await Person.query({
+            where: { ...where, archived: { $ne: true } },
+            limit: 1,
+            fields: ['_id'],
           });
-        }
+          return response.success ? response.count ?? 0 : 0;
+        };
+
+        const now = new Date();
+        const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+        const [totalPeople, activePeople, inactivePeople, visitors, peopleThisMonth] = await Promise.all([
+          countPeople(),
+          countPeople({ status: 'active' }),
+          countPeople({ status: 'inactive' }),
+          countPeople({ status: 'visitor' }),
+          countPeople({ createdAt: { $gte: thisMonth.toISOString() } }),
+        ]);
+
+        setStats({
+          totalPeople,
+          activePeople,
+          inactivePeople,
+          visitors,
+          peopleThisMonth,
+        });
 
         // Fetch recent notes
-        const notesResponse = await Note.list();
+        const notesResponse = await Note.query({
+          where: can('view', 'staffNote') ? {} : { visibility: { $ne: 'staff_only' } },
+          sort: '-createdAt',
+          limit: 10,
+        });
         if (notesResponse.success) {
-          const notes: NoteType[] = Array.isArray(notesResponse.data) ? notesResponse.data : [notesResponse.data];
-          setRecentNotes(notes.slice(0, 10));
+          const notes: NoteType[] = notesResponse.data;
+          setRecentNotes(notes);
         }
 
-        // Fetch tags and calculate counts
+        // Fetch tags and count the people carrying each one
         const tagsResponse = await TagEntity.list();
         if (tagsResponse.success) {
-          const tags: TagType[] = Array.isArray(tagsResponse.data) ? tagsResponse.data : [tagsResponse.data];
-          // In a real app, you'd get tag usage counts from the API
-          const tagsWithCounts = tags.map(tag => ({ ...tag, count: Math.floor(Math.random() * 50) + 1 }));
+          const tags: TagType[] = tagsResponse.data;
+          const tagsWithCounts = await Promise.all(
+            tags.map(async tag => ({ ...tag, count: await countPeople({ tagIds: tag._id }) }))
+          );
           setTopTags(tagsWithCounts.sort((a, b) => b.count - a.count).slice(0, 5));
         }
       } catch (error) {
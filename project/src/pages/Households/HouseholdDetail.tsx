@@ -7,6 +7,7 @@ import {
   List,
   Modal,
   Form,
+  Input,
   Select,
   message,
   Space,
@@ -26,7 +27,9 @@ import { Household } from '../../entities/Household';
 import { HouseholdMember } from '../../entities/HouseholdMember';
 import { Person } from '../../entities/Person';
 import type { Household as HouseholdType, HouseholdMember as HouseholdMemberType, Person as PersonType } from '../../types';
-import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { containsText } from '../../utils/queryUtils';
+import { ADDRESS_FIELDS, formatAddressLines, formatAddressee } from '../../utils/households';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -38,13 +41,17 @@ interface MemberWithDetails extends HouseholdMemberType {
 const HouseholdDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { userRole } = useAuth();
+  const { can } = usePermissions();
   const [household, setHousehold] = useState<HouseholdType | null>(null);
   const [members, setMembers] = useState<MemberWithDetails[]>([]);
   const [availablePeople, setAvailablePeople] = useState<PersonType[]>([]);
+  const [searchingPeople, setSearchingPeople] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showAddMemberModal, setShowAddMemberModal] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [savingHousehold, setSavingHousehold] = useState(false);
   const [form] = Form.useForm();
+  const [editForm] = Form.useForm();
 
   useEffect(() => {
     if (id) {
@@ -58,35 +65,33 @@ const HouseholdDetail: React.FC = () => {
     try {
       setLoading(true);
       
-      const [householdResponse, membersResponse, peopleResponse] = await Promise.all([
+      const [householdResponse, membersResponse] = await Promise.all([
         Household.get(id),
-        HouseholdMember.list(),
-        Person.list(),
+        HouseholdMember.query({ where: { householdId: id } }),
       ]);
 
       if (householdResponse.success) {
         setHousehold(householdResponse.data);
       }
 
-      if (membersResponse.success && peopleResponse.success) {
-        const membersData = Array.isArray(membersResponse.data) ? membersResponse.data : [membersResponse.data];
-        const peopleData = Array.isArray(peopleResponse.data) ? peopleResponse.data : [peopleResponse.data];
-        
-        // Filter members for this household and get person details
-        const householdMembers = membersData.filter(member => member.householdId === id);
+      if (membersResponse.success) {
+        const householdMembers: HouseholdMemberType[] = membersResponse.data;
+        const personIds = householdMembers.map(member => member.personId);
+
+        let peopleData: PersonType[] = [];
+        if (personIds.length > 0) {
+          const peopleResponse = await Person.query({ where: { _id: { $in: personIds } } });
+          if (peopleResponse.success) {
+            peopleData = peopleResponse.data;
+          }
+        }
+
         const membersWithDetails = householdMembers.map(member => {
           const person = peopleData.find(p => p._id === member.personId);
           return { ...member, person: person! };
         }).filter(member => member.person); // Filter out members without person data
 
         setMembers(membersWithDetails);
-
-        // Set available people (those not in any household or not in this household)
-        const peopleInHousehold = householdMembers.map(m => m.personId);
-        const availablePeople = peopleData.filter(person => 
-          !person.householdId || !peopleInHousehold.includes(person._id)
-        );
-        setAvailablePeople(availablePeople);
       }
     } catch (error) {
       console.error('Failed to fetch household data:', error);
@@ -96,6 +101,41 @@ const HouseholdDetail: React.FC = () => {
     }
   };
 
+  // Search people outside this household as the user types in the Add Member picker
+  const searchAvailablePeople = async (text: string) => {
+    const conditions: Record<string, any> = {
+      _id: { $nin: members.map(member => member.personId) },
+      archived: { $ne: true },
+    };
+    if (text.trim()) {
+      conditions.$or = ['firstName', 'lastName', 'preferredName', 'email'].map(field => ({
+        [field]: containsText(text),
+      }));
+    }
+
+    try {
+      setSearchingPeople(true);
+      const response = await Person.query({
+        where: conditions,
+        sort: 'lastName',
+        limit: 20,
+        fields: ['firstName', 'lastName', 'preferredName', 'email'],
+      });
+      if (response.success) {
+        setAvailablePeople(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to search people:', error);
+    } finally {
+      setSearchingPeople(false);
+    }
+  };
+
+  const openAddMemberModal = () => {
+    setShowAddMemberModal(true);
+    searchAvailablePeople('');
+  };
+
   const handleAddMember = async (values: any) => {
     if (!id) return;
 
@@ -120,6 +160,39 @@ const HouseholdDetail: React.FC = () => {
     }
   };
 
+  const openEditModal = () => {
+    if (!household) return;
+    editForm.setFieldsValue({
+      name: household.name,
+      ...Object.fromEntries(ADDRESS_FIELDS.map(field => [field.key, household[field.key]])),
+    });
+    setShowEditModal(true);
+  };
+
+  const handleUpdateHousehold = async (values: Record<string, string | undefined>) => {
+    if (!id) return;
+
+    try {
+      setSavingHousehold(true);
+      const response = await Household.update(id, {
+        name: values.name?.trim(),
+        ...Object.fromEntries(ADDRESS_FIELDS.map(field => [field.key, values[field.key]?.trim() || ''])),
+      });
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+
+      setHousehold(response.data);
+      setShowEditModal(false);
+      message.success('Household updated successfully');
+    } catch (error) {
+      console.error('Failed to update household:', error);
+      message.error('Failed to update household');
+    } finally {
+      setSavingHousehold(false);
+    }
+  };
+
   const handleRemoveMember = async (memberId: string, personId: string) => {
     try {
       // In real app, you'd delete the HouseholdMember record
@@ -162,7 +235,9 @@ const HouseholdDetail: React.FC = () => {
     return <div>Loading...</div>;
   }
 
-  const canEdit = userRole !== 'viewer';
+  const canEdit = can('update', 'household');
+  const addressLines = formatAddressLines(household);
+  const addressee = formatAddressee(members);
 
   return (
     <div className="space-y-6">
@@ -182,10 +257,10 @@ const HouseholdDetail: React.FC = () => {
           </Button>
           {canEdit && (
             <>
-              <Button icon={<PlusOutlined />} onClick={() => setShowAddMemberModal(true)}>
+              <Button icon={<PlusOutlined />} onClick={openAddMemberModal}>
                 Add Member
               </Button>
-              <Button icon={<EditOutlined />} type="primary" onClick={() => navigate(`/households/${id}/edit`)}>
+              <Button icon={<EditOutlined />} type="primary" onClick={openEditModal}>
                 Edit Household
               </Button>
             </>
@@ -275,6 +350,18 @@ const HouseholdDetail: React.FC = () => {
                 <Text strong>Name:</Text>
                 <div>{household.name}</div>
               </div>
+              {addressee && (
+                <div>
+                  <Text strong>Addressee:</Text>
+                  <div>{addressee}</div>
+                </div>
+              )}
+              <div>
+                <Text strong>Address:</Text>
+                {addressLines.length > 0
+                  ? addressLines.map(line => <div key={line}>{line}</div>)
+                  : <div><Text type="secondary">No address</Text></div>}
+              </div>
               <div>
                 <Text strong>Members:</Text>
                 <div>{members.length} member{members.length !== 1 ? 's' : ''}</div>
@@ -317,6 +404,52 @@ const HouseholdDetail: React.FC = () => {
         </Col>
       </Row>
 
+      {/* Edit Household Modal */}
+      <Modal
+        title="Edit Household"
+        open={showEditModal}
+        onCancel={() => setShowEditModal(false)}
+        onOk={() => editForm.submit()}
+        confirmLoading={savingHousehold}
+        okText="Save"
+      >
+        <Form form={editForm} layout="vertical" onFinish={handleUpdateHousehold}>
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, whitespace: true, message: 'Please enter a household name' }]}
+          >
+            <Input placeholder="e.g. The Smith Family" />
+          </Form.Item>
+          <Form.Item name="addressLine1" label="Address Line 1">
+            <Input />
+          </Form.Item>
+          <Form.Item name="addressLine2" label="Address Line 2">
+            <Input />
+          </Form.Item>
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="city" label="City">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="state" label="State">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="postalCode" label="Postal Code">
+                <Input />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="country" label="Country">
+            <Input />
+          </Form.Item>
+        </Form>
+      </Modal>
+
       {/* Add Member Modal */}
       <Modal
         title="Add Member to Household"
@@ -334,11 +467,11 @@ const HouseholdDetail: React.FC = () => {
             rules={[{ required: true, message: 'Please select a person' }]}
           >
             <Select
-              placeholder="Select person to add"
+              placeholder="Search for a person to add"
               showSearch
-              filterOption={(input, option) =>
-                option?.children?.toString().toLowerCase().includes(input.toLowerCase()) ?? false
-              }
+              filterOption={false}
+              onSearch={searchAvailablePeople}
+              loading={searchingPeople}
             >
               {availablePeople.map(person => (
                 <Option key={person._id} value={person._id}>
@@ -20,18 +20,21 @@ import {
   DeleteOutlined,
   HomeOutlined,
 } from '@ant-design/icons';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Household } from '../../entities/Household';
 import { HouseholdMember } from '../../entities/HouseholdMember';
 import { Person } from '../../entities/Person';
 import type { Household as HouseholdType, HouseholdMember as HouseholdMemberType, Person as PersonType } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
 
 const { Search } = Input;
 
 const HouseholdsList: React.FC = () => {
   const navigate = useNavigate();
-  const { userRole } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
   const [households, setHouseholds] = useState<(HouseholdType & { memberCount: number })[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -40,7 +43,19 @@ const HouseholdsList: React.FC = () => {
 
   useEffect(() => {
     fetchHouseholds();
-  }, []);
+  }, [organizationId]);
+
+  // The command palette links here to create one straight away
+  useEffect(() => {
+    if (searchParams.get('new') !== '1') return;
+    if (can('create', 'household')) {
+      setShowCreateModal(true);
+    }
+    setSearchParams(params => {
+      params.delete('new');
+      return params;
+    }, { replace: true });
+  }, [searchParams]);
 
   const fetchHouseholds = async () => {
     try {
@@ -48,18 +63,22 @@ const HouseholdsList: React.FC = () => {
       
       const [householdsResponse, membersResponse] = await Promise.all([
         Household.list(),
-        HouseholdMember.list(),
+        HouseholdMember.queryAll({ fields: ['householdId'] }),
       ]);
 
       if (householdsResponse.success && membersResponse.success) {
-        const householdsData = Array.isArray(householdsResponse.data) ? householdsResponse.data : [householdsResponse.data];
-        const membersData = Array.isArray(membersResponse.data) ? membersResponse.data : [membersResponse.data];
+        const householdsData = householdsResponse.data;
+        const membersData = membersResponse.data;
         
         // Count members for each household
-        const householdsWithCounts = householdsData.map(household => {
-          const memberCount = membersData.filter(member => member.householdId === household._id).length;
-          return { ...household, memberCount };
+        const memberCounts = new Map<string, number>();
+        membersData.forEach((member: Pick<HouseholdMemberType, 'householdId'>) => {
+          memberCounts.set(member.householdId, (memberCounts.get(member.householdId) ?? 0) + 1);
         });
+        const householdsWithCounts = householdsData.map((household: HouseholdType) => ({
+          ...household,
+          memberCount: memberCounts.get(household._id) ?? 0,
+        }));
         
         setHouseholds(householdsWithCounts);
       }
@@ -120,14 +139,14 @@ const HouseholdsList: React.FC = () => {
         icon: <EditOutlined />,
         label: 'Edit',
         onClick: () => navigate(`/households/${household._id}/edit`),
-        disabled: userRole === 'viewer',
+        disabled: !can('update', 'household'),
       },
       {
         key: 'delete',
         icon: <DeleteOutlined />,
         label: 'Delete',
         onClick: () => handleDeleteHousehold(household._id),
-        disabled: userRole === 'viewer' || household.memberCount > 0,
+        disabled: !can('delete', 'household') || household.memberCount > 0,
         danger: true,
       },
     ],
@@ -178,7 +197,7 @@ const HouseholdsList: React.FC = () => {
     },
   ];
 
-  const canCreate = userRole !== 'viewer';
+  const canCreate = can('create', 'household');
 
   return (
     <div className="space-y-4">
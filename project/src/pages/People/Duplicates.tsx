@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Table, Card, Button, Tag, Typography, Space, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { MergeCellsOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { Person } from '../../entities/Person';
+import type { Person as PersonType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { findDuplicateCandidates, getMatchLevel } from '../../utils/duplicates';
+import type { DuplicatePair } from '../../utils/duplicates';
+
+const { Title, Text } = Typography;
+
+const MATCH_COLORS = {
+  high: 'red',
+  medium: 'orange',
+  low: 'gold',
+};
+
+const PersonSummary: React.FC<{ person: PersonType; onOpen: () => void }> = ({ person, onOpen }) => (
+  <div>
+    <Button type="link" className="p-0 font-medium" onClick={onOpen}>
+      {person.preferredName || person.firstName} {person.lastName}
+    </Button>
+    <div className="text-sm text-gray-500">
+      {[person.email, person.phone].filter(Boolean).join(' · ') || 'No contact details'}
+    </div>
+  </div>
+);
+
+const Duplicates: React.FC = () => {
+  const navigate = useNavigate();
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    scanForDuplicates();
+  }, [organizationId]);
+
+  const scanForDuplicates = async () => {
+    try {
+      setLoading(true);
+      const response = await Person.queryAll({
+        where: { archived: { $ne: true } },
+        fields: ['firstName', 'lastName', 'preferredName', 'email', 'phone', 'status', 'createdAt'],
+      });
+
+      if (response.success) {
+        setScanned(response.data.length);
+        setPairs(findDuplicateCandidates(response.data));
+      }
+    } catch (error) {
+      console.error('Failed to scan for duplicates:', error);
+      message.error('Failed to scan for duplicates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columns: ColumnsType<DuplicatePair> = [
+    {
+      title: 'Person',
+      key: 'a',
+      render: (_, pair) => <PersonSummary person={pair.a} onOpen={() => navigate(`/people/${pair.a._id}`)} />,
+    },
+    {
+      title: 'Possible duplicate',
+      key: 'b',
+      render: (_, pair) => <PersonSummary person={pair.b} onOpen={() => navigate(`/people/${pair.b._id}`)} />,
+    },
+    {
+      title: 'Match',
+      key: 'score',
+      width: 220,
+      render: (_, pair) => (
+        <div>
+          <Tag color={MATCH_COLORS[getMatchLevel(pair.score)]}>{pair.score}%</Tag>
+          <div className="text-xs text-gray-500 mt-1">{pair.reasons.join(', ')}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 140,
+      render: (_, pair) => (
+        <Button
+          icon={<MergeCellsOutlined />}
+          onClick={() => navigate(`/people/merge?a=${pair.a._id}&b=${pair.b._id}`)}
+        >
+          Review
+        </Button>
+      ),
+    },
+  ];
+
+  if (!can('merge', 'person')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to merge people.</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Title level={2} className="mb-0">Possible Duplicates</Title>
+          <Text type="secondary">
+            People matched by name, email and phone. Review a pair to merge it into one record.
+          </Text>
+        </div>
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={scanForDuplicates} loading={loading}>
+            Rescan
+          </Button>
+          <Button onClick={() => navigate('/people')}>Back to People</Button>
+        </Space>
+      </div>
+
+      <Card title={loading ? 'Scanning…' : `${pairs.length} possible duplicates among ${scanned} people`}>
+        <Table
+          columns={columns}
+          dataSource={pairs}
+          rowKey={(pair) => `${pair.a._id}:${pair.b._id}`}
+          loading={loading}
+          pagination={{ pageSize: 20, showSizeChanger: false }}
+          locale={{ emptyText: 'No possible duplicates found' }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Table,
+  Card,
+  Button,
+  Radio,
+  Tag,
+  Typography,
+  Alert,
+  Popconfirm,
+  Space,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { MergeCellsOutlined } from '@ant-design/icons';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Person } from '../../entities/Person';
+import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
+import { Household } from '../../entities/Household';
+import { Tag as TagEntity } from '../../entities/Tag';
+import type {
+  Person as PersonType,
+  ProfileFieldDef as ProfileFieldDefType,
+  Household as HouseholdType,
+  Tag as TagType,
+} from '../../types';
+import LoadingSpinner from '../../components/Common/LoadingSpinner';
+import { usePermissions } from '../../hooks/usePermissions';
+import { mergePeople, scorePair } from '../../utils/duplicates';
+
+const { Title, Text } = Typography;
+
+type Side = 'a' | 'b';
+
+interface MergeRow {
+  key: string;
+  label: string;
+  // Core person property, or a key inside `fields`
+  source: 'core' | 'fields';
+}
+
+const CORE_ROWS: MergeRow[] = [
+  { key: 'firstName', label: 'First Name', source: 'core' },
+  { key: 'lastName', label: 'Last Name', source: 'core' },
+  { key: 'preferredName', label: 'Preferred Name', source: 'core' },
+  { key: 'email', label: 'Email', source: 'core' },
+  { key: 'phone', label: 'Phone', source: 'core' },
+  { key: 'status', label: 'Status', source: 'core' },
+  { key: 'householdId', label: 'Household', source: 'core' },
+];
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const MergePeople: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { can } = usePermissions();
+  const [people, setPeople] = useState<Record<Side, PersonType> | null>(null);
+  const [profileFields, setProfileFields] = useState<ProfileFieldDefType[]>([]);
+  const [households, setHouseholds] = useState<HouseholdType[]>([]);
+  const [tags, setTags] = useState<TagType[]>([]);
+  const [survivorSide, setSurvivorSide] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+
+  const idA = searchParams.get('a');
+  const idB = searchParams.get('b');
+
+  useEffect(() => {
+    fetchData();
+  }, [idA, idB]);
+
+  const fetchData = async () => {
+    if (!idA || !idB || idA === idB) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [responseA, responseB, fieldsResponse, tagsResponse] = await Promise.all([
+        Person.get(idA),
+        Person.get(idB),
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
+        TagEntity.list(),
+      ]);
+
+      const a = responseA.data;
+      const b = responseB.data;
+      if (!responseA.success || !responseB.success || !a || !b) {
+        message.error('One of these people could not be found');
+        return;
+      }
+
+      setPeople({ a, b });
+      // The older record survives by default
+      setSurvivorSide(dayjs(a.createdAt).isAfter(b.createdAt) ? 'b' : 'a');
+
+      if (fieldsResponse.success) {
+        setProfileFields(fieldsResponse.data);
+      }
+      if (tagsResponse.success) {
+        setTags(tagsResponse.data);
+      }
+
+      const householdIds = [a.householdId, b.householdId].filter((id): id is string => Boolean(id));
+      if (householdIds.length > 0) {
+        const householdsResponse = await Household.query({ where: { _id: { $in: householdIds } }, fields: ['name'] });
+        if (householdsResponse.success) {
+          setHouseholds(householdsResponse.data);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load people to merge:', error);
+      message.error('Failed to load people to merge');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows = useMemo<MergeRow[]>(() => {
+    if (!people) return [];
+
+    const fieldKeys = new Set([
+      ...Object.keys(people.a.fields || {}),
+      ...Object.keys(people.b.fields || {}),
+    ]);
+    const visibleFields = profileFields.filter(field =>
+      fieldKeys.has(field.key) && (field.visibility !== 'staff_only' || can('view', 'staffField'))
+    );
+
+    return [
+      ...CORE_ROWS,
+      ...visibleFields.map(field => ({ key: field.key, label: field.label, source: 'fields' as const })),
+    ];
+  }, [people, profileFields, can]);
+
+  const getValue = (side: Side, row: MergeRow) => {
+    if (!people) return undefined;
+    const person = people[side];
+    return row.source === 'core'
+      ? person[row.key as keyof PersonType]
+      : person.fields?.[row.key];
+  };
+
+  // Unless the user picked a side, keep the survivor's value and fall back
+  // to the other record when the survivor's is empty.
+  const getChoice = (row: MergeRow): Side => {
+    const choice = choices[`${row.source}.${row.key}`];
+    if (choice) return choice;
+    const otherSide: Side = survivorSide === 'a' ? 'b' : 'a';
+    return isEmpty(getValue(survivorSide, row)) && !isEmpty(getValue(otherSide, row)) ? otherSide : survivorSide;
+  };
+
+  const formatValue = (row: MergeRow, value: unknown) => {
+    if (isEmpty(value)) return <Text type="secondary">—</Text>;
+
+    if (row.key === 'householdId' && row.source === 'core') {
+      return households.find(household => household._id === value)?.name || 'Unknown household';
+    }
+
+    const field = row.source === 'fields' ? profileFields.find(f => f.key === row.key) : undefined;
+    if (field?.type === 'date') return dayjs(value as string).format('MMM D, YYYY');
+    if (field?.type === 'checkbox' || typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field?.options) {
+      const labelFor = (option: unknown) => field.options?.find(o => o.value === option)?.label ?? String(option);
+      return Array.isArray(value) ? value.map(labelFor).join(', ') : labelFor(value);
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+  };
+
+  const handleMerge = async () => {
+    if (!people) return;
+
+    const survivor = people[survivorSide];
+    const loser = people[survivorSide === 'a' ? 'b' : 'a'];
+    const values: Record<string, any> = {};
+    const fields: Record<string, any> = { ...(loser.fields || {}), ...(survivor.fields || {}) };
+
+    rows.forEach(row => {
+      const value = getValue(getChoice(row), row);
+      if (row.source === 'core') {
+        values[row.key] = isEmpty(value) ? null : value;
+      } else if (isEmpty(value)) {
+        delete fields[row.key];
+      } else {
+        fields[row.key] = value;
+      }
+    });
+
+    try {
+      setMerging(true);
+      await mergePeople(survivor, loser, { ...values, fields });
+      message.success(`Merged ${loser.firstName} ${loser.lastName} into ${survivor.firstName} ${survivor.lastName}`);
+      navigate(`/people/${survivor._id}`);
+    } catch (error) {
+      console.error('Failed to merge people:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to merge people');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (!can('merge', 'person')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to merge people.</Text>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!people) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Nothing to merge</Title>
+        <Button onClick={() => navigate('/people/duplicates')}>Back to Duplicates</Button>
+      </div>
+    );
+  }
+
+  const match = scorePair(people.a, people.b);
+  const alreadyArchived = people.a.archived || people.b.archived;
+
+  const renderSide = (side: Side) => (_: unknown, row: MergeRow) => {
+    const value = getValue(side, row);
+    const sameValue = JSON.stringify(getValue('a', row) ?? null) === JSON.stringify(getValue('b', row) ?? null);
+    if (sameValue) {
+      return formatValue(row, value);
+    }
+    return (
+      <Radio
+        checked={getChoice(row) === side}
+        onChange={() => setChoices({ ...choices, [`${row.source}.${row.key}`]: side })}
+      >
+        {formatValue(row, value)}
+      </Radio>
+    );
+  };
+
+  const personTitle = (side: Side) => {
+    const person = people[side];
+    return (
+      <span>
+        {person.firstName} {person.lastName}
+        {survivorSide === side && <Tag color="green" className="ml-2">Keeps</Tag>}
+      </span>
+    );
+  };
+
+  const columns: ColumnsType<MergeRow> = [
+    {
+      title: 'Field',
+      dataIndex: 'label',
+      key: 'label',
+      width: 200,
+      render: (label) => <Text strong>{label}</Text>,
+    },
+    { title: personTitle('a'), key: 'a', render: renderSide('a') },
+    { title: personTitle('b'), key: 'b', render: renderSide('b') },
+  ];
+
+  const mergedTags = tags.filter(tag =>
+    people.a.tagIds?.includes(tag._id) || people.b.tagIds?.includes(tag._id)
+  );
+  const loser = people[survivorSide === 'a' ? 'b' : 'a'];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Title level={2} className="mb-0">Merge People</Title>
+          <Text type="secondary">
+            {match.score}% match{match.reasons.length > 0 && ` (${match.reasons.join(', ').toLowerCase()})`}
+          </Text>
+        </div>
+        <Button onClick={() => navigate('/people/duplicates')}>Back to Duplicates</Button>
+      </div>
+
+      {alreadyArchived && (
+        <Alert type="warning" showIcon message="One of these records is already archived and cannot be merged again." />
+      )}
+
+      <Card title="Which record should be kept?">
+        <Radio.Group
+          value={survivorSide}
+          onChange={(e) => {
+            setSurvivorSide(e.target.value);
+            setChoices({});
+          }}
+        >
+          <Space direction="vertical">
+            {(['a', 'b'] as Side[]).map(side => (
+              <Radio key={side} value={side}>
+                {people[side].firstName} {people[side].lastName}
+                <Text type="secondary" className="ml-2">
+                  created {dayjs(people[side].createdAt).format('MMM D, YYYY')}
+                </Text>
+              </Radio>
+            ))}
+          </Space>
+        </Radio.Group>
+      </Card>
+
+      <Card title="Choose the value to keep for each field">
+        <Table columns={columns} dataSource={rows} rowKey={(row) => `${row.source}.${row.key}`} pagination={false} />
+      </Card>
+
+      <Card title="Also merged">
+        <div className="space-y-2">
+          <div>
+            <Text strong>Tags: </Text>
+            {mergedTags.length > 0
+              ? mergedTags.map(tag => <Tag key={tag._id} color={tag.color || 'blue'}>{tag.name}</Tag>)
+              : <Text type="secondary">None</Text>}
+          </div>
+          <Text type="secondary" className="block">
+            Notes and household memberships of {loser.firstName} {loser.lastName} move to the kept record.
+            {' '}{loser.firstName} {loser.lastName} is then archived.
+          </Text>
+        </div>
+      </Card>
+
+      <div className="flex justify-end">
+        <Popconfirm
+          title="Merge these records? This cannot be undone."
+          onConfirm={handleMerge}
+          okText="Merge"
+          cancelText="Cancel"
+          disabled={alreadyArchived}
+        >
+          <Button type="primary" icon={<MergeCellsOutlined />} loading={merging} disabled={alreadyArchived}>
+            Merge Records
+          </Button>
+        </Popconfirm>
+      </div>
+    </div>
+  );
+};
+
+export default MergePeople;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Table,
   Input,
@@ -7,12 +7,14 @@ import {
   Space,
   Tag,
   Dropdown,
-  Checkbox,
   Card,
   message,
   Modal,
+  Form,
+  Radio,
 } from 'antd';
-import type { ColumnsType, TableRowSelection } from 'antd/es/table';
+import type { ColumnsType, TablePaginationConfig } from 'antd/es/table';
+import type { FilterValue, SorterResult, TableRowSelection } from 'antd/es/table/interface';
 import {
   SearchOutlined,
   PlusOutlined,
@@ -22,46 +24,128 @@ import {
   EyeOutlined,
   StopOutlined,
   ImportOutlined,
+  MergeCellsOutlined,
+  TeamOutlined,
   ExportOutlined,
+  PrinterOutlined,
+  LinkOutlined,
+  SaveOutlined,
+  DeleteOutlined,
+  LockOutlined,
+  ColumnWidthOutlined,
 } from '@ant-design/icons';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Person } from '../../entities/Person';
 import { Tag as TagEntity } from '../../entities/Tag';
 import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
-import type { Person as PersonType, Tag as TagType, ProfileFieldDef as ProfileFieldDefType } from '../../types';
+import { SavedView } from '../../entities/SavedView';
+import type {
+  Person as PersonType,
+  Tag as TagType,
+  ProfileFieldDef as ProfileFieldDefType,
+  SavedView as SavedViewType,
+} from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import { useSavedViews } from '../../contexts/SavedViewsContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import Can from '../../components/Common/Can';
 import CSVImport from '../../components/ImportExport/CSVImport';
 import CSVExport from '../../components/ImportExport/CSVExport';
+import DirectoryPrint from '../../components/ImportExport/DirectoryPrint';
+import QueryBuilder from '../../components/People/QueryBuilder';
+import ColumnManager from '../../components/People/ColumnManager';
+import ResizableHeaderCell from '../../components/People/ResizableHeaderCell';
+import HighlightText from '../../components/People/HighlightText';
+import BulkEditModal from '../../components/People/BulkEditModal';
+import {
+  buildPeopleWhere,
+  countQueryRules,
+  createQueryGroup,
+  decodeQuery,
+  encodeQuery,
+  getQueryFields,
+  queryToWhere,
+} from '../../utils/peopleQuery';
+import type { PeopleFilters, QueryGroup } from '../../utils/peopleQuery';
+import {
+  DEFAULT_VIEW_STATE,
+  canEditView,
+  getViewState,
+  isSameViewState,
+  toSavedViewData,
+} from '../../utils/savedViews';
+import type { PeopleViewState } from '../../utils/savedViews';
+import {
+  CORE_COLUMNS,
+  CORE_COLUMN_LABELS,
+  createDefaultColumnLayout,
+  loadColumnLayout,
+  normalizeColumnLayout,
+  saveColumnLayout,
+} from '../../utils/columnLayout';
+import type { ColumnLayout } from '../../utils/columnLayout';
+import { MAX_SEARCH_RESULTS, getSearchableFields, searchPeople } from '../../utils/personSearch';
+import type { PeopleSearchResult } from '../../utils/personSearch';
+import { BULK_EDIT_LABELS } from '../../utils/bulkEdit';
+import type { BulkEditType, BulkRowResult } from '../../utils/bulkEdit';
 
 const { Search } = Input;
 const { Option } = Select;
 
-interface PeopleFilters {
-  status?: string;
-  tagIds?: string[];
-  [key: string]: any;
-}
-
 const PeopleList: React.FC = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
-  const { userRole } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, organizationId } = useAuth();
+  const { can } = usePermissions();
+  const { refresh: refreshViews, refreshCounts } = useSavedViews();
+  const canUpdate = can('update', 'person');
   const [people, setPeople] = useState<PersonType[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(50);
+  const [sort, setSort] = useState<string | undefined>('lastName');
   const [tags, setTags] = useState<TagType[]>([]);
   const [profileFields, setProfileFields] = useState<ProfileFieldDefType[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // Ranked matches of debouncedSearch, once they are in
+  const [searchResult, setSearchResult] = useState<PeopleSearchResult | null>(null);
+  const searchRequestRef = useRef(0);
   const [filters, setFilters] = useState<PeopleFilters>({});
   const [selectedRowKeys, setSelectedRowKeys] = useState<React.Key[]>([]);
-  const [visibleColumns, setVisibleColumns] = useState<string[]>([
-    'name', 'email', 'phone', 'status', 'tags', 'household'
-  ]);
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkEditType, setBulkEditType] = useState<BulkEditType | null>(null);
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(DEFAULT_VIEW_STATE.visibleColumns);
+  // The user's column layout as stored; see normalizeColumnLayout
+  const [storedLayout, setStoredLayout] = useState<Partial<ColumnLayout>>();
+  const [showColumnManager, setShowColumnManager] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showPrintModal, setShowPrintModal] = useState(false);
+  // The applied advanced query lives in the URL so the list can be shared by link
+  const appliedQuery = searchParams.get('q');
+  const [showQueryBuilder, setShowQueryBuilder] = useState(Boolean(appliedQuery));
+  const [draftQuery, setDraftQuery] = useState<QueryGroup>(() => decodeQuery(appliedQuery) || createQueryGroup());
+  // The open saved view, if any, is also named in the URL
+  const viewId = searchParams.get('view');
+  const [activeView, setActiveView] = useState<SavedViewType | null>(null);
+  const [saveMode, setSaveMode] = useState<'create' | 'rename' | null>(null);
+  const [savingView, setSavingView] = useState(false);
+  const [viewForm] = Form.useForm();
+  const previousViewIdRef = useRef<string | null>(null);
+  // cursors[i] is the cursor that loads page i + 1 for the current query
+  const cursorsRef = useRef<(string | null)[]>([null]);
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    fetchLookups();
+    // Selections from the previous organization must not leak into bulk actions
+    setSelectedRowKeys([]);
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchColumnLayout();
+  }, [organizationId, user]);
 
   // Initialize filters from URL parameters
   useEffect(() => {
@@ -71,86 +155,434 @@ const PeopleList: React.FC = () => {
     }
   }, [searchParams]);
 
-  const fetchData = async () => {
+  // Following a link or going back replaces whatever was being edited
+  useEffect(() => {
+    setDraftQuery(decodeQuery(appliedQuery) || createQueryGroup());
+  }, [appliedQuery]);
+
+  // Opening a view restores its state; leaving it starts over from the defaults
+  useEffect(() => {
+    if (viewId) {
+      loadView(viewId);
+    } else if (previousViewIdRef.current) {
+      setActiveView(null);
+      applyViewState({ ...DEFAULT_VIEW_STATE, visibleColumns: columnLayout.visible });
+    }
+    previousViewIdRef.current = viewId;
+  }, [viewId, organizationId]);
+
+  const queryFields = useMemo(() => getQueryFields(profileFields), [profileFields]);
+
+  const columnLayout = useMemo(
+    () => normalizeColumnLayout(storedLayout, [...CORE_COLUMNS, ...profileFields.map(field => field.key)]),
+    [storedLayout, profileFields]
+  );
+
+  const queryWhere = useMemo(() => {
+    const query = decodeQuery(appliedQuery);
+    return query ? queryToWhere(query, queryFields) : null;
+  }, [appliedQuery, queryFields]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const filterWhere = useMemo(() => buildPeopleWhere(filters, queryWhere), [filters, queryWhere]);
+
+  const canViewStaffFields = can('view', 'staffField');
+  const searchFields = useMemo(
+    () => getSearchableFields(profileFields, canViewStaffFields),
+    [profileFields, canViewStaffFields]
+  );
+
+  useEffect(() => {
+    runSearch();
+  }, [debouncedSearch, filterWhere, searchFields, organizationId]);
+
+  // While searching, the list shows the matched people and nothing is loaded
+  // until the matches are in
+  const where = debouncedSearch ? searchResult?.where ?? null : filterWhere;
+
+  const searchTerms = useMemo(
+    () => new Map((debouncedSearch && searchResult?.matches || []).map(match => [match.personId, match.terms])),
+    [debouncedSearch, searchResult]
+  );
+
+  // A new query invalidates every cursor we collected, so start again at page 1
+  useEffect(() => {
+    if (!where) return;
+    cursorsRef.current = [null];
+    fetchPeople(1);
+  }, [where, sort, pageSize, organizationId]);
+
+  const fetchLookups = async () => {
     try {
-      setLoading(true);
-      
-      const [peopleResponse, tagsResponse, fieldsResponse] = await Promise.all([
-        Person.list(),
+      const [tagsResponse, fieldsResponse] = await Promise.all([
         TagEntity.list(),
-        ProfileFieldDef.list(),
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
       ]);
 
-      if (peopleResponse.success) {
-        const peopleData = Array.isArray(peopleResponse.data) ? peopleResponse.data : [peopleResponse.data];
-        setPeople(peopleData);
-      }
-
       if (tagsResponse.success) {
-        const tagsData = Array.isArray(tagsResponse.data) ? tagsResponse.data : [tagsResponse.data];
+        const tagsData = tagsResponse.data;
         setTags(tagsData);
       }
 
       if (fieldsResponse.success) {
-        const fieldsData = Array.isArray(fieldsResponse.data) ? fieldsResponse.data : [fieldsResponse.data];
-        setProfileFields(fieldsData.filter(field => !field.archived).sort((a, b) => a.orderIndex - b.orderIndex));
+        const fieldsData = fieldsResponse.data;
+        setProfileFields(fieldsData);
       }
     } catch (error) {
       console.error('Failed to fetch data:', error);
       message.error('Failed to load data');
-    } finally {
+    }
+  };
+
+  const runSearch = async () => {
+    // Only the latest search may update the list
+    const request = ++searchRequestRef.current;
+    if (!debouncedSearch) {
+      setSearchResult(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await searchPeople(debouncedSearch, filterWhere, searchFields);
+      if (request === searchRequestRef.current) setSearchResult(result);
+    } catch (error) {
+      console.error('Failed to search people:', error);
+      message.error('Failed to search people');
       setLoading(false);
     }
   };
 
-  const filteredPeople = people.filter(person => {
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      const matchesSearch = 
-        person.firstName.toLowerCase().includes(query) ||
-        person.lastName.toLowerCase().includes(query) ||
-        person.preferredName?.toLowerCase().includes(query) ||
-        person.email?.toLowerCase().includes(query) ||
-        person.phone?.toLowerCase().includes(query);
-      if (!matchesSearch) return false;
+  const fetchColumnLayout = async () => {
+    if (!user) return;
+
+    try {
+      const layout = await loadColumnLayout(user._id);
+      setStoredLayout(layout);
+      // An open view keeps its own columns
+      if (layout?.visible && !previousViewIdRef.current) {
+        setVisibleColumns(layout.visible);
+      }
+    } catch (error) {
+      console.error('Failed to load column layout:', error);
     }
+  };
+
+  const updateColumnLayout = async (layout: ColumnLayout, persist = true) => {
+    setStoredLayout(layout);
+    if (!persist || !user) return;
 
-    // Status filter
-    if (filters.status && person.status !== filters.status) {
-      return false;
+    try {
+      await saveColumnLayout(user._id, layout);
+    } catch (error) {
+      console.error('Failed to save column layout:', error);
+      message.error('Failed to save column layout');
     }
+  };
 
-    // Tags filter
-    if (filters.tagIds && filters.tagIds.length > 0) {
-      const hasMatchingTag = filters.tagIds.some(tagId => person.tagIds?.includes(tagId));
-      if (!hasMatchingTag) return false;
+  // Column choices made inside a saved view belong to the view until it is
+  // updated, so only those made outside one become the user's default
+  const handleVisibleColumnsChange = (keys: string[]) => {
+    setVisibleColumns(keys);
+    if (!activeView) {
+      updateColumnLayout({ ...columnLayout, visible: keys });
     }
+  };
+
+  // Widths are saved once the user lets go of the column edge
+  const handleColumnResize = (key: string, width: number, done: boolean) => {
+    updateColumnLayout({ ...columnLayout, widths: { ...columnLayout.widths, [key]: width } }, done);
+  };
+
+  const handleResetColumns = () => {
+    const defaults = createDefaultColumnLayout();
+    updateColumnLayout(activeView ? { ...defaults, visible: columnLayout.visible } : defaults);
+    setVisibleColumns(defaults.visible);
+  };
+
+  // Walks forward from the last known cursor when jumping past loaded pages
+  const resolveCursor = async (targetPage: number) => {
+    const cursors = cursorsRef.current;
+    while (cursors.length < targetPage) {
+      const response = await Person.query({
+        where: filterWhere,
+        sort,
+        limit: pageSize,
+        cursor: cursors[cursors.length - 1],
+        fields: ['_id'],
+      });
+      if (!response.success || !response.nextCursor) break;
+      cursors.push(response.nextCursor);
+    }
+    return cursors[Math.min(targetPage, cursors.length) - 1];
+  };
+
+  // Matches are ranked by relevance, so they are paged here in rank order
+  const fetchSearchPage = async (result: PeopleSearchResult, targetPage: number) => {
+    const pageMatches = result.matches.slice((targetPage - 1) * pageSize, targetPage * pageSize);
+    const response = pageMatches.length > 0
+      ? await Person.query({ where: { ...filterWhere, _id: { $in: pageMatches.map(match => match.personId) } }, limit: pageSize })
+      : { success: true, data: [] };
+
+    if (response.success) {
+      const peopleById = new Map(response.data.map(person => [person._id, person]));
+      setPeople(pageMatches.flatMap(match => peopleById.get(match.personId) ?? []));
+      setTotal(result.matches.length);
+      setPage(targetPage);
+    }
+  };
+
+  const fetchPeople = async (targetPage: number) => {
+    try {
+      setLoading(true);
+
+      if (debouncedSearch && searchResult) {
+        await fetchSearchPage(searchResult, targetPage);
+        return;
+      }
+
+      const cursor = await resolveCursor(targetPage);
+      const response = await Person.query({ where: filterWhere, sort, limit: pageSize, cursor });
+
+      if (response.success) {
+        const peopleData = response.data;
+        setPeople(peopleData);
+        setTotal(response.count ?? peopleData.length);
+        setPage(targetPage);
+        cursorsRef.current[targetPage] = response.nextCursor ?? null;
+      }
+    } catch (error) {
+      console.error('Failed to fetch people:', error);
+      message.error('Failed to load people');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshPage = () => {
+    refreshCounts();
+    return fetchPeople(page);
+  };
+
+  const setQueryParam = (encoded: string | null, replace = false) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (encoded) {
+        next.set('q', encoded);
+      } else {
+        next.delete('q');
+      }
+      return next;
+    }, { replace });
+  };
+
+  const applyQuery = (query: QueryGroup | null) => setQueryParam(query && encodeQuery(query));
+
+  const handleClearQuery = () => {
+    setDraftQuery(createQueryGroup());
+    applyQuery(null);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      message.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      message.error('Failed to copy link');
+    }
+  };
+
+  const appliedRuleCount = useMemo(() => {
+    const query = decodeQuery(appliedQuery);
+    return query ? countQueryRules(query) : 0;
+  }, [appliedQuery]);
+
+  const applyViewState = (state: PeopleViewState) => {
+    setSearchQuery(state.search);
+    // Skip the debounce so the view's people load in a single query
+    setDebouncedSearch(state.search.trim());
+    setFilters(state.filters);
+    setVisibleColumns(state.visibleColumns);
+    setSort(state.sort);
+    setPageSize(state.pageSize);
+    setQueryParam(state.query, true);
+  };
+
+  const loadView = async (id: string) => {
+    try {
+      const response = await SavedView.get(id);
+      const view = response.data;
+      // Someone else's private view is as good as missing
+      if (!response.success || !view || (view.visibility === 'private' && view.ownerUserId !== user?._id)) {
+        message.error('Saved view not found');
+        setActiveView(null);
+        return;
+      }
+      setActiveView(view);
+      applyViewState(getViewState(view));
+    } catch (error) {
+      console.error('Failed to load saved view:', error);
+      message.error('Failed to load saved view');
+    }
+  };
+
+  const currentViewState: PeopleViewState = {
+    search: searchQuery,
+    filters,
+    query: appliedQuery,
+    visibleColumns,
+    sort,
+    pageSize,
+  };
+
+  const viewModified = activeView !== null && !isSameViewState(currentViewState, getViewState(activeView));
+  const canEditActiveView = activeView !== null && canEditView(activeView, user?._id, can('manage', 'savedView'));
+
+  const openSaveModal = (mode: 'create' | 'rename') => {
+    viewForm.setFieldsValue(mode === 'rename' && activeView
+      ? { name: activeView.name, visibility: activeView.visibility }
+      : { name: '', visibility: 'private' });
+    setSaveMode(mode);
+  };
 
-    // Dynamic field filters
-    for (const [key, value] of Object.entries(filters)) {
-      if (key !== 'status' && key !== 'tagIds' && value !== undefined && value !== '') {
-        if (person.fields[key] !== value) {
-          return false;
+  const handleSaveView = async (values: { name: string; visibility: SavedViewType['visibility'] }) => {
+    if (!user) return;
+
+    try {
+      setSavingView(true);
+      if (saveMode === 'rename' && activeView) {
+        const response = await SavedView.update(activeView._id, { name: values.name.trim(), visibility: values.visibility });
+        if (!response.success) {
+          throw new Error(response.message || 'Failed to update view');
+        }
+        setActiveView(response.data);
+        message.success('View updated');
+      } else {
+        const response = await SavedView.create({
+          name: values.name.trim(),
+          visibility: values.visibility,
+          ownerUserId: user._id,
+          ownerName: user.name || user.email,
+          ...toSavedViewData(currentViewState),
+        });
+        if (!response.success) {
+          throw new Error(response.message || 'Failed to save view');
         }
+        navigate(`/people?view=${response.data._id}`);
+        message.success('View saved');
       }
+      setSaveMode(null);
+      await refreshViews();
+    } catch (error) {
+      console.error('Failed to save view:', error);
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to save view');
+    } finally {
+      setSavingView(false);
     }
+  };
 
-    return true;
-  });
+  const handleUpdateView = async () => {
+    if (!activeView) return;
+
+    try {
+      const response = await SavedView.update(activeView._id, toSavedViewData(currentViewState));
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update view');
+      }
+      setActiveView(response.data);
+      message.success('View updated');
+      await refreshViews();
+    } catch (error) {
+      console.error('Failed to update view:', error);
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to update view');
+    }
+  };
+
+  const handleDeleteView = () => {
+    if (!activeView) return;
+
+    Modal.confirm({
+      title: 'Delete View',
+      content: `Delete the view "${activeView.name}"? The people in it are not affected.`,
+      okType: 'danger',
+      onOk: async () => {
+        try {
+          const response = await SavedView.delete(activeView._id);
+          if (!response.success) {
+            throw new Error(response.message || 'Failed to delete view');
+          }
+          message.success('View deleted');
+          await refreshViews();
+          navigate('/people');
+        } catch (error) {
+          console.error('Failed to delete view:', error);
+          message.error(error instanceof Error && error.message ? error.message : 'Failed to delete view');
+        }
+      },
+    });
+  };
+
+  const viewActionMenu = {
+    items: [
+      {
+        key: 'save-as',
+        icon: <PlusOutlined />,
+        label: 'Save as New View',
+        onClick: () => openSaveModal('create'),
+      },
+      {
+        key: 'rename',
+        icon: <EditOutlined />,
+        label: 'Rename or Share',
+        onClick: () => openSaveModal('rename'),
+      },
+      {
+        key: 'delete',
+        icon: <DeleteOutlined />,
+        label: 'Delete View',
+        danger: true,
+        onClick: handleDeleteView,
+      },
+    ],
+  };
+
+  const handleTableChange = (
+    pagination: TablePaginationConfig,
+    _filters: Record<string, FilterValue | null>,
+    sorter: SorterResult<PersonType> | SorterResult<PersonType>[],
+  ) => {
+    const activeSorter = Array.isArray(sorter) ? sorter[0] : sorter;
+    // Search results keep their relevance order and the sort for afterwards
+    const nextSort = debouncedSearch
+      ? sort
+      : activeSorter?.order ? `${activeSorter.order === 'descend' ? '-' : ''}lastName` : undefined;
+
+    if (nextSort !== sort) {
+      setSort(nextSort);
+    } else if (pagination.pageSize && pagination.pageSize !== pageSize) {
+      setPageSize(pagination.pageSize);
+    } else if (pagination.current && pagination.current !== page) {
+      fetchPeople(pagination.current);
+    }
+  };
 
   const getPersonName = (person: PersonType) => {
     return person.preferredName || `${person.firstName} ${person.lastName}`;
   };
 
-  const getPersonTags = (tagIds: string[]) => {
-    return tags.filter(tag => tagIds?.includes(tag._id));
+  const getPersonTags = (tagIds: string[] = []) => {
+    return tags.filter(tag => tagIds.includes(tag._id));
   };
 
-  const handleStatusChange = async (personId: string, newStatus: string) => {
+  const handleStatusChange = async (personId: string, newStatus: PersonType['status']) => {
     try {
       await Person.update(personId, { status: newStatus });
-      await fetchData();
+      await refreshPage();
       message.success('Status updated successfully');
     } catch (error) {
       console.error('Failed to update status:', error);
@@ -158,20 +590,29 @@ const PeopleList: React.FC = () => {
     }
   };
 
-  const handleBulkStatusChange = async (newStatus: string) => {
+  // Selects everyone the filters or search match, not just the loaded pages
+  const handleSelectAll = async () => {
     try {
-      await Promise.all(
-        selectedRowKeys.map(key => Person.update(key as string, { status: newStatus }))
-      );
-      await fetchData();
-      setSelectedRowKeys([]);
-      message.success('Status updated for selected people');
+      setSelectingAll(true);
+      const response = await Person.queryAll({ where: where ?? filterWhere, fields: ['_id'] });
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      setSelectedRowKeys(response.data.map(person => person._id));
     } catch (error) {
-      console.error('Failed to bulk update status:', error);
-      message.error('Failed to update status');
+      console.error('Failed to select all people:', error);
+      message.error('Failed to select all people');
+    } finally {
+      setSelectingAll(false);
     }
   };
 
+  // People that failed stay selected so the edit can be tried again
+  const handleBulkEditComplete = (results: BulkRowResult[]) => {
+    setSelectedRowKeys(results.filter(row => row.outcome === 'failed').map(row => row.personId));
+    refreshPage();
+  };
+
   const getActionMenu = (person: PersonType) => ({
     items: [
       {
@@ -185,14 +626,14 @@ const PeopleList: React.FC = () => {
         icon: <EditOutlined />,
         label: 'Edit',
         onClick: () => navigate(`/people/${person._id}/edit`),
-        disabled: userRole === 'viewer',
+        disabled: !canUpdate,
       },
       {
         key: 'inactivate',
         icon: <StopOutlined />,
         label: 'Set Inactive',
         onClick: () => handleStatusChange(person._id, 'inactive'),
-        disabled: userRole === 'viewer' || person.status === 'inactive',
+        disabled: !canUpdate || person.status === 'inactive',
       },
     ],
   });
@@ -207,22 +648,23 @@ const PeopleList: React.FC = () => {
           className="p-0"
           onClick={() => navigate(`/people/${record._id}`)}
         >
-          {getPersonName(record)}
+          <HighlightText text={getPersonName(record)} terms={searchTerms.get(record._id)} />
         </Button>
       ),
-      sorter: (a, b) => getPersonName(a).localeCompare(getPersonName(b)),
+      sorter: !debouncedSearch,
+      sortOrder: debouncedSearch ? null : sort === 'lastName' ? 'ascend' : sort === '-lastName' ? 'descend' : null,
     },
     {
       title: 'Email',
       dataIndex: 'email',
       key: 'email',
-      render: (email) => email || '-',
+      render: (email, record) => email ? <HighlightText text={email} terms={searchTerms.get(record._id)} /> : '-',
     },
     {
       title: 'Phone',
       dataIndex: 'phone',
       key: 'phone',
-      render: (phone) => phone || '-',
+      render: (phone, record) => phone ? <HighlightText text={phone} terms={searchTerms.get(record._id)} /> : '-',
     },
     {
       title: 'Status',
@@ -269,26 +711,15 @@ const PeopleList: React.FC = () => {
         </Button>
       ) : '-',
     },
-    {
-      title: 'Actions',
-      key: 'actions',
-      width: 60,
-      render: (_, record) => (
-        <Dropdown menu={getActionMenu(record)} trigger={['click']}>
-          <Button type="text" icon={<MoreOutlined />} />
-        </Dropdown>
-      ),
-    },
   ];
 
   // Add dynamic columns for profile fields
   const dynamicColumns: ColumnsType<PersonType> = profileFields
-    .filter(field => visibleColumns.includes(field.key))
     .map(field => ({
       title: field.label,
       key: field.key,
       render: (_, record) => {
-        const value = record.fields[field.key];
+        const value = record.fields?.[field.key];
         if (value === undefined || value === null) return '-';
         
         if (field.type === 'checkbox') {
@@ -297,64 +728,133 @@ const PeopleList: React.FC = () => {
           return Array.isArray(value) ? value.join(', ') : value;
         }
         
+        if (searchFields.includes(field)) {
+          return <HighlightText text={String(value)} terms={searchTerms.get(record._id)} />;
+        }
+
         return value.toString();
       },
     }));
 
-  const allColumns = baseColumns.concat(dynamicColumns);
-  const visibleColumnsData = allColumns.filter(col => 
-    visibleColumns.includes(col.key as string) || col.key === 'actions'
-  );
+  const actionsColumn: ColumnsType<PersonType>[number] = {
+    title: 'Actions',
+    key: 'actions',
+    width: 60,
+    render: (_, record) => (
+      <Dropdown menu={getActionMenu(record)} trigger={['click']}>
+        <Button type="text" icon={<MoreOutlined />} />
+      </Dropdown>
+    ),
+  };
+
+  const columnsByKey = new Map(baseColumns.concat(dynamicColumns).map(col => [col.key as string, col]));
+  const visibleColumnsData: ColumnsType<PersonType> = columnLayout.order
+    .filter(key => visibleColumns.includes(key) && columnsByKey.has(key))
+    .map((key): ColumnsType<PersonType>[number] => ({
+      ...columnsByKey.get(key)!,
+      width: columnLayout.widths[key],
+      fixed: columnLayout.pinned.includes(key) ? 'left' : undefined,
+      onHeaderCell: () => ({
+        onResize: (width: number, done: boolean) => handleColumnResize(key, width, done),
+      }) as React.HTMLAttributes<HTMLElement>,
+    }))
+    .concat(actionsColumn);
+
+  const columnLabels = {
+    ...CORE_COLUMN_LABELS,
+    ...Object.fromEntries(profileFields.map(field => [field.key, field.label])),
+  };
 
   const rowSelection: TableRowSelection<PersonType> = {
     selectedRowKeys,
+    preserveSelectedRowKeys: true,
     onChange: (selectedKeys) => setSelectedRowKeys(selectedKeys),
-    getCheckboxProps: () => ({ disabled: userRole === 'viewer' }),
+    getCheckboxProps: () => ({ disabled: !canUpdate }),
   };
 
+  // Staff-only fields can only be set by those allowed to update them
+  const bulkEditableFields = profileFields.filter(field =>
+    field.visibility !== 'staff_only' || can('update', 'staffField')
+  );
+
   const bulkActionMenu = {
     items: [
-      {
-        key: 'bulk-active',
-        label: 'Set Active',
-        onClick: () => handleBulkStatusChange('active'),
-      },
-      {
-        key: 'bulk-inactive',
-        label: 'Set Inactive',
-        onClick: () => handleBulkStatusChange('inactive'),
-      },
-      {
-        key: 'bulk-visitor',
-        label: 'Set Visitor',
-        onClick: () => handleBulkStatusChange('visitor'),
-      },
+      ...(['status', 'addTags', 'removeTags', 'setField', 'clearField'] as BulkEditType[]).map(type => ({
+        key: `bulk-${type}`,
+        label: `${BULK_EDIT_LABELS[type]}…`,
+        onClick: () => setBulkEditType(type),
+      })),
+      ...(can('update', 'household') ? [{
+        key: 'bulk-household',
+        label: `${BULK_EDIT_LABELS.household}…`,
+        onClick: () => setBulkEditType('household'),
+      }] : []),
+      ...(can('delete', 'person') ? [
+        { type: 'divider' as const },
+        {
+          key: 'bulk-archive',
+          label: `${BULK_EDIT_LABELS.archive}…`,
+          danger: true,
+          onClick: () => setBulkEditType('archive'),
+        },
+      ] : []),
     ],
   };
 
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold">People</h1>
-        <Space>
-          {userRole !== 'viewer' && (
-            <>
-              <Button icon={<ImportOutlined />} onClick={() => setShowImportModal(true)}>
-                Import CSV
-              </Button>
-              <Button icon={<ExportOutlined />} onClick={() => setShowExportModal(true)}>
-                Export CSV
-              </Button>
-              <Button type="primary" icon={<PlusOutlined />} onClick={() => navigate('/people/new')}>
-                Add Person
-              </Button>
-            </>
+        <div className="flex items-center gap-2">
+          <h1 className="text-2xl font-bold">{activeView ? activeView.name : 'People'}</h1>
+          {activeView && (
+            <Tag icon={activeView.visibility === 'private' ? <LockOutlined /> : <TeamOutlined />}>
+              {activeView.visibility === 'private' ? 'Private' : 'Shared'}
+            </Tag>
           )}
-          {userRole === 'viewer' && (
+          {viewModified && <Tag color="orange">Modified</Tag>}
+        </div>
+        <Space>
+          <Can action="merge" resource="person">
+            <Button icon={<MergeCellsOutlined />} onClick={() => navigate('/people/duplicates')}>
+              Find Duplicates
+            </Button>
+          </Can>
+          <Can action="import" resource="person">
+            <Button icon={<ImportOutlined />} onClick={() => setShowImportModal(true)}>
+              Import
+            </Button>
+          </Can>
+          <Can action="export" resource="person">
             <Button icon={<ExportOutlined />} onClick={() => setShowExportModal(true)}>
               Export CSV
             </Button>
-          )}
+          </Can>
+          <Can action="export" resource="person">
+            <Button icon={<PrinterOutlined />} onClick={() => setShowPrintModal(true)}>
+              Print
+            </Button>
+          </Can>
+          <Can action="create" resource="savedView">
+            {canEditActiveView ? (
+              <>
+                <Button icon={<SaveOutlined />} onClick={handleUpdateView} disabled={!viewModified}>
+                  Update View
+                </Button>
+                <Dropdown menu={viewActionMenu} trigger={['click']}>
+                  <Button icon={<MoreOutlined />} />
+                </Dropdown>
+              </>
+            ) : (
+              <Button icon={<SaveOutlined />} onClick={() => openSaveModal('create')}>
+                Save View
+              </Button>
+            )}
+          </Can>
+          <Can action="create" resource="person">
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => navigate('/people/new')}>
+              Add Person
+            </Button>
+          </Can>
         </Space>
       </div>
 
@@ -363,7 +863,7 @@ const PeopleList: React.FC = () => {
           {/* Search and Filters */}
           <div className="flex flex-wrap gap-4">
             <Search
-              placeholder="Search by name, email, or phone"
+              placeholder="Search by name, email, phone or profile field"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               style={{ width: 300 }}
@@ -393,50 +893,93 @@ const PeopleList: React.FC = () => {
                 <Option key={tag._id} value={tag._id}>{tag.name}</Option>
               ))}
             </Select>
-          </div>
 
-          {/* Column Visibility */}
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-600">Visible columns:</span>
-            {['name', 'email', 'phone', 'status', 'tags', 'household'].concat(
-              profileFields.map(f => f.key)
-            ).map(key => (
-              <Checkbox
-                key={key}
-                checked={visibleColumns.includes(key)}
-                onChange={(e) => {
-                  if (e.target.checked) {
-                    setVisibleColumns([...visibleColumns, key]);
-                  } else {
-                    setVisibleColumns(visibleColumns.filter(col => col !== key));
-                  }
-                }}
-              >
-                {profileFields.find(f => f.key === key)?.label || 
-                 key.charAt(0).toUpperCase() + key.slice(1)}
-              </Checkbox>
-            ))}
+            <Button
+              icon={<FilterOutlined />}
+              type={appliedRuleCount > 0 ? 'primary' : 'default'}
+              ghost={appliedRuleCount > 0}
+              onClick={() => setShowQueryBuilder(!showQueryBuilder)}
+            >
+              Advanced Filters{appliedRuleCount > 0 && ` (${appliedRuleCount})`}
+            </Button>
+
+            <Button
+              icon={<ColumnWidthOutlined />}
+              onClick={() => setShowColumnManager(!showColumnManager)}
+            >
+              Columns
+            </Button>
           </div>
 
+          {showQueryBuilder && (
+            <Card size="small" className="bg-gray-50">
+              <Space direction="vertical" className="w-full">
+                <QueryBuilder value={draftQuery} onChange={setDraftQuery} fields={queryFields} tags={tags} />
+                <Space>
+                  <Button type="primary" onClick={() => applyQuery(draftQuery)}>
+                    Apply Filters
+                  </Button>
+                  <Button onClick={handleClearQuery}>Clear</Button>
+                  {appliedQuery && (
+                    <Button icon={<LinkOutlined />} onClick={handleCopyLink}>
+                      Copy Link
+                    </Button>
+                  )}
+                </Space>
+              </Space>
+            </Card>
+          )}
+
+          {showColumnManager && (
+            <Card size="small" className="bg-gray-50">
+              <ColumnManager
+                layout={columnLayout}
+                visibleColumns={visibleColumns}
+                labels={columnLabels}
+                onLayoutChange={updateColumnLayout}
+                onVisibleColumnsChange={handleVisibleColumnsChange}
+                onReset={handleResetColumns}
+              />
+            </Card>
+          )}
+
           {/* Bulk Actions */}
-          {selectedRowKeys.length > 0 && userRole !== 'viewer' && (
+          {selectedRowKeys.length > 0 && canUpdate && (
             <div className="flex items-center space-x-2">
               <span>{selectedRowKeys.length} selected</span>
+              {selectedRowKeys.length < total && (
+                <Button type="link" size="small" loading={selectingAll} onClick={handleSelectAll}>
+                  Select all {total}
+                </Button>
+              )}
+              <Button type="link" size="small" onClick={() => setSelectedRowKeys([])}>
+                Clear selection
+              </Button>
               <Dropdown menu={bulkActionMenu}>
                 <Button>Bulk Actions</Button>
               </Dropdown>
             </div>
           )}
 
+          {debouncedSearch && searchResult?.truncated && (
+            <div className="text-sm text-gray-500">
+              Showing the {MAX_SEARCH_RESULTS} best matches. Refine the search to find others.
+            </div>
+          )}
+
           {/* Table */}
           <Table
             columns={visibleColumnsData}
-            dataSource={filteredPeople}
+            dataSource={people}
             rowKey="_id"
             loading={loading}
-            rowSelection={userRole !== 'viewer' ? rowSelection : undefined}
+            rowSelection={canUpdate ? rowSelection : undefined}
+            onChange={handleTableChange}
+            components={{ header: { cell: ResizableHeaderCell } }}
             pagination={{
-              pageSize: 50,
+              current: page,
+              pageSize,
+              total,
               showSizeChanger: true,
               showQuickJumper: true,
               showTotal: (total, range) => `${range[0]}-${range[1]} of ${total} people`,
@@ -446,21 +989,70 @@ const PeopleList: React.FC = () => {
         </div>
       </Card>
 
+      <BulkEditModal
+        type={bulkEditType}
+        personIds={selectedRowKeys as string[]}
+        tags={tags}
+        profileFields={bulkEditableFields}
+        onClose={() => setBulkEditType(null)}
+        onComplete={handleBulkEditComplete}
+      />
+
       {/* Import/Export Modals */}
       <CSVImport
         visible={showImportModal}
         onClose={() => setShowImportModal(false)}
-        onSuccess={fetchData}
+        onSuccess={refreshPage}
       />
       
       <CSVExport
         visible={showExportModal}
         onClose={() => setShowExportModal(false)}
-        people={filteredPeople}
+        where={where ?? filterWhere}
+        total={total}
         profileFields={profileFields}
         tags={tags}
         currentFilters={filters}
       />
+
+      <Modal
+        title={saveMode === 'rename' ? 'Edit View' : 'Save View'}
+        open={saveMode !== null}
+        onCancel={() => setSaveMode(null)}
+        onOk={() => viewForm.submit()}
+        okText="Save"
+        confirmLoading={savingView}
+      >
+        <Form form={viewForm} layout="vertical" onFinish={handleSaveView}>
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, whitespace: true, message: 'Please enter a name' }]}
+          >
+            <Input placeholder="e.g., New visitors this month" maxLength={80} />
+          </Form.Item>
+          <Form.Item name="visibility" label="Who can see it">
+            <Radio.Group>
+              <Radio value="private">Only me</Radio>
+              <Radio value="shared">Everyone in the organization</Radio>
+            </Radio.Group>
+          </Form.Item>
+          {saveMode === 'create' && (
+            <div className="text-sm text-gray-500">
+              The view keeps the current search, filters, columns, sort order and page size.
+            </div>
+          )}
+        </Form>
+      </Modal>
+
+      <DirectoryPrint
+        visible={showPrintModal}
+        onClose={() => setShowPrintModal(false)}
+        where={where ?? filterWhere}
+        total={total}
+        profileFields={profileFields}
+        tags={tags}
+      />
     </div>
   );
 };
@@ -14,15 +14,19 @@ import {
   Tag,
   Modal,
   Space,
+  List,
 } from 'antd';
 import { PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, Link } from 'react-router-dom';
 import { Person } from '../../entities/Person';
 import { Tag as TagEntity } from '../../entities/Tag';
 import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
 import { Household } from '../../entities/Household';
 import type { Person as PersonType, Tag as TagType, ProfileFieldDef as ProfileFieldDefType, Household as HouseholdType } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { findPossibleDuplicates } from '../../utils/duplicates';
+import type { DuplicateMatch } from '../../utils/duplicates';
 import dayjs from 'dayjs';
 
 const { Option } = Select;
@@ -36,7 +40,8 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
   const [form] = Form.useForm();
   const navigate = useNavigate();
   const { id } = useParams();
-  const { userRole } = useAuth();
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
   const [loading, setLoading] = useState(false);
   const [person, setPerson] = useState<PersonType | null>(null);
   const [tags, setTags] = useState<TagType[]>([]);
@@ -47,7 +52,7 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
 
   useEffect(() => {
     fetchData();
-  }, [id]);
+  }, [id, organizationId]);
 
   const fetchData = async () => {
     try {
@@ -55,29 +60,29 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
       
       const [tagsResponse, fieldsResponse, householdsResponse] = await Promise.all([
         TagEntity.list(),
-        ProfileFieldDef.list(),
-        Household.list(),
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
+        Household.query({ sort: 'name', fields: ['name'] }),
       ]);
 
       if (tagsResponse.success) {
-        const tagsData = Array.isArray(tagsResponse.data) ? tagsResponse.data : [tagsResponse.data];
+        const tagsData = tagsResponse.data;
         setTags(tagsData);
       }
 
       if (fieldsResponse.success) {
-        const fieldsData = Array.isArray(fieldsResponse.data) ? fieldsResponse.data : [fieldsResponse.data];
-        setProfileFields(fieldsData.filter(field => !field.archived).sort((a, b) => a.orderIndex - b.orderIndex));
+        const fieldsData = fieldsResponse.data;
+        setProfileFields(fieldsData);
       }
 
       if (householdsResponse.success) {
-        const householdsData = Array.isArray(householdsResponse.data) ? householdsResponse.data : [householdsResponse.data];
+        const householdsData = householdsResponse.data;
         setHouseholds(householdsData);
       }
 
       if (mode === 'edit' && id) {
         const personResponse = await Person.get(id);
-        if (personResponse.success) {
-          const personData = personResponse.data;
+        const personData = personResponse.data;
+        if (personResponse.success && personData) {
           setPerson(personData);
           
           // Set form values
@@ -88,7 +93,7 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
           
           // Convert date fields to dayjs objects
           if (fieldsResponse.success) {
-            const fieldsData = Array.isArray(fieldsResponse.data) ? fieldsResponse.data : [fieldsResponse.data];
+            const fieldsData = fieldsResponse.data;
             fieldsData.forEach((field: ProfileFieldDefType) => {
               if (field.type === 'date' && formValues.fields[field.key]) {
                 formValues.fields[field.key] = dayjs(formValues.fields[field.key]);
@@ -125,22 +130,75 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
       });
 
       if (mode === 'create') {
-        await Person.create(formData);
-        message.success('Person created successfully');
-      } else if (id) {
-        await Person.update(id, formData);
-        message.success('Person updated successfully');
+        const duplicates = await findPossibleDuplicates(formData);
+        if (duplicates.length > 0) {
+          confirmDuplicates(duplicates, formData);
+          return;
+        }
       }
 
-      navigate('/people');
+      await savePerson(formData);
     } catch (error) {
       console.error('Failed to save person:', error);
-      message.error('Failed to save person');
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to save person');
     } finally {
       setLoading(false);
     }
   };
 
+  const savePerson = async (formData: any) => {
+    if (mode === 'create') {
+      const response = await Person.create(formData);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to save person');
+      }
+      message.success('Person created successfully');
+    } else if (id) {
+      const response = await Person.update(id, formData);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to save person');
+      }
+      message.success('Person updated successfully');
+    }
+
+    navigate('/people');
+  };
+
+  const confirmDuplicates = (duplicates: (PersonType & DuplicateMatch)[], formData: any) => {
+    Modal.confirm({
+      title: 'This person may already exist',
+      width: 520,
+      content: (
+        <List
+          size="small"
+          dataSource={duplicates.slice(0, 5)}
+          renderItem={(duplicate) => (
+            <List.Item>
+              <div>
+                <Link to={`/people/${duplicate._id}`} onClick={() => Modal.destroyAll()}>
+                  {duplicate.firstName} {duplicate.lastName}
+                </Link>
+                <div className="text-xs text-gray-500">
+                  {duplicate.score}% match: {duplicate.reasons.join(', ').toLowerCase()}
+                </div>
+              </div>
+            </List.Item>
+          )}
+        />
+      ),
+      okText: 'Create Anyway',
+      cancelText: 'Go Back',
+      onOk: async () => {
+        try {
+          await savePerson(formData);
+        } catch (error) {
+          console.error('Failed to save person:', error);
+          message.error(error instanceof Error && error.message ? error.message : 'Failed to save person');
+        }
+      },
+    });
+  };
+
   const handleCreateTag = async () => {
     if (!newTagName.trim()) return;
 
@@ -169,7 +227,7 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
 
   const renderDynamicField = (field: ProfileFieldDefType) => {
     const fieldName = ['fields', field.key];
-    const isVisible = field.visibility === 'public' || userRole === 'admin' || userRole === 'owner';
+    const isVisible = field.visibility !== 'staff_only' || can('view', 'staffField');
     
     if (!isVisible) return null;
 
@@ -280,7 +338,7 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
     }
   };
 
-  const isReadOnly = userRole === 'viewer';
+  const isReadOnly = !can(mode === 'create' ? 'create' : 'update', 'person');
 
   return (
     <div className="space-y-6">
@@ -350,6 +408,15 @@ const PersonForm: React.FC<PersonFormProps> = ({ mode }) => {
                     <Input />
                   </Form.Item>
                 </Col>
+                <Col xs={24}>
+                  <Form.Item
+                    name="photoUrl"
+                    label="Photo URL"
+                    rules={[{ type: 'url', message: 'Please enter a valid URL' }]}
+                  >
+                    <Input placeholder="https://" />
+                  </Form.Item>
+                </Col>
               </Row>
             </Card>
 
@@ -14,6 +14,8 @@ import {
   Modal,
   Space,
   Typography,
+  Alert,
+  Avatar,
 } from 'antd';
 import {
   EditOutlined,
@@ -21,8 +23,9 @@ import {
   TagsOutlined,
   HomeOutlined,
   MessageOutlined,
+  UserOutlined,
 } from '@ant-design/icons';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Person } from '../../entities/Person';
 import { Note } from '../../entities/Note';
 import { Tag as TagEntity } from '../../entities/Tag';
@@ -31,6 +34,7 @@ import { Household } from '../../entities/Household';
 import { HouseholdMember } from '../../entities/HouseholdMember';
 import type { Person as PersonType, Note as NoteType, Tag as TagType, ProfileFieldDef as ProfileFieldDefType, Household as HouseholdType, HouseholdMember as HouseholdMemberType } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
 
 const { TextArea } = Input;
 const { Title, Text } = Typography;
@@ -38,7 +42,9 @@ const { Title, Text } = Typography;
 const PersonProfile: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { userRole, user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { can } = usePermissions();
   const [person, setPerson] = useState<PersonType | null>(null);
   const [notes, setNotes] = useState<NoteType[]>([]);
   const [tags, setTags] = useState<TagType[]>([]);
@@ -56,6 +62,18 @@ const PersonProfile: React.FC = () => {
     }
   }, [id]);
 
+  // The command palette links here to add a note straight away
+  useEffect(() => {
+    if (searchParams.get('note') !== 'new') return;
+    if (can('create', 'note')) {
+      setShowNoteModal(true);
+    }
+    setSearchParams(params => {
+      params.delete('note');
+      return params;
+    }, { replace: true });
+  }, [searchParams]);
+
   const fetchPersonData = async () => {
     if (!id) return;
 
@@ -64,20 +82,20 @@ const PersonProfile: React.FC = () => {
       
       const [personResponse, notesResponse, tagsResponse, fieldsResponse] = await Promise.all([
         Person.get(id),
-        Note.list(), // In real app, filter by personId
+        Note.query({ where: { personId: id }, sort: '-createdAt' }),
         TagEntity.list(),
-        ProfileFieldDef.list(),
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
       ]);
 
-      if (personResponse.success) {
-        const personData = personResponse.data;
+      const personData = personResponse.data;
+      if (personResponse.success && personData) {
         setPerson(personData);
 
         // Fetch household data if person has one
         if (personData.householdId) {
           const [householdResponse, membersResponse] = await Promise.all([
             Household.get(personData.householdId),
-            HouseholdMember.list(), // In real app, filter by householdId
+            HouseholdMember.query({ where: { householdId: personData.householdId }, fields: ['personId'] }),
           ]);
 
           if (householdResponse.success) {
@@ -85,28 +103,40 @@ const PersonProfile: React.FC = () => {
           }
 
           if (membersResponse.success) {
-            const members = Array.isArray(membersResponse.data) ? membersResponse.data : [membersResponse.data];
-            // In real app, you'd fetch person data for each member
-            // For now, using mock data
-            setHouseholdMembers([]);
+            const members: HouseholdMemberType[] = membersResponse.data;
+            const otherPersonIds = members.map(member => member.personId).filter(personId => personId !== id);
+
+            if (otherPersonIds.length > 0) {
+              const peopleResponse = await Person.query({
+                where: { _id: { $in: otherPersonIds } },
+                fields: ['firstName', 'lastName'],
+              });
+              if (peopleResponse.success) {
+                setHouseholdMembers(peopleResponse.data);
+              }
+            } else {
+              setHouseholdMembers([]);
+            }
           }
+        } else {
+          setHousehold(null);
+          setHouseholdMembers([]);
         }
       }
 
       if (notesResponse.success) {
-        const notesData = Array.isArray(notesResponse.data) ? notesResponse.data : [notesResponse.data];
-        // Filter notes for this person (in real app, this would be done server-side)
-        setNotes(notesData.filter(note => note.personId === id));
+        const notesData = notesResponse.data;
+        setNotes(can('view', 'staffNote') ? notesData : notesData.filter(note => note.visibility !== 'staff_only'));
       }
 
       if (tagsResponse.success) {
-        const tagsData = Array.isArray(tagsResponse.data) ? tagsResponse.data : [tagsResponse.data];
+        const tagsData = tagsResponse.data;
         setTags(tagsData);
       }
 
       if (fieldsResponse.success) {
-        const fieldsData = Array.isArray(fieldsResponse.data) ? fieldsResponse.data : [fieldsResponse.data];
-        setProfileFields(fieldsData.filter(field => !field.archived).sort((a, b) => a.orderIndex - b.orderIndex));
+        const fieldsData = fieldsResponse.data;
+        setProfileFields(fieldsData);
       }
     } catch (error) {
       console.error('Failed to fetch person data:', error);
@@ -160,11 +190,11 @@ const PersonProfile: React.FC = () => {
   };
 
   const getPersonTags = () => {
-    return tags.filter(tag => person.tagIds.includes(tag._id));
+    return tags.filter(tag => person.tagIds?.includes(tag._id));
   };
 
   const getFieldValue = (field: ProfileFieldDefType) => {
-    const value = person.fields[field.key];
+    const value = person.fields?.[field.key];
     if (value === undefined || value === null) return '-';
     
     if (field.type === 'checkbox') {
@@ -179,37 +209,56 @@ const PersonProfile: React.FC = () => {
   };
 
   const visibleFields = profileFields.filter(field => 
-    field.visibility === 'public' || userRole === 'admin' || userRole === 'owner'
+    field.visibility !== 'staff_only' || can('view', 'staffField')
   );
 
-  const canEdit = userRole !== 'viewer';
+  const canEdit = can('update', 'person');
+  const canAddNote = can('create', 'note');
 
   return (
     <div className="space-y-6">
+      {person.archived && (
+        <Alert
+          type="warning"
+          showIcon
+          message="This person has been archived"
+          description={person.mergedIntoId && (
+            <span>
+              The record was merged into <Link to={`/people/${person.mergedIntoId}`}>another person</Link>.
+            </span>
+          )}
+        />
+      )}
+
       <div className="flex justify-between items-center">
-        <div>
-          <Title level={2} className="mb-0">{getPersonName()}</Title>
-          <Space>
-            <Tag color={
-              person.status === 'active' ? 'green' : 
-              person.status === 'inactive' ? 'red' : 
-              'orange'
-            }>
-              {person.status.toUpperCase()}
-            </Tag>
-            {getPersonTags().map(tag => (
-              <Tag key={tag._id} color={tag.color || 'blue'}>
-                {tag.name}
+        <div className="flex items-center gap-4">
+          <Avatar size={64} src={person.photoUrl} icon={<UserOutlined />} />
+          <div>
+            <Title level={2} className="mb-0">{getPersonName()}</Title>
+            <Space>
+              <Tag color={
+                person.status === 'active' ? 'green' : 
+                person.status === 'inactive' ? 'red' : 
+                'orange'
+              }>
+                {person.status.toUpperCase()}
               </Tag>
-            ))}
-          </Space>
+              {getPersonTags().map(tag => (
+                <Tag key={tag._id} color={tag.color || 'blue'}>
+                  {tag.name}
+                </Tag>
+              ))}
+            </Space>
+          </div>
         </div>
         <Space>
+          {canAddNote && (
+            <Button icon={<MessageOutlined />} onClick={() => setShowNoteModal(true)}>
+              Add Note
+            </Button>
+          )}
           {canEdit && (
             <>
-              <Button icon={<MessageOutlined />} onClick={() => setShowNoteModal(true)}>
-                Add Note
-              </Button>
               <Button icon={<TagsOutlined />} onClick={() => setShowTagModal(true)}>
                 Manage Tags
               </Button>
@@ -333,18 +382,24 @@ const PersonProfile: React.FC = () => {
           )}
 
           {/* Quick Actions */}
-          {canEdit && (
+          {(canEdit || canAddNote) && (
             <Card title="Quick Actions">
               <div className="space-y-2">
-                <Button block icon={<EditOutlined />} onClick={() => navigate(`/people/${id}/edit`)}>
-                  Edit Person
-                </Button>
-                <Button block icon={<MessageOutlined />} onClick={() => setShowNoteModal(true)}>
-                  Add Note
-                </Button>
-                <Button block icon={<TagsOutlined />} onClick={() => setShowTagModal(true)}>
-                  Manage Tags
-                </Button>
+                {canEdit && (
+                  <Button block icon={<EditOutlined />} onClick={() => navigate(`/people/${id}/edit`)}>
+                    Edit Person
+                  </Button>
+                )}
+                {canAddNote && (
+                  <Button block icon={<MessageOutlined />} onClick={() => setShowNoteModal(true)}>
+                    Add Note
+                  </Button>
+                )}
+                {canEdit && (
+                  <Button block icon={<TagsOutlined />} onClick={() => setShowTagModal(true)}>
+                    Manage Tags
+                  </Button>
+                )}
               </div>
             </Card>
           )}
@@ -376,7 +431,9 @@ const PersonProfile: React.FC = () => {
           >
             <Select>
               <Select.Option value="org">Organization</Select.Option>
-              <Select.Option value="staff_only">Staff Only</Select.Option>
+              {can('create', 'staffNote') && (
+                <Select.Option value="staff_only">Staff Only</Select.Option>
+              )}
             </Select>
           </Form.Item>
           <div className="flex justify-end space-x-2">
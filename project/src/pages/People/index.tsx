@@ -3,12 +3,16 @@ import { Routes, Route } from 'react-router-dom';
 import PeopleList from './PeopleList';
 import PersonForm from './PersonForm';
 import PersonProfile from './PersonProfile';
+import Duplicates from './Duplicates';
+import MergePeople from './MergePeople';
 
 const PeopleRoutes: React.FC = () => {
   return (
     <Routes>
       <Route path="/" element={<PeopleList />} />
       <Route path="/new" element={<PersonForm mode="create" />} />
+      <Route path="/duplicates" element={<Duplicates />} />
+      <Route path="/merge" element={<MergePeople />} />
       <Route path="/:id" element={<PersonProfile />} />
       <Route path="/:id/edit" element={<PersonForm mode="edit" />} />
     </Routes>
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Button,
+  Upload,
+  Alert,
+  Descriptions,
+  Checkbox,
+  Popconfirm,
+  Progress,
+  Typography,
+  Space,
+  message,
+} from 'antd';
+import { DownloadOutlined, InboxOutlined, CloudUploadOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  BACKUP_ENTITIES,
+  BACKUP_ENTITY_LABELS,
+  createOrgBackup,
+  findExistingData,
+  getBackupCounts,
+  parseOrgBackup,
+  restoreOrgBackup,
+} from '../../utils/orgBackup';
+import type { BackupEntityName, OrgBackup, RestoreResult } from '../../utils/orgBackup';
+import { downloadBlob } from '../../utils/peopleExport';
+
+const { Title, Text } = Typography;
+const { Dragger } = Upload;
+
+const BackupPage: React.FC = () => {
+  const { organizationId, organizations } = useAuth();
+  const { can } = usePermissions();
+  const [backingUp, setBackingUp] = useState<BackupEntityName | null>(null);
+  const [backup, setBackup] = useState<OrgBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [existingData, setExistingData] = useState<BackupEntityName[] | null>(null);
+  const [includeTeam, setIncludeTeam] = useState(true);
+  const [restoreProgress, setRestoreProgress] = useState<number | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+
+  const organization = organizations.find(org => org._id === organizationId);
+
+  useEffect(() => {
+    setBackup(null);
+    setRestoreResult(null);
+    checkExistingData();
+  }, [organizationId]);
+
+  const checkExistingData = async () => {
+    try {
+      setExistingData(null);
+      setExistingData(await findExistingData());
+    } catch (error) {
+      console.error('Failed to check organization data:', error);
+    }
+  };
+
+  const handleBackup = async () => {
+    if (!organization) return;
+
+    try {
+      const archive = await createOrgBackup(organization, setBackingUp);
+      const slug = organization.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'organization';
+      downloadBlob(
+        new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }),
+        `${slug}-backup-${dayjs().format('YYYY-MM-DD')}.json`
+      );
+      message.success('Backup downloaded');
+    } catch (error) {
+      console.error('Backup failed:', error);
+      message.error('Failed to create backup');
+    } finally {
+      setBackingUp(null);
+    }
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      setBackup(parseOrgBackup(await file.text()));
+      setFileName(file.name);
+      setRestoreResult(null);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to read backup');
+    }
+    return false;
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    try {
+      setRestoreProgress(0);
+      const result = await restoreOrgBackup(backup, {
+        includeTeam,
+        onProgress: (restored, total) => setRestoreProgress(total > 0 ? Math.round((restored / total) * 100) : 100),
+      });
+      setRestoreResult(result);
+      setBackup(null);
+      message.success('Backup restored');
+    } catch (error) {
+      console.error('Restore failed:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setRestoreProgress(null);
+      checkExistingData();
+    }
+  };
+
+  if (!can('export', 'backup')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to back up this organization.</Text>
+      </div>
+    );
+  }
+
+  const counts = backup ? getBackupCounts(backup) : null;
+  const canRestore = can('import', 'backup') && existingData?.length === 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Title level={2} className="mb-0">Backup & Restore</Title>
+        <Text type="secondary">Snapshot this organization's data, or restore a snapshot into an empty organization</Text>
+      </div>
+
+      <Card title="Download Backup">
+        <Space direction="vertical" className="w-full">
+          <Text>
+            A JSON file with every{' '}
+            {BACKUP_ENTITIES.map(name => BACKUP_ENTITY_LABELS[name].toLowerCase()).join(', ')} record of{' '}
+            {organization?.name || 'this organization'}, staff-only notes and fields included. Keep it somewhere safe.
+          </Text>
+          <Button
+            type="primary"
+            icon={<DownloadOutlined />}
+            onClick={handleBackup}
+            loading={backingUp !== null}
+          >
+            {backingUp ? `Loading ${BACKUP_ENTITY_LABELS[backingUp].toLowerCase()}...` : 'Download Backup'}
+          </Button>
+        </Space>
+      </Card>
+
+      {can('import', 'backup') && (
+        <Card title="Restore Backup">
+          <Space direction="vertical" className="w-full">
+            {existingData && existingData.length > 0 && (
+              <Alert
+                type="warning"
+                showIcon
+                message="This organization already has data"
+                description={`Backups can only be restored into an empty organization. This one has ${existingData
+                  .map(name => BACKUP_ENTITY_LABELS[name].toLowerCase())
+                  .join(', ')}. Switch to an empty organization to restore.`}
+              />
+            )}
+
+            {restoreResult && (
+              <Alert
+                type="success"
+                showIcon
+                message="Backup restored"
+                description={
+                  <div>
+                    <div>
+                      {BACKUP_ENTITIES.filter(name => restoreResult.restored[name] > 0)
+                        .map(name => `${restoreResult.restored[name]} ${BACKUP_ENTITY_LABELS[name].toLowerCase()}`)
+                        .join(', ') || 'Nothing to restore'}
+                    </div>
+                    {restoreResult.skipped > 0 && (
+                      <div>{restoreResult.skipped} records were skipped because what they belong to is not in the backup.</div>
+                    )}
+                    {restoreResult.droppedReferences > 0 && (
+                      <div>{restoreResult.droppedReferences} links to records missing from the backup were cleared.</div>
+                    )}
+                  </div>
+                }
+              />
+            )}
+
+            <Dragger
+              beforeUpload={handleFileUpload}
+              showUploadList={false}
+              accept=".json,application/json"
+              disabled={restoreProgress !== null}
+            >
+              <p className="ant-upload-drag-icon">
+                <InboxOutlined />
+              </p>
+              <p className="ant-upload-text">Click or drag a backup file to this area</p>
+            </Dragger>
+
+            {backup && counts && (
+              <>
+                <Descriptions title={fileName} size="small" column={2} bordered>
+                  <Descriptions.Item label="Organization">{backup.organization.name}</Descriptions.Item>
+                  <Descriptions.Item label="Created">
+                    {dayjs(backup.exportedAt).format('MMM D, YYYY h:mm A')}
+                  </Descriptions.Item>
+                  {BACKUP_ENTITIES.map(name => (
+                    <Descriptions.Item key={name} label={BACKUP_ENTITY_LABELS[name]}>{counts[name]}</Descriptions.Item>
+                  ))}
+                </Descriptions>
+                <Checkbox checked={includeTeam} onChange={(e) => setIncludeTeam(e.target.checked)}>
+                  Restore team members and their roles
+                </Checkbox>
+                <Popconfirm
+                  title="Restore this backup?"
+                  description={`Everything in it will be added to ${organization?.name || 'this organization'}.`}
+                  onConfirm={handleRestore}
+                  okText="Restore"
+                  disabled={!canRestore}
+                >
+                  <Button
+                    type="primary"
+                    icon={<CloudUploadOutlined />}
+                    loading={restoreProgress !== null}
+                    disabled={!canRestore}
+                  >
+                    Restore Backup
+                  </Button>
+                </Popconfirm>
+              </>
+            )}
+
+            {restoreProgress !== null && (
+              <Progress percent={restoreProgress} status="active" />
+            )}
+          </Space>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BackupPage;
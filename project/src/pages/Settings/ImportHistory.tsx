@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Table,
+  Card,
+  Button,
+  Modal,
+  Tag,
+  Popconfirm,
+  Descriptions,
+  Typography,
+  Space,
+  Tooltip,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { RollbackOutlined, EyeOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { ImportBatch } from '../../entities/ImportBatch';
+import type { ImportBatch as ImportBatchType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { isBatchLive, rollbackImportBatch } from '../../utils/importBatches';
+import { IMPORT_MODE_LABELS } from '../../utils/importMatching';
+
+const { Title, Text } = Typography;
+
+const STATUS_COLORS: Record<ImportBatchType['status'], string> = {
+  running: 'processing',
+  completed: 'green',
+  rolled_back: 'default',
+};
+
+const STATUS_LABELS: Record<ImportBatchType['status'], string> = {
+  running: 'Running',
+  completed: 'Completed',
+  rolled_back: 'Rolled back',
+};
+
+// The per-record rollback data can be large, so the list leaves it out
+const LIST_FIELDS = [
+  'fileName',
+  'mode',
+  'matchKey',
+  'importedByName',
+  'status',
+  'createdCount',
+  'updatedCount',
+  'householdCount',
+  'skippedCount',
+  'rejectedCount',
+  'errorCount',
+  'rolledBackAt',
+  'createdAt',
+  'updatedAt',
+];
+
+const ImportHistoryPage: React.FC = () => {
+  const { user, organizationId } = useAuth();
+  const { can } = usePermissions();
+  const [batches, setBatches] = useState<ImportBatchType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [selectedBatch, setSelectedBatch] = useState<ImportBatchType | null>(null);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [organizationId]);
+
+  const fetchBatches = async () => {
+    try {
+      setLoading(true);
+      const response = await ImportBatch.query({ sort: '-createdAt', limit: 100, fields: LIST_FIELDS });
+      if (response.success) {
+        setBatches(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch import history:', error);
+      message.error('Failed to load import history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDetails = async (batchId: string) => {
+    try {
+      const response = await ImportBatch.get(batchId);
+      if (response.success) {
+        setSelectedBatch(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load import batch:', error);
+      message.error('Failed to load import details');
+    }
+  };
+
+  const handleRollback = async (batchId: string) => {
+    try {
+      setRollingBackId(batchId);
+      const response = await ImportBatch.get(batchId);
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Import batch not found');
+      }
+      // The list may be older than the import's latest save
+      if (isBatchLive(response.data)) {
+        throw new Error('This import is still running. Roll it back once it finishes.');
+      }
+
+      const result = await rollbackImportBatch(response.data, user?._id);
+      if (result.failed > 0) {
+        message.warning(
+          `Rolled back partially: ${result.restored} restored, ${result.removed} removed, ${result.failed} failed. Try again to finish.`
+        );
+      } else {
+        message.success(`Import rolled back: ${result.restored} people restored, ${result.removed} removed`);
+      }
+      await fetchBatches();
+    } catch (error) {
+      console.error('Failed to roll back import:', error);
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to roll back import');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const columns: ColumnsType<ImportBatchType> = [
+    {
+      title: 'Imported',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 170,
+      render: (date) => dayjs(date).format('MMM D, YYYY h:mm A'),
+    },
+    {
+      title: 'File',
+      dataIndex: 'fileName',
+      key: 'fileName',
+      render: (fileName, batch) => (
+        <div>
+          <div className="font-medium">{fileName}</div>
+          <Text type="secondary" className="text-xs">{IMPORT_MODE_LABELS[batch.mode]}</Text>
+        </div>
+      ),
+    },
+    {
+      title: 'Run By',
+      dataIndex: 'importedByName',
+      key: 'importedByName',
+      render: (name) => name || '-',
+    },
+    {
+      title: 'Results',
+      key: 'results',
+      render: (_, batch) => (
+        <Space size={4} wrap>
+          <Tag color="green">{batch.createdCount ?? 0} created</Tag>
+          <Tag color="blue">{batch.updatedCount ?? 0} updated</Tag>
+          {(batch.householdCount ?? 0) > 0 && <Tag color="purple">{batch.householdCount} households</Tag>}
+          {(batch.rejectedCount ?? 0) > 0 && <Tag color="red">{batch.rejectedCount} rejected</Tag>}
+          {(batch.errorCount ?? 0) > 0 && <Tag color="orange">{batch.errorCount} errors</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: ImportBatchType['status'], batch) => (
+        <div>
+          {status === 'running' && !isBatchLive(batch) ? (
+            <Tooltip title="This import was interrupted before it finished. Only the rows it saved before stopping can be rolled back.">
+              <Tag color="orange">Incomplete</Tag>
+            </Tooltip>
+          ) : (
+            <Tag color={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</Tag>
+          )}
+          {batch.rolledBackAt && (
+            <div className="text-xs text-gray-500">{dayjs(batch.rolledBackAt).format('MMM D, YYYY')}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 200,
+      render: (_, batch) => (
+        <Space>
+          <Button type="text" icon={<EyeOutlined />} onClick={() => openDetails(batch._id)} title="View details" />
+          {can('manage', 'importBatch') && isBatchLive(batch) && (
+            <Tooltip title="This import is still running. It can be rolled back once it finishes.">
+              <Button danger icon={<RollbackOutlined />} disabled>
+                Roll Back
+              </Button>
+            </Tooltip>
+          )}
+          {can('manage', 'importBatch') && batch.status !== 'rolled_back' && !isBatchLive(batch) && (
+            <Popconfirm
+              title="Roll back this import?"
+              description={
+                <div style={{ maxWidth: 280 }}>
+                  {batch.createdCount ?? 0} created people will be deleted and {batch.updatedCount ?? 0} updated
+                  people restored to their previous values.
+                  {(batch.householdCount ?? 0) > 0 && ` ${batch.householdCount} created households will be deleted.`}
+                  {' '}Edits made since the import are lost.
+                  {batch.status === 'running' && ' This import did not finish, so rows imported after its last save are not undone.'}
+                </div>
+              }
+              onConfirm={() => handleRollback(batch._id)}
+              okText="Roll Back"
+              okButtonProps={{ danger: true }}
+              cancelText="Cancel"
+            >
+              <Button danger icon={<RollbackOutlined />} loading={rollingBackId === batch._id}>
+                Roll Back
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (!can('view', 'importBatch')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to view import history.</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Title level={2} className="mb-0">Import History</Title>
+        <Text type="secondary">Every import run in this organization, with the option to undo it</Text>
+      </div>
+
+      <Card>
+        <Table
+          columns={columns}
+          dataSource={batches}
+          rowKey="_id"
+          loading={loading}
+          pagination={{ pageSize: 20, showSizeChanger: false }}
+          locale={{ emptyText: 'No imports yet' }}
+        />
+      </Card>
+
+      <Modal
+        title={selectedBatch?.fileName}
+        open={selectedBatch !== null}
+        onCancel={() => setSelectedBatch(null)}
+        footer={null}
+        width={640}
+      >
+        {selectedBatch && (
+          <div className="space-y-4">
+            <Descriptions column={1} size="small" bordered>
+              <Descriptions.Item label="Imported">
+                {dayjs(selectedBatch.createdAt).format('MMM D, YYYY h:mm A')} by {selectedBatch.importedByName || 'unknown'}
+              </Descriptions.Item>
+              <Descriptions.Item label="Mode">{IMPORT_MODE_LABELS[selectedBatch.mode]}</Descriptions.Item>
+              {selectedBatch.matchKey && (
+                <Descriptions.Item label="Matched On">{selectedBatch.matchKey}</Descriptions.Item>
+              )}
+              <Descriptions.Item label="Created">{selectedBatch.createdIds?.length ?? 0}</Descriptions.Item>
+              <Descriptions.Item label="Updated">{selectedBatch.updates?.length ?? 0}</Descriptions.Item>
+              {(selectedBatch.householdCount ?? 0) > 0 && (
+                <Descriptions.Item label="Households Created">{selectedBatch.createdHouseholdIds?.length ?? 0}</Descriptions.Item>
+              )}
+              <Descriptions.Item label="Skipped">{selectedBatch.skippedCount ?? 0}</Descriptions.Item>
+              <Descriptions.Item label="Rejected">{selectedBatch.rejectedCount ?? 0}</Descriptions.Item>
+            </Descriptions>
+            <Table
+              size="small"
+              pagination={false}
+              rowKey="column"
+              dataSource={Object.entries(selectedBatch.mapping || {})
+                .filter(([, field]) => field)
+                .map(([column, field]) => ({ column, field }))}
+              columns={[
+                { title: 'Column', dataIndex: 'column', key: 'column' },
+                { title: 'Mapped To', dataIndex: 'field', key: 'field' },
+              ]}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default ImportHistoryPage;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Table,
+  Card,
+  Button,
+  Modal,
+  Input,
+  Select,
+  Radio,
+  Space,
+  Popconfirm,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { ImportTemplate } from '../../entities/ImportTemplate';
+import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
+import type { ImportTemplate as ImportTemplateType, ProfileFieldDef as ProfileFieldDefType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { IMPORT_MODE_LABELS } from '../../utils/importMatching';
+import type { ImportMode } from '../../utils/importMatching';
+import type { MappingConfig } from '../../utils/importTemplates';
+import { getDerivedColumns } from '../../utils/importTransforms';
+import type { ColumnTransform } from '../../utils/importTransforms';
+import MappingFieldSelect from '../../components/ImportExport/MappingFieldSelect';
+import TransformEditor from '../../components/ImportExport/TransformEditor';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+interface TemplateDraft {
+  name: string;
+  mapping: MappingConfig;
+  transforms: ColumnTransform[];
+  mode: ImportMode;
+  matchKey: string;
+}
+
+const ImportTemplatesPage: React.FC = () => {
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
+  const [templates, setTemplates] = useState<ImportTemplateType[]>([]);
+  const [profileFields, setProfileFields] = useState<ProfileFieldDefType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingTemplate, setEditingTemplate] = useState<ImportTemplateType | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [organizationId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [templatesResponse, fieldsResponse] = await Promise.all([
+        ImportTemplate.queryAll({ sort: 'name' }),
+        ProfileFieldDef.query({ where: { archived: { $ne: true } }, sort: 'orderIndex' }),
+      ]);
+
+      if (templatesResponse.success) {
+        setTemplates(templatesResponse.data);
+      }
+      if (fieldsResponse.success) {
+        setProfileFields(fieldsResponse.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch import templates:', error);
+      message.error('Failed to load import templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditModal = (template: ImportTemplateType) => {
+    setEditingTemplate(template);
+    setDraft({
+      name: template.name,
+      mapping: { ...template.mapping },
+      transforms: template.transforms || [],
+      mode: template.mode || 'create',
+      matchKey: template.matchKey || 'email',
+    });
+  };
+
+  const closeEditModal = () => {
+    setEditingTemplate(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingTemplate || !draft) return;
+    if (!draft.name.trim()) {
+      message.warning('Please enter a template name');
+      return;
+    }
+
+    // Columns of removed split name transforms drop out of the mapping
+    const columns = [...editingTemplate.headers, ...getDerivedColumns(draft.transforms)];
+
+    try {
+      setSaving(true);
+      const response = await ImportTemplate.update(editingTemplate._id, {
+        name: draft.name.trim(),
+        mapping: Object.fromEntries(Object.entries(draft.mapping).filter(([column, field]) => field && columns.includes(column))),
+        transforms: draft.transforms.map(transform => ({
+          ...transform,
+          values: transform.values?.filter(entry => entry.from.trim()),
+        })),
+        mode: draft.mode,
+        matchKey: draft.mode === 'create' ? null : draft.matchKey,
+      });
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update template');
+      }
+      message.success('Template updated successfully');
+      closeEditModal();
+      await fetchData();
+    } catch (error) {
+      console.error('Failed to update template:', error);
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to update template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      const response = await ImportTemplate.delete(templateId);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to delete template');
+      }
+      message.success('Template deleted successfully');
+      await fetchData();
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      message.error(error instanceof Error && error.message ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const columns: ColumnsType<ImportTemplateType> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name) => <span className="font-medium">{name}</span>,
+    },
+    {
+      title: 'Columns',
+      key: 'columns',
+      render: (_, template) => (
+        <Text type="secondary">
+          {Object.values(template.mapping).filter(Boolean).length} of {template.headers.length} mapped
+          {(template.transforms?.length ?? 0) > 0 && `, ${template.transforms!.length} transforms`}
+        </Text>
+      ),
+    },
+    {
+      title: 'Mode',
+      dataIndex: 'mode',
+      key: 'mode',
+      render: (mode?: ImportMode) => IMPORT_MODE_LABELS[mode || 'create'],
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'updatedAt',
+      key: 'updatedAt',
+      render: (date) => dayjs(date).format('MMM D, YYYY'),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 120,
+      render: (_, template) => (
+        <Space>
+          {can('update', 'importTemplate') && (
+            <Button type="text" icon={<EditOutlined />} onClick={() => openEditModal(template)} />
+          )}
+          {can('delete', 'importTemplate') && (
+            <Popconfirm
+              title="Delete this template?"
+              onConfirm={() => handleDelete(template._id)}
+              okText="Delete"
+              cancelText="Cancel"
+            >
+              <Button type="text" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (!can('view', 'importTemplate')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to manage import templates.</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Title level={2} className="mb-0">Import Templates</Title>
+        <Text type="secondary">
+          Saved column mappings for recurring imports. Templates are created from the import dialog.
+        </Text>
+      </div>
+
+      <Card>
+        <Table
+          columns={columns}
+          dataSource={templates}
+          rowKey="_id"
+          loading={loading}
+          pagination={false}
+          locale={{ emptyText: 'No templates yet. Use "Save as Template" while importing.' }}
+        />
+      </Card>
+
+      <Modal
+        title="Edit Import Template"
+        open={editingTemplate !== null}
+        onOk={handleSave}
+        onCancel={closeEditModal}
+        okText="Save"
+        confirmLoading={saving}
+        width={760}
+      >
+        {editingTemplate && draft && (
+          <div className="space-y-4">
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+            />
+
+            <Card size="small" title="Import Mode">
+              <Space direction="vertical">
+                <Radio.Group value={draft.mode} onChange={(e) => setDraft({ ...draft, mode: e.target.value })}>
+                  {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(value => (
+                    <Radio key={value} value={value}>{IMPORT_MODE_LABELS[value]}</Radio>
+                  ))}
+                </Radio.Group>
+                {draft.mode !== 'create' && (
+                  <Space>
+                    <Text>Match existing people by</Text>
+                    <Select
+                      value={draft.matchKey}
+                      onChange={(matchKey) => setDraft({ ...draft, matchKey })}
+                      style={{ width: 220 }}
+                    >
+                      <Option value="email">Email</Option>
+                      <Option value="phone">Phone</Option>
+                      {profileFields
+                        .filter(field => ['text', 'email', 'phone', 'number'].includes(field.type))
+                        .map(field => (
+                          <Option key={field.key} value={`fields.${field.key}`}>{field.label}</Option>
+                        ))}
+                    </Select>
+                  </Space>
+                )}
+              </Space>
+            </Card>
+
+            <Card size="small" title="Column Mapping">
+              <Table
+                size="small"
+                pagination={false}
+                rowKey="column"
+                dataSource={[...editingTemplate.headers, ...getDerivedColumns(draft.transforms)].map(column => ({ column }))}
+                scroll={{ y: 300 }}
+                columns={[
+                  { title: 'Column', dataIndex: 'column', key: 'column' },
+                  {
+                    title: 'Mapped To',
+                    key: 'field',
+                    width: 280,
+                    render: (_, { column }) => (
+                      <MappingFieldSelect
+                        value={draft.mapping[column]}
+                        onChange={(field) => setDraft({ ...draft, mapping: { ...draft.mapping, [column]: field } })}
+                        profileFields={profileFields}
+                      />
+                    ),
+                  },
+                ]}
+              />
+            </Card>
+
+            <Card size="small" title="Value Transforms">
+              <TransformEditor
+                columns={editingTemplate.headers}
+                value={draft.transforms}
+                onChange={(transforms) => setDraft({ ...draft, transforms })}
+              />
+            </Card>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default ImportTemplatesPage;
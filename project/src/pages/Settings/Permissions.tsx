@@ -0,0 +1,84 @@
+import React from 'react';
+import { Table, Card, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  ROLES,
+  POLICY,
+  RESOURCE_LABELS,
+  ACTION_LABELS,
+} from '../../utils/permissions';
+import type { Resource } from '../../utils/permissions';
+
+const { Title, Text } = Typography;
+
+interface PermissionRow {
+  resource: Resource;
+}
+
+const PermissionsPage: React.FC = () => {
+  const { can, role } = usePermissions();
+
+  if (!can('view', 'settings')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to view settings.</Text>
+      </div>
+    );
+  }
+
+  const rows: PermissionRow[] = (Object.keys(RESOURCE_LABELS) as Resource[]).map(resource => ({ resource }));
+
+  const columns: ColumnsType<PermissionRow> = [
+    {
+      title: 'Resource',
+      key: 'resource',
+      width: 220,
+      render: (_, row) => <Text strong>{RESOURCE_LABELS[row.resource]}</Text>,
+    },
+    ...ROLES.map(columnRole => ({
+      title: (
+        <span>
+          {columnRole.charAt(0).toUpperCase() + columnRole.slice(1)}
+          {columnRole === role && <Text type="secondary"> (you)</Text>}
+        </span>
+      ),
+      key: columnRole,
+      render: (_: unknown, row: PermissionRow) => {
+        const actions = POLICY[columnRole][row.resource] || [];
+        if (actions.length === 0) {
+          return <Text type="secondary">—</Text>;
+        }
+        return (
+          <div className="flex flex-wrap gap-1">
+            {actions.map(action => (
+              <Tag key={action} color="green">{ACTION_LABELS[action]}</Tag>
+            ))}
+          </div>
+        );
+      },
+    })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Title level={2} className="mb-0">Permissions</Title>
+        <Text type="secondary">What each role is allowed to do in this organization</Text>
+      </div>
+
+      <Card>
+        <Table
+          columns={columns}
+          dataSource={rows}
+          rowKey="resource"
+          pagination={false}
+          scroll={{ x: 800 }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default PermissionsPage;
@@ -30,13 +30,15 @@ import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
 import { ProfileFieldDef } from '../../entities/ProfileFieldDef';
 import type { ProfileFieldDef as ProfileFieldDefType } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 const { TextArea } = Input;
 
 const ProfileFieldsPage: React.FC = () => {
-  const { userRole } = useAuth();
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
   const [fields, setFields] = useState<ProfileFieldDefType[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -47,7 +49,7 @@ const ProfileFieldsPage: React.FC = () => {
 
   useEffect(() => {
     fetchFields();
-  }, []);
+  }, [organizationId]);
 
   const fetchFields = async () => {
     try {
@@ -55,7 +57,7 @@ const ProfileFieldsPage: React.FC = () => {
       
       const response = await ProfileFieldDef.list();
       if (response.success) {
-        const fieldsData = Array.isArray(response.data) ? response.data : [response.data];
+        const fieldsData = response.data;
         setFields(fieldsData.sort((a, b) => a.orderIndex - b.orderIndex));
       }
     } catch (error) {
@@ -224,9 +226,9 @@ const ProfileFieldsPage: React.FC = () => {
   };
 
   const activeFields = fields.filter(field => !field.archived);
-  const canEdit = userRole === 'admin' || userRole === 'owner';
+  const canEdit = can('manage', 'profileField');
 
-  if (userRole === 'viewer' || userRole === 'member') {
+  if (!canEdit) {
     return (
       <div className="text-center py-12">
         <Title level={3}>Access Denied</Title>
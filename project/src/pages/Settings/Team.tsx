@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Table,
+  Card,
+  Button,
+  Modal,
+  Form,
+  Input,
+  Select,
+  message,
+  Space,
+  Tag,
+  Popconfirm,
+  Tooltip,
+  Typography,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  UserAddOutlined,
+  DeleteOutlined,
+  CopyOutlined,
+  StopOutlined,
+} from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { OrgMember } from '../../entities/OrgMember';
+import { OrgInvitation } from '../../entities/OrgInvitation';
+import type { OrgMember as OrgMemberType, OrgInvitation as OrgInvitationType } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  INVITATION_TTL_DAYS,
+  createInvitationToken,
+  getInvitationLink,
+  isInvitationExpired,
+} from '../../utils/invitations';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+type Role = OrgMemberType['role'];
+
+const ROLE_OPTIONS: { value: Role; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Full access, including managing owners' },
+  { value: 'admin', label: 'Admin', description: 'Manage people, settings and team members' },
+  { value: 'member', label: 'Member', description: 'View and edit people records' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' },
+];
+
+const ROLE_COLORS: Record<Role, string> = {
+  owner: 'gold',
+  admin: 'blue',
+  member: 'green',
+  viewer: 'default',
+};
+
+const TeamPage: React.FC = () => {
+  const { user, organizationId, refresh } = useAuth();
+  const { can } = usePermissions();
+  const [members, setMembers] = useState<OrgMemberType[]>([]);
+  const [invitations, setInvitations] = useState<OrgInvitationType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [form] = Form.useForm();
+
+  useEffect(() => {
+    fetchTeam();
+  }, [organizationId]);
+
+  const fetchTeam = async () => {
+    try {
+      setLoading(true);
+
+      const [membersResponse, invitationsResponse] = await Promise.all([
+        OrgMember.queryAll({ sort: 'name' }),
+        OrgInvitation.queryAll({ where: { status: 'pending' }, sort: '-createdAt' }),
+      ]);
+
+      if (membersResponse.success) {
+        setMembers(membersResponse.data);
+      }
+
+      if (invitationsResponse.success) {
+        setInvitations(invitationsResponse.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch team:', error);
+      message.error('Failed to load team members');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ownerCount = members.filter(member => member.role === 'owner').length;
+  const isOwner = can('manage', 'ownership');
+
+  // Guardrails: an organization always keeps an owner, and only owners can
+  // hand out or take away the owner role.
+  const getRoleChangeBlocker = (member: OrgMemberType, newRole: Role) => {
+    if (member.role === 'owner' && newRole !== 'owner' && ownerCount <= 1) {
+      return 'The last owner cannot be demoted. Promote another member to owner first.';
+    }
+    if ((member.role === 'owner' || newRole === 'owner') && !isOwner) {
+      return 'Only owners can grant or remove the owner role.';
+    }
+    return null;
+  };
+
+  const getRemovalBlocker = (member: OrgMemberType) => {
+    if (member.role === 'owner' && ownerCount <= 1) {
+      return 'The last owner cannot be removed.';
+    }
+    if (member.role === 'owner' && !isOwner) {
+      return 'Only owners can remove another owner.';
+    }
+    return null;
+  };
+
+  const handleRoleChange = async (member: OrgMemberType, newRole: Role) => {
+    const blocker = getRoleChangeBlocker(member, newRole);
+    if (blocker) {
+      message.warning(blocker);
+      return;
+    }
+
+    try {
+      const response = await OrgMember.update(member._id, { role: newRole });
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update role');
+      }
+      message.success('Role updated successfully');
+      if (member.userId === user?._id) {
+        // Our own permissions changed
+        await refresh();
+      } else {
+        await fetchTeam();
+      }
+    } catch (error) {
+      console.error('Failed to update role:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to update role');
+    }
+  };
+
+  const handleRemoveMember = async (member: OrgMemberType) => {
+    const blocker = getRemovalBlocker(member);
+    if (blocker) {
+      message.warning(blocker);
+      return;
+    }
+
+    try {
+      const response = await OrgMember.delete(member._id);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to remove member');
+      }
+      message.success('Member removed successfully');
+      if (member.userId === user?._id) {
+        await refresh();
+      } else {
+        await fetchTeam();
+      }
+    } catch (error) {
+      console.error('Failed to remove member:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to remove member');
+    }
+  };
+
+  const handleInvite = async (values: { email: string; role: Role }) => {
+    const email = values.email.trim().toLowerCase();
+
+    if (members.some(member => member.email?.toLowerCase() === email)) {
+      message.warning(`${email} is already a member of this organization`);
+      return;
+    }
+    if (invitations.some(invitation => invitation.email.toLowerCase() === email && !isInvitationExpired(invitation))) {
+      message.warning(`${email} already has a pending invitation`);
+      return;
+    }
+    if (values.role === 'owner' && !isOwner) {
+      message.warning('Only owners can invite another owner');
+      return;
+    }
+
+    try {
+      const response = await OrgInvitation.create({
+        email,
+        role: values.role,
+        token: createInvitationToken(),
+        status: 'pending',
+        invitedByUserId: user?._id,
+        expiresAt: dayjs().add(INVITATION_TTL_DAYS, 'day').toISOString(),
+      });
+
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to create invitation');
+      }
+
+      await copyInvitationLink(response.data);
+      form.resetFields();
+      setShowInviteModal(false);
+      await fetchTeam();
+    } catch (error) {
+      console.error('Failed to create invitation:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to create invitation');
+    }
+  };
+
+  const copyInvitationLink = async (invitation: OrgInvitationType) => {
+    const link = getInvitationLink(invitation.token);
+    try {
+      await navigator.clipboard.writeText(link);
+      message.success(`Invitation link for ${invitation.email} copied to clipboard`);
+    } catch {
+      Modal.info({
+        title: 'Invitation link',
+        content: <Text copyable>{link}</Text>,
+      });
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: string) => {
+    try {
+      const response = await OrgInvitation.update(invitationId, { status: 'revoked' });
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to revoke invitation');
+      }
+      message.success('Invitation revoked');
+      await fetchTeam();
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    }
+  };
+
+  const memberColumns: ColumnsType<OrgMemberType> = [
+    {
+      title: 'Member',
+      key: 'member',
+      render: (_, member) => (
+        <div>
+          <div className="font-medium">
+            {member.name || member.email || member.userId}
+            {member.userId === user?._id && <Text type="secondary"> (you)</Text>}
+          </div>
+          {member.name && member.email && <Text type="secondary">{member.email}</Text>}
+        </div>
+      ),
+    },
+    {
+      title: 'Role',
+      key: 'role',
+      width: 180,
+      render: (_, member) => (
+        <Select
+          value={member.role}
+          onChange={(value) => handleRoleChange(member, value)}
+          style={{ width: 140 }}
+          size="small"
+        >
+          {ROLE_OPTIONS.map(option => (
+            <Option
+              key={option.value}
+              value={option.value}
+              disabled={getRoleChangeBlocker(member, option.value) !== null}
+            >
+              <Tag color={ROLE_COLORS[option.value]}>{option.label}</Tag>
+            </Option>
+          ))}
+        </Select>
+      ),
+    },
+    {
+      title: 'Joined',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date) => new Date(date).toLocaleDateString(),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 80,
+      render: (_, member) => {
+        const blocker = getRemovalBlocker(member);
+        return (
+          <Tooltip title={blocker}>
+            <Popconfirm
+              title={member.userId === user?._id ? 'Leave this organization?' : 'Remove this member?'}
+              onConfirm={() => handleRemoveMember(member)}
+              disabled={blocker !== null}
+              okText="Remove"
+              cancelText="Cancel"
+            >
+              <Button type="text" danger icon={<DeleteOutlined />} disabled={blocker !== null} />
+            </Popconfirm>
+          </Tooltip>
+        );
+      },
+    },
+  ];
+
+  const invitationColumns: ColumnsType<OrgInvitationType> = [
+    {
+      title: 'Email',
+      dataIndex: 'email',
+      key: 'email',
+    },
+    {
+      title: 'Role',
+      dataIndex: 'role',
+      key: 'role',
+      render: (role: Role) => <Tag color={ROLE_COLORS[role]}>{role.toUpperCase()}</Tag>,
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiresAt',
+      key: 'expiresAt',
+      render: (_, invitation) => isInvitationExpired(invitation)
+        ? <Tag color="red">Expired</Tag>
+        : new Date(invitation.expiresAt).toLocaleDateString(),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 120,
+      render: (_, invitation) => (
+        <Space>
+          <Button
+            type="text"
+            icon={<CopyOutlined />}
+            onClick={() => copyInvitationLink(invitation)}
+            disabled={isInvitationExpired(invitation)}
+            title="Copy invitation link"
+          />
+          <Popconfirm
+            title="Revoke this invitation?"
+            onConfirm={() => handleRevokeInvitation(invitation._id)}
+            okText="Revoke"
+            cancelText="Cancel"
+          >
+            <Button type="text" danger icon={<StopOutlined />} title="Revoke invitation" />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  if (!can('manage', 'team')) {
+    return (
+      <div className="text-center py-12">
+        <Title level={3}>Access Denied</Title>
+        <Text type="secondary">You don't have permission to manage team members.</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Title level={2} className="mb-0">Team</Title>
+          <Text type="secondary">Manage who can access this organization and what they can do</Text>
+        </div>
+        <Button type="primary" icon={<UserAddOutlined />} onClick={() => setShowInviteModal(true)}>
+          Invite Member
+        </Button>
+      </div>
+
+      <Card title={`Members (${members.length})`}>
+        <Table
+          columns={memberColumns}
+          dataSource={members}
+          rowKey="_id"
+          loading={loading}
+          pagination={false}
+        />
+      </Card>
+
+      <Card title={`Pending Invitations (${invitations.length})`}>
+        <Table
+          columns={invitationColumns}
+          dataSource={invitations}
+          rowKey="_id"
+          loading={loading}
+          pagination={false}
+          locale={{ emptyText: 'No pending invitations' }}
+        />
+      </Card>
+
+      {/* Invite Member Modal */}
+      <Modal
+        title="Invite Member"
+        open={showInviteModal}
+        onCancel={() => {
+          setShowInviteModal(false);
+          form.resetFields();
+        }}
+        footer={null}
+      >
+        <Form form={form} layout="vertical" onFinish={handleInvite} initialValues={{ role: 'member' }}>
+          <Form.Item
+            name="email"
+            label="Email"
+            rules={[
+              { required: true, message: 'Please enter an email address' },
+              { type: 'email', message: 'Please enter a valid email address' },
+            ]}
+          >
+            <Input placeholder="name@example.com" />
+          </Form.Item>
+          <Form.Item name="role" label="Role" rules={[{ required: true, message: 'Please select a role' }]}>
+            <Select>
+              {ROLE_OPTIONS.filter(option => option.value !== 'owner' || isOwner).map(option => (
+                <Option key={option.value} value={option.value}>
+                  {option.label} <Text type="secondary">- {option.description}</Text>
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Text type="secondary" className="block mb-4">
+            A sign-up link is copied to your clipboard. It expires in {INVITATION_TTL_DAYS} days and
+            only works for this email address.
+          </Text>
+          <div className="flex justify-end space-x-2">
+            <Button onClick={() => {
+              setShowInviteModal(false);
+              form.resetFields();
+            }}>
+              Cancel
+            </Button>
+            <Button type="primary" htmlType="submit">
+              Create Invitation
+            </Button>
+          </div>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default TeamPage;
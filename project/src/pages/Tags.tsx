@@ -16,11 +16,12 @@ import {
   Col,
 } from 'antd';
 import { PlusOutlined, EditOutlined, DeleteOutlined, EyeOutlined } from '@ant-design/icons';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Tag as TagEntity } from '../entities/Tag';
 import { Person } from '../entities/Person';
-import type { Tag as TagType, Person as PersonType } from '../types';
+import type { Tag as TagType } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
 
 const { Title, Text } = Typography;
 
@@ -30,7 +31,9 @@ interface TagWithCount extends TagType {
 
 const TagsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { userRole } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { organizationId } = useAuth();
+  const { can } = usePermissions();
   const [tags, setTags] = useState<TagWithCount[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -40,42 +43,42 @@ const TagsPage: React.FC = () => {
 
   useEffect(() => {
     fetchTags();
-  }, []);
+  }, [organizationId]);
+
+  // The command palette links here to create one straight away
+  useEffect(() => {
+    if (searchParams.get('new') !== '1') return;
+    if (can('create', 'tag')) {
+      setShowCreateModal(true);
+    }
+    setSearchParams(params => {
+      params.delete('new');
+      return params;
+    }, { replace: true });
+  }, [searchParams]);
 
   const fetchTags = async () => {
     try {
       setLoading(true);
       
-      const [tagsResponse, peopleResponse] = await Promise.all([
-        TagEntity.list(),
-        Person.list(),
-      ]);
+      const tagsResponse = await TagEntity.list();
 
-      console.log('Tags response:', tagsResponse);
-      console.log('People response:', peopleResponse);
+      if (tagsResponse.success) {
+        const tagsData: TagType[] = tagsResponse.data;
 
-      if (tagsResponse.success && peopleResponse.success) {
-        const tagsData = Array.isArray(tagsResponse.data) ? tagsResponse.data : (tagsResponse.data ? [tagsResponse.data] : []);
-        const peopleData = Array.isArray(peopleResponse.data) ? peopleResponse.data : (peopleResponse.data ? [peopleResponse.data] : []);
-        
-        console.log('Tags data:', tagsData);
-        console.log('People data:', peopleData);
-        
-        // Count people for each tag
-        const tagsWithCounts = tagsData.map(tag => {
-          const peopleCount = peopleData.filter(person => person.tagIds && person.tagIds.includes(tag._id)).length;
-          return { ...tag, peopleCount };
-        });
+        // Count people for each tag on the server instead of loading everyone
+        const tagsWithCounts = await Promise.all(tagsData.map(async tag => {
+          const peopleResponse = await Person.query({
+            where: { tagIds: tag._id, archived: { $ne: true } },
+            limit: 1,
+            fields: ['_id'],
+          });
+          return { ...tag, peopleCount: peopleResponse.success ? peopleResponse.count ?? 0 : 0 };
+        }));
         
         setTags(tagsWithCounts.sort((a, b) => b.peopleCount - a.peopleCount));
       } else {
-        console.log('API responses not successful:', { tagsResponse, peopleResponse });
-        if (!tagsResponse.success) {
-          message.error('Failed to load tags: ' + (tagsResponse.message || 'Unknown error'));
-        }
-        if (!peopleResponse.success) {
-          message.error('Failed to load people: ' + (peopleResponse.message || 'Unknown error'));
-        }
+        message.error('Failed to load tags: ' + (tagsResponse.message || 'Unknown error'));
       }
     } catch (error) {
       console.error('Failed to fetch tags:', error);
@@ -154,7 +157,8 @@ const TagsPage: React.FC = () => {
     navigate(`/people?tagIds=${tagId}`);
   };
 
-  const canEdit = userRole !== 'viewer';
+  const canEdit = can('update', 'tag');
+  const canDelete = can('delete', 'tag');
 
   return (
     <div className="space-y-6">
@@ -163,7 +167,7 @@ const TagsPage: React.FC = () => {
           <Title level={2} className="mb-0">Tags</Title>
           <Text type="secondary">Manage tags for organizing people</Text>
         </div>
-        {canEdit && (
+        {can('create', 'tag') && (
           <Button type="primary" icon={<PlusOutlined />} onClick={() => setShowCreateModal(true)}>
             Create Tag
           </Button>
@@ -194,6 +198,8 @@ const TagsPage: React.FC = () => {
                         onClick={() => openEditModal(tag)}
                         title="Edit tag"
                       />,
+                    ] : []),
+                    ...(canDelete ? [
                       <Popconfirm
                         title={tag.peopleCount > 0 ? 
                           `This tag is used by ${tag.peopleCount} people. Remove it from all people first.` : 
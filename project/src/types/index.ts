@@ -1,82 +1,21 @@
-export interface Organization {
-  _id: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface OrgMember {
-  _id: string;
-  organizationId: string;
-  userId: string;
-  role: 'owner' | 'admin' | 'member' | 'viewer';
-  createdAt: string;
-}
-
-export interface ProfileFieldDef {
-  _id: string;
-  organizationId: string;
-  key: string;
-  label: string;
-  type: 'text' | 'textarea' | 'number' | 'date' | 'checkbox' | 'select' | 'multiselect' | 'email' | 'phone' | 'url';
-  options?: { value: string; label: string }[];
-  required: boolean;
-  visibility: 'public' | 'staff_only';
-  archived: boolean;
-  orderIndex: number;
-  createdAt: string;
-  updatedAt: string;
-}
+import type { Organization } from '../entities/Organization';
+import type { OrgMember } from '../entities/OrgMember';
 
-export interface Person {
-  _id: string;
-  organizationId: string;
-  firstName: string;
-  lastName: string;
-  preferredName?: string;
-  email?: string;
-  phone?: string;
-  status: 'active' | 'inactive' | 'visitor';
-  fields: Record<string, any>;
-  householdId?: string;
-  tagIds: string[];
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Household {
-  _id: string;
-  organizationId: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface HouseholdMember {
-  _id: string;
-  organizationId: string;
-  householdId: string;
-  personId: string;
-  relationship: 'head' | 'spouse' | 'child' | 'other';
-}
-
-export interface Tag {
-  _id: string;
-  organizationId: string;
-  name: string;
-  color?: string;
-  createdAt: string;
-}
-
-export interface Note {
-  _id: string;
-  organizationId: string;
-  personId: string;
-  authorUserId: string;
-  body: string;
-  visibility: 'staff_only' | 'org';
-  createdAt: string;
-}
+// Entity interfaces are generated from src/entities/*.json by
+// scripts/generateEntityStubs.js; the JSON schemas are the source of truth.
+export type { Organization } from '../entities/Organization';
+export type { OrgMember } from '../entities/OrgMember';
+export type { OrgInvitation } from '../entities/OrgInvitation';
+export type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+export type { Person } from '../entities/Person';
+export type { Household } from '../entities/Household';
+export type { HouseholdMember } from '../entities/HouseholdMember';
+export type { Tag } from '../entities/Tag';
+export type { Note } from '../entities/Note';
+export type { ImportBatch } from '../entities/ImportBatch';
+export type { ImportTemplate } from '../entities/ImportTemplate';
+export type { SavedView } from '../entities/SavedView';
+export type { UserPreference } from '../entities/UserPreference';
 
 export interface User {
   _id: string;
@@ -87,11 +26,21 @@ export interface User {
   updatedAt: string;
 }
 
+export interface OrgMembership {
+  memberId: string;
+  organization: Organization;
+  role: OrgMember['role'];
+}
+
 export interface AuthContext {
   user: User | null;
   organizationId: string;
-  userRole: 'owner' | 'admin' | 'member' | 'viewer';
+  userRole: OrgMember['role'];
   organizations: Organization[];
+  memberships: OrgMembership[];
+  switchOrganization: (organizationId: string) => void;
+  refresh: () => Promise<void>;
+  logout: () => Promise<void>;
 }
 
 export interface ApiResponse<T> {
@@ -101,4 +50,17 @@ export interface ApiResponse<T> {
   count?: number;
   projectId?: string;
   collection?: string;
-}
\ No newline at end of file
+}
+
+export interface QueryOptions {
+  where?: Record<string, any>;
+  sort?: string;
+  limit?: number;
+  cursor?: string | null;
+  fields?: string[];
+  allOrganizations?: boolean;
+}
+
+export interface PagedResponse<T> extends ApiResponse<T[]> {
+  nextCursor?: string | null;
+}
@@ -0,0 +1,36 @@
+import manifestConfig from '../../manifest.config.json';
+import type { User } from '../types';
+
+const AUTH_BASE_URL = 'https://db.madewithmanifest.com/auth';
+
+// Returns the signed-in user for this app, or null when there is no session
+// (or the session belongs to a different Manifest app).
+export const fetchSessionUser = async (): Promise<User | null> => {
+  const res = await fetch(`${AUTH_BASE_URL}/user`, {
+    credentials: 'include',
+  });
+  if (!res.ok) return null;
+
+  const data = await res.json();
+  if (data.appId !== manifestConfig.appId || !data.user) return null;
+
+  const { user } = data;
+  return {
+    _id: user._id ?? user.id,
+    email: user.email,
+    name: user.name,
+    imageUrl: user.imageUrl ?? user.picture,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+};
+
+export const getLoginUrl = (redirectUrl = window.location.href) =>
+  `${AUTH_BASE_URL}/google?appId=${manifestConfig.appId}&redirectUrl=${encodeURIComponent(redirectUrl)}`;
+
+export const signOut = async () => {
+  await fetch(`${AUTH_BASE_URL}/logout`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+};
@@ -0,0 +1,213 @@
+// Bulk edits of selected people. People are handled in chunks: each chunk is
+// loaded with one query, then updated a few requests at a time, so thousands
+// of selected people never flood the backend and progress is reported as
+// rows finish. Every row records its own outcome instead of failing the run.
+import { Person } from '../entities/Person';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import type { HouseholdRelationship } from './households';
+
+export type BulkEdit =
+  | { type: 'status'; status: Person['status'] }
+  | { type: 'addTags'; tagIds: string[] }
+  | { type: 'removeTags'; tagIds: string[] }
+  | { type: 'setField'; fieldKey: string; value: unknown }
+  | { type: 'clearField'; fieldKey: string }
+  | { type: 'household'; householdId: string; relationship: HouseholdRelationship }
+  | { type: 'archive' };
+
+export type BulkEditType = BulkEdit['type'];
+
+export const BULK_EDIT_LABELS: Record<BulkEditType, string> = {
+  status: 'Set Status',
+  addTags: 'Add Tags',
+  removeTags: 'Remove Tags',
+  setField: 'Set Field',
+  clearField: 'Clear Field',
+  household: 'Assign Household',
+  archive: 'Archive',
+};
+
+// People loaded per query
+export const BULK_CHUNK_SIZE = 100;
+
+// Updates in flight at once
+export const BULK_CONCURRENCY = 4;
+
+export type BulkOutcome = 'updated' | 'unchanged' | 'failed';
+
+export interface BulkRowResult {
+  personId: string;
+  // Empty when the person could not be loaded
+  name: string;
+  outcome: BulkOutcome;
+  error?: string;
+}
+
+type BulkPerson = Pick<Person, '_id' | 'firstName' | 'lastName' | 'status' | 'tagIds' | 'fields' | 'householdId' | 'archived'>;
+
+const BULK_PERSON_FIELDS = ['firstName', 'lastName', 'status', 'tagIds', 'fields', 'householdId', 'archived'];
+
+// Runs worker on every item with at most `concurrency` running at once.
+// Results are in the order of the items.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+};
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// The update that applies the edit to the person, or null when it would
+// change nothing. Household assignments are handled separately.
+export const getBulkChanges = (person: BulkPerson, edit: BulkEdit): Partial<Person> | null => {
+  const tagIds = person.tagIds || [];
+  const fields = person.fields || {};
+
+  switch (edit.type) {
+    case 'status':
+      return person.status === edit.status ? null : { status: edit.status };
+    case 'addTags': {
+      const added = edit.tagIds.filter(tagId => !tagIds.includes(tagId));
+      return added.length > 0 ? { tagIds: [...tagIds, ...added] } : null;
+    }
+    case 'removeTags': {
+      const kept = tagIds.filter(tagId => !edit.tagIds.includes(tagId));
+      return kept.length < tagIds.length ? { tagIds: kept } : null;
+    }
+    case 'setField':
+      return JSON.stringify(fields[edit.fieldKey]) === JSON.stringify(edit.value)
+        ? null
+        : { fields: { ...fields, [edit.fieldKey]: edit.value } };
+    case 'clearField': {
+      if (isEmptyValue(fields[edit.fieldKey])) return null;
+      const { [edit.fieldKey]: _cleared, ...rest } = fields;
+      return { fields: rest };
+    }
+    case 'archive':
+      return person.archived ? null : { archived: true };
+    default:
+      return null;
+  }
+};
+
+// Moves the person into the household, leaving any other one, the same way
+// an import does
+const assignHousehold = async (
+  person: BulkPerson,
+  memberships: HouseholdMember[],
+  householdId: string,
+  relationship: HouseholdRelationship
+): Promise<BulkOutcome> => {
+  const isMember = memberships.some(membership => membership.householdId === householdId);
+  if (isMember && person.householdId === householdId) return 'unchanged';
+
+  for (const membership of memberships) {
+    if (membership.householdId === householdId) continue;
+    const response = await HouseholdMember.delete(membership._id);
+    if (!response.success) throw new Error(response.message || 'Failed to leave the previous household');
+  }
+
+  if (!isMember) {
+    const response = await HouseholdMember.create({ householdId, personId: person._id, relationship });
+    if (!response.success) throw new Error(response.message || 'Failed to join the household');
+  }
+
+  if (person.householdId !== householdId) {
+    const response = await Person.update(person._id, { householdId });
+    if (!response.success) throw new Error(response.message || 'Failed to update the person');
+  }
+  return 'updated';
+};
+
+const loadChunk = async (personIds: string[], edit: BulkEdit) => {
+  const [peopleResponse, membersResponse] = await Promise.all([
+    Person.queryAll({ where: { _id: { $in: personIds } }, fields: BULK_PERSON_FIELDS }),
+    edit.type === 'household'
+      ? HouseholdMember.queryAll({ where: { personId: { $in: personIds } }, fields: ['householdId', 'personId', 'relationship'] })
+      : null,
+  ]);
+  if (!peopleResponse.success) throw new Error(peopleResponse.message || 'Failed to load people');
+  if (membersResponse && !membersResponse.success) throw new Error(membersResponse.message || 'Failed to load households');
+
+  const membershipsByPerson = new Map<string, HouseholdMember[]>();
+  membersResponse?.data.forEach(membership => {
+    membershipsByPerson.set(membership.personId, [...(membershipsByPerson.get(membership.personId) || []), membership]);
+  });
+  return {
+    people: new Map(peopleResponse.data.map(person => [person._id, person as BulkPerson])),
+    membershipsByPerson,
+  };
+};
+
+// Applies the edit to every person, calling onProgress as rows finish.
+// Results are in the order of personIds.
+export const runBulkEdit = async (
+  personIds: string[],
+  edit: BulkEdit,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkRowResult[]> => {
+  const results: BulkRowResult[] = [];
+  let done = 0;
+  const finish = (count: number) => {
+    done += count;
+    onProgress?.(done, personIds.length);
+  };
+
+  for (let offset = 0; offset < personIds.length; offset += BULK_CHUNK_SIZE) {
+    const chunk = personIds.slice(offset, offset + BULK_CHUNK_SIZE);
+
+    let loaded: Awaited<ReturnType<typeof loadChunk>>;
+    try {
+      loaded = await loadChunk(chunk, edit);
+    } catch (error) {
+      // The rest of the selection may still go through
+      const reason = error instanceof Error ? error.message : 'Failed to load people';
+      results.push(...chunk.map((personId): BulkRowResult => ({ personId, name: '', outcome: 'failed', error: reason })));
+      finish(chunk.length);
+      continue;
+    }
+
+    const rows = await runWithConcurrency(chunk, BULK_CONCURRENCY, async (personId): Promise<BulkRowResult> => {
+      const person = loaded.people.get(personId);
+      let row: BulkRowResult;
+      if (!person) {
+        row = { personId, name: '', outcome: 'failed', error: 'This person no longer exists' };
+      } else {
+        const name = `${person.firstName} ${person.lastName}`.trim();
+        try {
+          let outcome: BulkOutcome;
+          if (edit.type === 'household') {
+            outcome = await assignHousehold(person, loaded.membershipsByPerson.get(personId) || [], edit.householdId, edit.relationship);
+          } else {
+            const changes = getBulkChanges(person, edit);
+            if (changes) {
+              const response = await Person.update(personId, changes);
+              if (!response.success) throw new Error(response.message || 'Failed to update the person');
+            }
+            outcome = changes ? 'updated' : 'unchanged';
+          }
+          row = { personId, name, outcome };
+        } catch (error) {
+          row = { personId, name, outcome: 'failed', error: error instanceof Error ? error.message : 'Update failed' };
+        }
+      }
+      finish(1);
+      return row;
+    });
+    results.push(...rows);
+  }
+
+  return results;
+};
@@ -0,0 +1,61 @@
+// Column layout of the people list: which columns show, in what order, how
+// wide, and which stay pinned to the left. Each user has their own layout in
+// each organization.
+import { getUserPreference, setUserPreference } from './userPreferences';
+
+export interface ColumnLayout {
+  // Every column key in display order, hidden columns included
+  order: string[];
+  visible: string[];
+  // Widths in pixels of the columns that were resized
+  widths: Record<string, number>;
+  // Pinned columns come first and stay in view while the table scrolls sideways
+  pinned: string[];
+}
+
+export const CORE_COLUMN_LABELS: Record<string, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  status: 'Status',
+  tags: 'Tags',
+  household: 'Household',
+};
+
+export const CORE_COLUMNS = Object.keys(CORE_COLUMN_LABELS);
+
+export const DEFAULT_VISIBLE_COLUMNS = ['name', 'email', 'phone', 'status', 'tags', 'household'];
+
+export const MIN_COLUMN_WIDTH = 80;
+
+const PREFERENCE_KEY = 'peopleList.columns';
+
+export const createDefaultColumnLayout = (): ColumnLayout => ({
+  order: [...CORE_COLUMNS],
+  visible: [...DEFAULT_VISIBLE_COLUMNS],
+  widths: {},
+  pinned: [],
+});
+
+// Fits a stored layout's order to the columns that exist now: columns of
+// archived profile fields are dropped and new ones are added at the end, and
+// pinned columns are moved ahead of the rest. Visible columns and widths are
+// kept as stored, since profile fields may not have loaded yet.
+export const normalizeColumnLayout = (layout: Partial<ColumnLayout> | undefined, columnKeys: string[]): ColumnLayout => {
+  const known = new Set(columnKeys);
+  const stored = (layout?.order || []).filter(key => known.has(key));
+  const order = [...new Set([...stored, ...columnKeys])];
+  const pinned = (layout?.pinned || []).filter(key => known.has(key));
+
+  return {
+    order: [...order.filter(key => pinned.includes(key)), ...order.filter(key => !pinned.includes(key))],
+    visible: layout?.visible || DEFAULT_VISIBLE_COLUMNS,
+    widths: layout?.widths || {},
+    pinned: order.filter(key => pinned.includes(key)),
+  };
+};
+
+export const loadColumnLayout = (userId: string) => getUserPreference<Partial<ColumnLayout>>(userId, PREFERENCE_KEY);
+
+export const saveColumnLayout = (userId: string, layout: ColumnLayout) =>
+  setUserPreference(userId, PREFERENCE_KEY, layout);
@@ -0,0 +1,57 @@
+// Items of the command palette and the recently opened ones, which are kept
+// in the browser per user and organization.
+import { foldText } from './personSearch';
+
+export type CommandGroup = 'recent' | 'actions' | 'people' | 'households' | 'tags' | 'notes' | 'pages';
+
+export const COMMAND_GROUP_LABELS: Record<CommandGroup, string> = {
+  recent: 'Recent',
+  actions: 'Actions',
+  people: 'People',
+  households: 'Households',
+  tags: 'Tags',
+  notes: 'Notes',
+  pages: 'Pages',
+};
+
+// Records and pages that can be opened and remembered as recent
+export type RecentKind = 'person' | 'household' | 'tag' | 'note' | 'page';
+
+export interface RecentItem {
+  kind: RecentKind;
+  label: string;
+  detail?: string;
+  path: string;
+}
+
+const MAX_RECENT_ITEMS = 8;
+
+const recentKey = (userId: string, organizationId: string) => `commandPalette.recent.${userId}.${organizationId}`;
+
+export const loadRecentItems = (userId: string, organizationId: string): RecentItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentKey(userId, organizationId)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Moves the item to the front, dropping the oldest beyond the limit
+export const addRecentItem = (userId: string, organizationId: string, item: RecentItem) => {
+  const items = [item, ...loadRecentItems(userId, organizationId).filter(recent => recent.path !== item.path)]
+    .slice(0, MAX_RECENT_ITEMS);
+  localStorage.setItem(recentKey(userId, organizationId), JSON.stringify(items));
+  return items;
+};
+
+// Whether every word of the query starts a word of the text, ignoring case
+// and accents, so "imp hist" finds "Import History"
+export const matchesCommand = (query: string, text: string) => {
+  const words = foldText(text).split(' ');
+  return foldText(query).split(' ').every(queryWord => words.some(word => word.startsWith(queryWord)));
+};
+
+export const PALETTE_SHORTCUT_LABEL = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+  ? '⌘K'
+  : 'Ctrl+K';
@@ -0,0 +1,297 @@
+// RFC 4180 CSV reading and writing.
+//
+// The parser is incremental: text is fed in chunks and state (open quotes, a
+// trailing CR) carries across chunk boundaries, so files are decoded and
+// parsed straight from File.stream() and the event loop gets a turn between
+// chunks.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  // The line of the file each row starts on
+  lineNumbers: number[];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+}
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter;
+  onProgress?: (fraction: number) => void;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Chunk size used when splitting in-memory text, roughly what File.stream()
+// hands out per read.
+const TEXT_CHUNK_SIZE = 64 * 1024;
+
+class InvalidEncodingError extends Error {}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export interface CsvRecord {
+  values: string[];
+  // The line of the file the record starts on. Quoted fields may run on.
+  line: number;
+}
+
+export const createCsvParser = (delimiter: CsvDelimiter) => {
+  let row: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let quotePending = false;
+  let pendingCR = false;
+  let line = 1;
+  let rowLine = 1;
+  let lastWasCR = false;
+  let rows: CsvRecord[] = [];
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    // Blank lines are not records
+    if (!(row.length === 1 && row[0] === '')) {
+      rows.push({ values: row, line: rowLine });
+    }
+    row = [];
+    rowLine = line;
+  };
+
+  const takeRows = () => {
+    const completed = rows;
+    rows = [];
+    return completed;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // CR, LF and CRLF each end a line, inside quotes or not
+      if (char === '\r' || (char === '\n' && !lastWasCR)) {
+        line++;
+      }
+      lastWasCR = char === '\r';
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            // "" inside a quoted field is a literal quote
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (char === '"') {
+            quotePending = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '' && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r') {
+        endRow();
+        pendingCR = true;
+      } else if (char === '\n') {
+        endRow();
+      } else {
+        // Stray quotes in unquoted fields are kept as-is
+        field += char;
+      }
+    }
+    return takeRows();
+  };
+
+  const end = () => {
+    if (row.length > 0 || field !== '' || fieldQuoted) {
+      endRow();
+    }
+    inQuotes = false;
+    quotePending = false;
+    return takeRows();
+  };
+
+  return { push, end };
+};
+
+// Picks the delimiter that occurs most often outside quotes on the first line.
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    counts.get(delimiter)! > counts.get(best)! ? delimiter : best
+  );
+};
+
+const sniffEncoding = async (file: Blob): Promise<CsvEncoding> => {
+  const bytes = new Uint8Array(await file.slice(0, 3).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return 'utf-8';
+};
+
+// Decodes the file chunk by chunk. UTF-8 is decoded strictly so that legacy
+// Latin-1/Windows-1252 exports fail fast and can be retried.
+async function* decodeFile(file: Blob, encoding: CsvEncoding) {
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+
+  const decode = (value?: Uint8Array) => {
+    try {
+      return value ? decoder.decode(value, { stream: true }) : decoder.decode();
+    } catch {
+      throw new InvalidEncodingError(`File is not valid ${encoding}`);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        yield { text: decode(), bytesRead };
+        return;
+      }
+      bytesRead += value.byteLength;
+      yield { text: decode(value), bytesRead };
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Duplicate or blank headers would overwrite each other in the row records.
+export const uniqueHeaders = (headers: string[]) => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+};
+
+export const toRecords = (headers: string[], rows: string[][]) =>
+  rows.map(values => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = values[index] ?? '';
+    });
+    return record;
+  });
+
+const parseChunks = async (
+  chunks: AsyncIterable<{ text: string; bytesRead: number }>,
+  totalBytes: number,
+  options: CsvParseOptions
+) => {
+  let parser: ReturnType<typeof createCsvParser> | null = null;
+  let delimiter = options.delimiter;
+  const rows: CsvRecord[] = [];
+  const append = (completed: CsvRecord[]) => {
+    completed.forEach(row => rows.push(row));
+  };
+
+  for await (const { text, bytesRead } of chunks) {
+    if (!parser) {
+      if (text === '') continue;
+      const withoutBom = text.replace(/^\uFEFF/, '');
+      delimiter = delimiter || detectDelimiter(withoutBom);
+      parser = createCsvParser(delimiter);
+      append(parser.push(withoutBom));
+    } else {
+      append(parser.push(text));
+    }
+    options.onProgress?.(totalBytes > 0 ? Math.min(bytesRead / totalBytes, 1) : 1);
+    await yieldToEventLoop();
+  }
+
+  if (parser) {
+    append(parser.end());
+  }
+
+  return { rows, delimiter: delimiter || ',' };
+};
+
+const buildResult = (rows: CsvRecord[], delimiter: CsvDelimiter, encoding: CsvEncoding): CsvParseResult => {
+  const [headerRow, ...dataRows] = rows;
+  const headers = uniqueHeaders(headerRow?.values || []);
+  return {
+    headers,
+    rows: toRecords(headers, dataRows.map(row => row.values)),
+    lineNumbers: dataRows.map(row => row.line),
+    delimiter,
+    encoding,
+  };
+};
+
+export const parseCsvFile = async (file: Blob, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  const encoding = await sniffEncoding(file);
+
+  try {
+    const { rows, delimiter } = await parseChunks(decodeFile(file, encoding), file.size, options);
+    return buildResult(rows, delimiter, encoding);
+  } catch (error) {
+    if (!(error instanceof InvalidEncodingError)) throw error;
+  }
+
+  // Not UTF-8: older exports are usually Windows-1252, a superset of Latin-1
+  const { rows, delimiter } = await parseChunks(decodeFile(file, 'windows-1252'), file.size, options);
+  return buildResult(rows, delimiter, 'windows-1252');
+};
+
+export const parseCsvText = async (text: string, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  async function* chunks() {
+    for (let offset = 0; offset < text.length; offset += TEXT_CHUNK_SIZE) {
+      yield { text: text.slice(offset, offset + TEXT_CHUNK_SIZE), bytesRead: offset + TEXT_CHUNK_SIZE };
+    }
+  }
+  const { rows, delimiter } = await parseChunks(chunks(), text.length, options);
+  return buildResult(rows, delimiter, 'utf-8');
+};
+
+export const escapeCsvValue = (value: unknown, delimiter: CsvDelimiter = ',') => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+// Rows are joined with CRLF as RFC 4180 specifies.
+export const toCsv = (rows: unknown[][], delimiter: CsvDelimiter = ',') =>
+  rows.map(row => row.map(value => escapeCsvValue(value, delimiter)).join(delimiter)).join('\r\n');
@@ -0,0 +1,337 @@
+// Mailing labels and the printed church directory. Both are built as HTML
+// documents sized in millimetres and opened in a new window for printing;
+// the browser's print dialog also saves them as PDF.
+import { Person } from '../entities/Person';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import {
+  RELATIONSHIP_LABELS,
+  formatAddressLines,
+  formatAddressee,
+  getGroupName,
+  groupByHousehold,
+  hasAddress,
+  loadHouseholdIndex,
+} from './households';
+import type { HouseholdGroup } from './households';
+import { formatTextCell, getCellValue, getExportColumns } from './peopleExport';
+import type { ExportColumn } from './peopleExport';
+
+export type PaperSize = 'letter' | 'a4';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+  a4: { label: 'A4', width: 210, height: 297 },
+};
+
+const inches = (value: number) => value * 25.4;
+
+// Label stock dimensions in millimetres, from the manufacturer's templates
+export interface LabelLayout {
+  id: string;
+  label: string;
+  paper: PaperSize;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'avery-5160',
+    label: 'Avery 5160 / 8160 (30 per sheet)',
+    paper: 'letter',
+    columns: 3,
+    rows: 10,
+    width: inches(2.625),
+    height: inches(1),
+    top: inches(0.5),
+    left: inches(0.1875),
+    columnGap: inches(0.125),
+    rowGap: 0,
+  },
+  {
+    id: 'avery-5161',
+    label: 'Avery 5161 / 8161 (20 per sheet)',
+    paper: 'letter',
+    columns: 2,
+    rows: 10,
+    width: inches(4),
+    height: inches(1),
+    top: inches(0.5),
+    left: inches(0.15625),
+    columnGap: inches(0.1875),
+    rowGap: 0,
+  },
+  {
+    id: 'avery-5163',
+    label: 'Avery 5163 / 8163 (10 per sheet)',
+    paper: 'letter',
+    columns: 2,
+    rows: 5,
+    width: inches(4),
+    height: inches(2),
+    top: inches(0.5),
+    left: inches(0.15625),
+    columnGap: inches(0.1875),
+    rowGap: 0,
+  },
+  {
+    id: 'avery-l7160',
+    label: 'Avery L7160 (21 per sheet)',
+    paper: 'a4',
+    columns: 3,
+    rows: 7,
+    width: 63.5,
+    height: 38.1,
+    top: 15.15,
+    left: 7.2,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  {
+    id: 'avery-l7163',
+    label: 'Avery L7163 (14 per sheet)',
+    paper: 'a4',
+    columns: 2,
+    rows: 7,
+    width: 99.1,
+    height: 38.1,
+    top: 15.15,
+    left: 4.65,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+];
+
+export type PrintSortOrder = 'lastName' | 'householdName' | 'postalCode';
+
+export const SORT_ORDER_LABELS: Record<PrintSortOrder, string> = {
+  lastName: 'Last name',
+  householdName: 'Household name',
+  postalCode: 'Postal code',
+};
+
+const compareText = (a = '', b = '') => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+// Households are sorted by their head's name unless another order is chosen;
+// ties fall back to the household name.
+const sortGroups = (groups: HouseholdGroup[], sortOrder: PrintSortOrder) => {
+  const headOf = (group: HouseholdGroup) => group.members[0].person;
+  return [...groups].sort((a, b) => {
+    switch (sortOrder) {
+      case 'postalCode':
+        return compareText(a.household?.postalCode, b.household?.postalCode)
+          || compareText(getGroupName(a), getGroupName(b));
+      case 'householdName':
+        return compareText(getGroupName(a), getGroupName(b));
+      default:
+        return compareText(headOf(a).lastName, headOf(b).lastName)
+          || compareText(headOf(a).firstName, headOf(b).firstName)
+          || compareText(getGroupName(a), getGroupName(b));
+    }
+  });
+};
+
+// Everyone matching `where`, grouped by household
+export const loadPrintHouseholds = async (where: Record<string, any>, sortOrder: PrintSortOrder) => {
+  const [peopleResponse, index] = await Promise.all([
+    Person.queryAll({ where, sort: 'lastName' }),
+    loadHouseholdIndex(),
+  ]);
+  if (!peopleResponse.success) {
+    throw new Error(peopleResponse.message || 'Failed to load people');
+  }
+  return sortGroups(groupByHousehold(peopleResponse.data, index), sortOrder);
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderDocument = (title: string, style: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+* { box-sizing: border-box; }
+body { margin: 0; font-family: Helvetica, Arial, sans-serif; color: #000; }
+${style}
+</style>
+</head>
+<body>
+${body}
+<script>window.addEventListener('load', function () { window.print(); });</script>
+</body>
+</html>`;
+
+export interface LabelOptions {
+  layout: LabelLayout;
+  // Households without a street address get no label
+  skipWithoutAddress: boolean;
+}
+
+// One label per household, addressed to its head and spouse
+export const renderLabels = (groups: HouseholdGroup[], { layout, skipWithoutAddress }: LabelOptions) => {
+  const labels = groups
+    .filter(group => !skipWithoutAddress || (group.household && hasAddress(group.household)))
+    .map(group => [formatAddressee(group.members), ...(group.household ? formatAddressLines(group.household) : [])]);
+
+  const perSheet = layout.columns * layout.rows;
+  const sheets: string[] = [];
+  for (let start = 0; start < labels.length; start += perSheet) {
+    const cells = labels.slice(start, start + perSheet)
+      .map(lines => `<div class="label">${lines.map(line => `<div>${escapeHtml(line)}</div>`).join('')}</div>`);
+    sheets.push(`<div class="sheet">${cells.join('')}</div>`);
+  }
+
+  const paper = PAPER_SIZES[layout.paper];
+  const style = `
+@page { size: ${paper.width}mm ${paper.height}mm; margin: 0; }
+.sheet {
+  width: ${paper.width}mm;
+  height: ${paper.height}mm;
+  padding: ${layout.top}mm 0 0 ${layout.left}mm;
+  display: grid;
+  grid-template-columns: repeat(${layout.columns}, ${layout.width}mm);
+  grid-auto-rows: ${layout.height}mm;
+  column-gap: ${layout.columnGap}mm;
+  row-gap: ${layout.rowGap}mm;
+  align-content: start;
+  overflow: hidden;
+  break-after: page;
+}
+.sheet:last-child { break-after: auto; }
+.label {
+  display: flex;
+  flex-direction: column;
+  justify-content: center;
+  padding: 0 4mm;
+  overflow: hidden;
+  white-space: nowrap;
+  font-size: 10pt;
+  line-height: 1.25;
+}`;
+
+  return { html: renderDocument('Mailing Labels', style, sheets.join('\n')), count: labels.length };
+};
+
+export type DirectoryDetail = 'photos' | 'address' | 'phone' | 'email' | 'relationship';
+
+export const DIRECTORY_DETAIL_LABELS: Record<DirectoryDetail, string> = {
+  photos: 'Photos',
+  address: 'Address',
+  phone: 'Phone',
+  email: 'Email',
+  relationship: 'Relationship',
+};
+
+export interface DirectoryOptions {
+  title: string;
+  paper: PaperSize;
+  details: DirectoryDetail[];
+  profileFields: ProfileFieldDef[];
+}
+
+const initialsOf = (person: Person) =>
+  `${(person.preferredName || person.firstName).charAt(0)}${person.lastName.charAt(0)}`.toUpperCase();
+
+const renderDirectoryEntry = (group: HouseholdGroup, details: DirectoryDetail[], columns: ExportColumn[]) => {
+  const show = (detail: DirectoryDetail) => details.includes(detail);
+  const address = show('address') && group.household ? formatAddressLines(group.household) : [];
+
+  const members = group.members.map(({ person, relationship }) => {
+    const name = person.preferredName && person.preferredName !== person.firstName
+      ? `${person.firstName} "${person.preferredName}" ${person.lastName}`
+      : `${person.firstName} ${person.lastName}`;
+    const lines = [
+      show('phone') && person.phone ? escapeHtml(person.phone) : '',
+      show('email') && person.email ? escapeHtml(person.email) : '',
+      ...columns.map(column => {
+        const value = formatTextCell(getCellValue(person, column, { tags: [] }));
+        return value ? `<span class="field-label">${escapeHtml(column.label)}:</span> ${escapeHtml(value)}` : '';
+      }),
+    ].filter(Boolean);
+    const photo = person.photoUrl
+      ? `<img class="photo" src="${escapeHtml(person.photoUrl)}" alt="">`
+      : `<div class="photo initials">${escapeHtml(initialsOf(person))}</div>`;
+
+    return `<div class="member">
+  ${show('photos') ? photo : ''}
+  <div>
+    <div class="name">${escapeHtml(name)}${show('relationship') && relationship && group.household
+      ? ` <span class="relationship">${RELATIONSHIP_LABELS[relationship]}</span>`
+      : ''}</div>
+    ${lines.map(line => `<div>${line}</div>`).join('')}
+  </div>
+</div>`;
+  });
+
+  return `<section class="entry">
+  <h2>${escapeHtml(getGroupName(group))}</h2>
+  ${address.map(line => `<div class="address">${escapeHtml(line)}</div>`).join('')}
+  ${members.join('\n')}
+</section>`;
+};
+
+// A two-column directory grouped by household. Entries never split across
+// columns or pages.
+export const renderDirectory = (groups: HouseholdGroup[], options: DirectoryOptions) => {
+  const paper = PAPER_SIZES[options.paper];
+  const columns = getExportColumns(options.profileFields.map(field => field.key), options.profileFields);
+  const printedOn = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  const style = `
+@page { size: ${paper.width}mm ${paper.height}mm; margin: 15mm 12mm; }
+header { text-align: center; margin-bottom: 8mm; }
+header h1 { font-size: 20pt; margin: 0; }
+header div { font-size: 9pt; color: #555; }
+main { column-count: 2; column-gap: 8mm; font-size: 9pt; line-height: 1.3; }
+.entry { break-inside: avoid; border-bottom: 0.3mm solid #ccc; padding-bottom: 3mm; margin-bottom: 3mm; }
+.entry h2 { font-size: 11pt; margin: 0 0 1mm; }
+.address { color: #333; }
+.member { display: flex; gap: 3mm; margin-top: 2mm; }
+.photo { width: 18mm; height: 18mm; flex: none; object-fit: cover; border-radius: 1mm; }
+.initials { display: flex; align-items: center; justify-content: center; background: #e5e5e5; color: #555; font-size: 12pt; }
+.name { font-weight: bold; }
+.relationship { font-weight: normal; color: #555; font-size: 8pt; }
+.field-label { color: #555; }`;
+
+  const body = `<header>
+  <h1>${escapeHtml(options.title)}</h1>
+  <div>${escapeHtml(printedOn)}</div>
+</header>
+<main>
+${groups.map(group => renderDirectoryEntry(group, options.details, columns)).join('\n')}
+</main>`;
+
+  return renderDocument(options.title, style, body);
+};
+
+// Opens the tab the document is shown in, saying it is being prepared. This
+// has to happen straight from the click, before anything is loaded, or
+// pop-up blockers stop the tab. Returns null when it was blocked anyway.
+export const openPrintWindow = () => {
+  const printWindow = window.open('', '_blank');
+  printWindow?.document.write(
+    '<!DOCTYPE html><title>Preparing…</title><p style="font-family: sans-serif">Preparing the document…</p>'
+  );
+  return printWindow;
+};
+
+// Shows the document in a tab from openPrintWindow. The document prints
+// itself once photos have loaded.
+export const showPrintDocument = (printWindow: Window, html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  printWindow.location.href = url;
+  // The tab has read the document long before this
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
@@ -0,0 +1,210 @@
+import { Person } from '../entities/Person';
+import { Note } from '../entities/Note';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import type { EntityInput } from './entityWrapper';
+import { equalsText } from './queryUtils';
+
+type PersonLike = Pick<Person, 'firstName' | 'lastName'> &
+  Partial<Pick<Person, '_id' | 'preferredName' | 'email' | 'phone'>>;
+
+export interface DuplicateMatch {
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicatePair<T extends PersonLike = Person> extends DuplicateMatch {
+  a: T;
+  b: T;
+}
+
+// Pairs scoring at or above this are shown as possible duplicates.
+export const DUPLICATE_THRESHOLD = 40;
+
+export const normalizeName = (value?: string) =>
+  (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+
+export const normalizeEmail = (value?: string) => (value || '').trim().toLowerCase();
+
+// Compares the last ten digits so "+1 (555) 123-4567" matches "555.123.4567".
+export const normalizePhone = (value?: string) => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+const firstNames = (person: PersonLike) =>
+  [person.firstName, person.preferredName].map(normalizeName).filter(Boolean);
+
+export const scorePair = (a: PersonLike, b: PersonLike): DuplicateMatch => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    score += 50;
+    reasons.push('Same email');
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    score += 35;
+    reasons.push('Same phone');
+  }
+
+  const lastA = normalizeName(a.lastName);
+  if (lastA && lastA === normalizeName(b.lastName)) {
+    score += 25;
+    reasons.push('Same last name');
+
+    const namesA = firstNames(a);
+    const namesB = firstNames(b);
+    if (namesA.some(name => namesB.includes(name))) {
+      score += 20;
+      reasons.push('Same first name');
+    } else if (namesA.some(nameA => namesB.some(nameB => nameA.startsWith(nameB) || nameB.startsWith(nameA)))) {
+      // "Jon" and "Jonathan"
+      score += 12;
+      reasons.push('Similar first name');
+    }
+  }
+
+  return { score: Math.min(score, 100), reasons };
+};
+
+export const getMatchLevel = (score: number) =>
+  score >= 70 ? 'high' : score >= 50 ? 'medium' : 'low';
+
+// Only people sharing an email, phone or last name are compared, which keeps
+// the scan roughly linear instead of checking every pair.
+export const findDuplicateCandidates = <T extends PersonLike & { _id: string }>(
+  people: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicatePair<T>[] => {
+  const blocks = new Map<string, T[]>();
+  const addToBlock = (key: string, person: T) => {
+    const block = blocks.get(key);
+    if (block) {
+      block.push(person);
+    } else {
+      blocks.set(key, [person]);
+    }
+  };
+
+  people.forEach(person => {
+    const email = normalizeEmail(person.email);
+    const phone = normalizePhone(person.phone);
+    const lastName = normalizeName(person.lastName);
+    if (email) addToBlock(`email:${email}`, person);
+    if (phone) addToBlock(`phone:${phone}`, person);
+    if (lastName) addToBlock(`name:${lastName}`, person);
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair<T>[] = [];
+
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i]._id < block[j]._id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a._id}:${b._id}`;
+        if (a._id === b._id || seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scorePair(a, b);
+        if (match.score >= threshold) {
+          pairs.push({ a, b, ...match });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((x, y) => y.score - x.score);
+};
+
+// Looks up existing people who may be the same as a record about to be saved.
+export const findPossibleDuplicates = async (
+  person: PersonLike,
+  threshold = DUPLICATE_THRESHOLD
+): Promise<(Person & DuplicateMatch)[]> => {
+  const conditions: Record<string, any>[] = [];
+  if (person.lastName?.trim()) conditions.push({ lastName: equalsText(person.lastName) });
+  if (person.email?.trim()) conditions.push({ email: equalsText(person.email) });
+  if (conditions.length === 0) return [];
+
+  const response = await Person.query({
+    where: { $or: conditions, archived: { $ne: true } },
+    limit: 50,
+  });
+  if (!response.success) return [];
+
+  return response.data
+    .filter(candidate => candidate._id !== person._id)
+    .map(candidate => ({ ...candidate, ...scorePair(person, candidate) }))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((x, y) => y.score - x.score);
+};
+
+// Folds `loser` into `survivor`: the chosen values and the union of tags are
+// written to the survivor, notes are moved over, and the loser is archived
+// with a pointer to the survivor. Household memberships are reduced to a
+// single one in the chosen household. The loser is only archived once every
+// other step has gone through.
+export const mergePeople = async (
+  survivor: Person,
+  loser: Person,
+  values: EntityInput<Person>
+) => {
+  const tagIds = Array.from(new Set([...(survivor.tagIds || []), ...(loser.tagIds || [])]));
+  const updated = await Person.update(survivor._id, { ...values, tagIds });
+  if (!updated.success) {
+    throw new Error(updated.message || 'Failed to update the surviving person');
+  }
+
+  const notesResponse = await Note.queryAll({ where: { personId: loser._id }, fields: ['_id'] });
+  if (!notesResponse.success) {
+    throw new Error(notesResponse.message || 'Failed to load notes');
+  }
+  const noteResponses = await Promise.all(
+    notesResponse.data.map(note => Note.update(note._id, { personId: survivor._id }))
+  );
+  const failedNote = noteResponses.find(response => !response.success);
+  if (failedNote) {
+    throw new Error(failedNote.message || 'Failed to move notes');
+  }
+
+  const membershipsResponse = await HouseholdMember.queryAll({
+    where: { personId: { $in: [survivor._id, loser._id] } },
+  });
+  if (!membershipsResponse.success) {
+    throw new Error(membershipsResponse.message || 'Failed to load household memberships');
+  }
+
+  // The survivor's own membership is kept over the loser's
+  const householdId = values.householdId !== undefined ? values.householdId : survivor.householdId;
+  const memberships = membershipsResponse.data;
+  const kept = memberships.find(membership => membership.householdId === householdId && membership.personId === survivor._id)
+    || memberships.find(membership => membership.householdId === householdId);
+  const membershipResponses = await Promise.all([
+    ...memberships
+      .filter(membership => membership !== kept)
+      .map(membership => HouseholdMember.delete(membership._id)),
+    ...(kept && kept.personId !== survivor._id
+      ? [HouseholdMember.update(kept._id, { personId: survivor._id })]
+      : []),
+    ...(householdId && !kept
+      ? [HouseholdMember.create({ householdId, personId: survivor._id, relationship: 'other' })]
+      : []),
+  ]);
+  const failedMembership = membershipResponses.find(response => !response.success);
+  if (failedMembership) {
+    throw new Error(failedMembership.message || 'Failed to update household memberships');
+  }
+
+  const archived = await Person.update(loser._id, { archived: true, mergedIntoId: survivor._id });
+  if (!archived.success) {
+    throw new Error(archived.message || 'Failed to archive the merged person');
+  }
+};
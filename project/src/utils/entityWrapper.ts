@@ -0,0 +1,164 @@
+import manifestConfig from '../../manifest.config.json';
+import type { ApiResponse, PagedResponse, QueryOptions } from '../types';
+
+// Page size used by queryAll() when walking every page of a collection.
+const QUERY_ALL_PAGE_SIZE = 500;
+
+export interface EntitySchema {
+  name: string;
+  type: string;
+  properties: Record<string, any>;
+  required?: string[];
+}
+
+// Every stored record carries the server-assigned _id.
+export interface EntityRecord {
+  _id: string;
+}
+
+// Payload accepted by create()/update(): server-managed fields are omitted and
+// null clears a value.
+export type EntityInput<T> = {
+  [K in Exclude<keyof T, '_id' | 'createdAt' | 'updatedAt'>]?: T[K] | null;
+};
+
+export interface EntityClient<T extends EntityRecord> {
+  list: (sort?: string) => Promise<ApiResponse<T[]>>;
+  query: (options?: QueryOptions) => Promise<PagedResponse<T>>;
+  queryAll: (options?: Omit<QueryOptions, 'limit' | 'cursor'>) => Promise<ApiResponse<T[]>>;
+  // data is null when the record is missing or belongs to another organization
+  get: (id: string) => Promise<ApiResponse<T | null>>;
+  create: (data: EntityInput<T>) => Promise<ApiResponse<T>>;
+  update: (id: string, data: EntityInput<T>) => Promise<ApiResponse<T>>;
+  delete: (id: string) => Promise<ApiResponse<unknown>>;
+}
+
+// Organization every org-scoped entity client reads from and writes to. Set by
+// AuthProvider whenever the signed-in user picks an organization.
+let activeOrganizationId: string | null = null;
+
+export const setActiveOrganizationId = (organizationId: string | null) => {
+  activeOrganizationId = organizationId;
+};
+
+export const getActiveOrganizationId = () => activeOrganizationId;
+
+// The API returns a bare object instead of an array when a collection holds a
+// single record, so collection responses are normalized here once.
+const toArray = <T>(data: T | T[] | null | undefined): T[] => {
+  if (Array.isArray(data)) return data;
+  return data ? [data] : [];
+};
+
+export function createEntityClient<T extends EntityRecord>(entityName: string, schema: EntitySchema): EntityClient<T> {
+      
+    // Entities with an organizationId property only ever see the active org's rows
+    const orgScoped = Boolean(schema.properties?.organizationId);
+
+    const scopeWhere = (where: Record<string, any> = {}, allOrganizations = false) => {
+      if (!orgScoped || allOrganizations || !activeOrganizationId) return where;
+      return { ...where, organizationId: activeOrganizationId };
+    };
+
+    const isInActiveOrganization = (record: { organizationId?: string } | null | undefined) =>
+      !orgScoped || !activeOrganizationId || record?.organizationId === activeOrganizationId;
+
+    const projectId = manifestConfig.appId || "not-defined";
+
+    //const baseUrl = `https://db.madewithmanifest.com/${projectId}/entities/${entityName}`;
+    const baseUrl = `https://db.madewithmanifest.com/${projectId}/entities/${entityName}`;
+
+    // query() filters, sorts and pages on the server.
+    //   where:  Mongo-style filter, e.g. { status: 'active', tagIds: { $in: [...] } }
+    //   sort:   field name, prefixed with '-' for descending
+    //   limit:  page size
+    //   cursor: the nextCursor returned by the previous page
+    //   fields: projection, only these fields (plus _id) are returned
+    //   allOrganizations: skip the active organization scope (membership lookups)
+    // Resolves to { success, data, count, nextCursor } where count is the
+    // total number of matching records and nextCursor is null on the last page.
+    const query = async ({ where, sort, limit, cursor, fields, allOrganizations }: QueryOptions = {}): Promise<PagedResponse<T>> => {
+      const url = new URL(baseUrl);
+      const scopedWhere = scopeWhere(where, allOrganizations);
+      if (Object.keys(scopedWhere).length > 0) url.searchParams.set("where", JSON.stringify(scopedWhere));
+      if (sort) url.searchParams.set("sort", sort);
+      if (limit) url.searchParams.set("limit", String(limit));
+      if (cursor) url.searchParams.set("cursor", cursor);
+      if (fields && fields.length > 0) url.searchParams.set("fields", fields.join(","));
+      const res = await fetch(url, {
+        credentials: 'include'
+      });
+      const body = await res.json();
+      return { ...body, data: toArray<T>(body.data) };
+    };
+
+    // Follows nextCursor until every matching record has been loaded.
+    const queryAll = async ({ where, sort, fields, allOrganizations }: Omit<QueryOptions, 'limit' | 'cursor'> = {}): Promise<ApiResponse<T[]>> => {
+      const data: T[] = [];
+      let cursor: string | null = null;
+      do {
+        const page: PagedResponse<T> = await query({ where, sort, fields, allOrganizations, cursor, limit: QUERY_ALL_PAGE_SIZE });
+        if (!page.success) return page;
+        data.push(...page.data);
+        cursor = page.nextCursor || null;
+      } while (cursor);
+      return { success: true, message: 'OK', data, count: data.length };
+    };
+
+    return {
+      list: async (sort) => {
+        const url = new URL(baseUrl);
+        const scopedWhere = scopeWhere();
+        if (Object.keys(scopedWhere).length > 0) url.searchParams.set("where", JSON.stringify(scopedWhere));
+        if (sort) url.searchParams.set("sort", sort);
+        const res = await fetch(url, {
+          credentials: 'include'
+        });
+        const body = await res.json();
+        return { ...body, data: toArray<T>(body.data) };
+      },
+      query,
+      queryAll,
+      get: async (id) => {
+        const res = await fetch(`${baseUrl}/${id}`, {
+          credentials: 'include'
+        });
+        const body = await res.json();
+        // Records from another organization are treated as missing
+        if (body.success && !isInActiveOrganization(body.data)) {
+          return { success: false, message: `${entityName} not found`, data: null };
+        }
+        return body;
+      },
+      create: async (data) => {
+        const stamped = orgScoped && activeOrganizationId && !(data as { organizationId?: string }).organizationId
+          ? { ...data, organizationId: activeOrganizationId }
+          : data;
+        const res = await fetch(baseUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: 'include',
+          body: JSON.stringify(stamped),
+        });
+        return res.json();
+      },
+      // Add update() using PUT
+      update: async (id, data) => {
+        const res = await fetch(`${baseUrl}/${id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          credentials: 'include',
+          body: JSON.stringify(data),
+        });
+        return res.json();
+      },
+      // Add delete() using DELETE
+      delete: async (id) => {
+        const res = await fetch(`${baseUrl}/${id}`, {
+          method: "DELETE",
+          credentials: 'include',
+        });
+        return res.json();
+      },
+    };
+  }
@@ -0,0 +1,132 @@
+import { Household } from '../entities/Household';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import type { Person } from '../entities/Person';
+
+export type HouseholdRelationship = HouseholdMember['relationship'];
+
+export const RELATIONSHIP_LABELS: Record<HouseholdRelationship, string> = {
+  head: 'Head',
+  spouse: 'Spouse',
+  child: 'Child',
+  other: 'Other',
+};
+
+export const ADDRESS_FIELDS = [
+  { key: 'addressLine1', label: 'Address Line 1' },
+  { key: 'addressLine2', label: 'Address Line 2' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'postalCode', label: 'Postal Code' },
+  { key: 'country', label: 'Country' },
+] as const;
+
+export type AddressField = typeof ADDRESS_FIELDS[number]['key'];
+
+export const hasAddress = (household: Pick<Household, AddressField>) =>
+  ADDRESS_FIELDS.some(field => household[field.key]?.trim());
+
+// Mailing address as printed on an envelope: street lines, then
+// "City, ST 12345", then the country
+export const formatAddressLines = (household: Pick<Household, AddressField>) => {
+  const cityLine = [
+    household.city?.trim(),
+    [household.state?.trim(), household.postalCode?.trim()].filter(Boolean).join(' '),
+  ].filter(Boolean).join(', ');
+
+  return [household.addressLine1, household.addressLine2, cityLine, household.country]
+    .map(line => line?.trim())
+    .filter((line): line is string => Boolean(line));
+};
+
+export interface HouseholdPerson {
+  person: Pick<Person, 'firstName' | 'lastName' | 'preferredName'>;
+  relationship?: HouseholdRelationship;
+}
+
+const RELATIONSHIP_ORDER: HouseholdRelationship[] = ['head', 'spouse', 'child', 'other'];
+
+// Head first, then spouse, children and others
+export const sortHouseholdPeople = <T extends HouseholdPerson>(people: T[]) =>
+  [...people].sort((a, b) =>
+    RELATIONSHIP_ORDER.indexOf(a.relationship || 'other') - RELATIONSHIP_ORDER.indexOf(b.relationship || 'other')
+  );
+
+// Addressee line for mail to a household. The head and spouse are named,
+// sharing the last name when they have the same one: "John & Jane Smith",
+// "John Smith & Jane Doe". Households without either are addressed by all
+// members, or as "The Smith Family" when there are more than two.
+export const formatAddressee = (people: HouseholdPerson[]) => {
+  const sorted = sortHouseholdPeople(people);
+  const adults = sorted.filter(entry => entry.relationship === 'head' || entry.relationship === 'spouse');
+  const named = (adults.length > 0 ? adults : sorted).map(entry => entry.person);
+  if (named.length === 0) return '';
+
+  const firstNameOf = (person: HouseholdPerson['person']) => person.preferredName || person.firstName;
+  const fullNameOf = (person: HouseholdPerson['person']) => `${firstNameOf(person)} ${person.lastName}`.trim();
+
+  if (named.length === 1) return fullNameOf(named[0]);
+  if (named.length > 2) return `The ${named[0].lastName} Family`;
+
+  const [first, second] = named;
+  return first.lastName === second.lastName
+    ? `${firstNameOf(first)} & ${firstNameOf(second)} ${first.lastName}`.trim()
+    : `${fullNameOf(first)} & ${fullNameOf(second)}`;
+};
+
+export interface HouseholdIndex {
+  byId: Map<string, Household>;
+  // Each person's membership, keyed by person ID
+  memberships: Map<string, HouseholdMember>;
+}
+
+// Every household of the organization with its memberships, for grouping
+// people that were loaded separately
+export const loadHouseholdIndex = async (): Promise<HouseholdIndex> => {
+  const [householdsResponse, membersResponse] = await Promise.all([
+    Household.queryAll(),
+    HouseholdMember.queryAll({ fields: ['householdId', 'personId', 'relationship'] }),
+  ]);
+  if (!householdsResponse.success || !membersResponse.success) {
+    throw new Error('Failed to load households');
+  }
+
+  const memberships = new Map<string, HouseholdMember>();
+  membersResponse.data.forEach(membership => {
+    if (!memberships.has(membership.personId)) memberships.set(membership.personId, membership);
+  });
+  return { byId: new Map(householdsResponse.data.map(household => [household._id, household])), memberships };
+};
+
+// The membership is authoritative; people without one may still carry a
+// household ID of their own.
+export const getPersonHousehold = (person: Pick<Person, '_id' | 'householdId'>, index?: HouseholdIndex) => {
+  const membership = index?.memberships.get(person._id);
+  const householdId = membership?.householdId || person.householdId;
+  return {
+    household: householdId ? index?.byId.get(householdId) : undefined,
+    relationship: membership?.relationship,
+  };
+};
+
+export interface HouseholdGroup {
+  household?: Household;
+  // Sorted head first
+  members: { person: Person; relationship?: HouseholdRelationship }[];
+}
+
+// Groups people by household in the order households are first seen. Each
+// person without a household forms a group of their own.
+export const groupByHousehold = (people: Person[], index: HouseholdIndex): HouseholdGroup[] => {
+  const groups = new Map<string, HouseholdGroup>();
+  people.forEach(person => {
+    const { household, relationship } = getPersonHousehold(person, index);
+    const key = household?._id || `person:${person._id}`;
+    const group = groups.get(key) || { household, members: [] };
+    group.members.push({ person, relationship });
+    groups.set(key, group);
+  });
+  return [...groups.values()].map(group => ({ ...group, members: sortHouseholdPeople(group.members) }));
+};
+
+// The household's name, or the person's own name when they have none
+export const getGroupName = (group: HouseholdGroup) => group.household?.name || formatAddressee(group.members);
@@ -0,0 +1,103 @@
+import { Person } from '../entities/Person';
+import { Household } from '../entities/Household';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import { ImportBatch } from '../entities/ImportBatch';
+
+export interface RollbackResult {
+  restored: number;
+  removed: number;
+  failed: number;
+}
+
+// Snapshot of the values an import update is about to overwrite, so a
+// rollback can put them back. Custom fields are captured as a whole because
+// updates merge into the existing `fields` object.
+export const getPreviousValues = (existing: Person, payload: Record<string, any>) => {
+  const previous: Record<string, any> = {};
+  Object.keys(payload).forEach(key => {
+    previous[key] = key === 'fields'
+      ? existing.fields || {}
+      : existing[key as keyof Person] ?? null;
+  });
+  return previous;
+};
+
+// A running batch saved this recently is taken to be still importing, so it
+// cannot be rolled back yet. Imports save far more often than this.
+export const LIVE_BATCH_WINDOW = 10 * 60 * 1000;
+
+export const isBatchLive = (batch: ImportBatch) =>
+  batch.status === 'running' && Date.now() - new Date(batch.updatedAt || batch.createdAt).getTime() < LIVE_BATCH_WINDOW;
+
+// Deletes each record, returning the IDs that could not be deleted
+const deleteAll = async (ids: string[], remove: (id: string) => Promise<{ success: boolean }>, label: string) => {
+  const failed: string[] = [];
+  for (const id of ids) {
+    try {
+      const response = await remove(id);
+      if (!response.success) failed.push(id);
+    } catch (error) {
+      console.error(`Failed to remove ${label}:`, id, error);
+      failed.push(id);
+    }
+  }
+  return failed;
+};
+
+// Restores updated people and deletes created ones, undoing household
+// changes first. Anything that fails is kept on the batch so the rollback can
+// be retried.
+export const rollbackImportBatch = async (batch: ImportBatch, userId?: string): Promise<RollbackResult> => {
+  const failedUpdates: NonNullable<ImportBatch['updates']> = [];
+  const failedRemovedMembers: NonNullable<ImportBatch['removedMembers']> = [];
+
+  const failedMembers = await deleteAll(
+    batch.createdMemberIds || [],
+    id => HouseholdMember.delete(id),
+    'household member'
+  );
+
+  for (const membership of batch.removedMembers || []) {
+    try {
+      const response = await HouseholdMember.create(membership);
+      if (!response.success) failedRemovedMembers.push(membership);
+    } catch (error) {
+      console.error('Failed to restore household member:', membership.personId, error);
+      failedRemovedMembers.push(membership);
+    }
+  }
+
+  for (const update of batch.updates || []) {
+    try {
+      const response = await Person.update(update.personId, update.previous);
+      if (!response.success) failedUpdates.push(update);
+    } catch (error) {
+      console.error('Failed to restore person:', update.personId, error);
+      failedUpdates.push(update);
+    }
+  }
+
+  const failedCreates = await deleteAll(batch.createdIds || [], id => Person.delete(id), 'person');
+  const failedHouseholds = await deleteAll(batch.createdHouseholdIds || [], id => Household.delete(id), 'household');
+
+  const failed = failedUpdates.length + failedCreates.length +
+    failedMembers.length + failedRemovedMembers.length + failedHouseholds.length;
+  const response = await ImportBatch.update(batch._id, failed === 0
+    ? { status: 'rolled_back', rolledBackAt: new Date().toISOString(), rolledBackByUserId: userId }
+    : {
+      updates: failedUpdates,
+      createdIds: failedCreates,
+      createdMemberIds: failedMembers,
+      removedMembers: failedRemovedMembers,
+      createdHouseholdIds: failedHouseholds,
+    });
+  if (!response.success) {
+    throw new Error(response.message || 'Failed to record the rollback');
+  }
+
+  return {
+    restored: (batch.updates?.length || 0) - failedUpdates.length,
+    removed: (batch.createdIds?.length || 0) - failedCreates.length,
+    failed,
+  };
+};
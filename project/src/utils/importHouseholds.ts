@@ -0,0 +1,175 @@
+import householdMemberSchema from '../entities/HouseholdMember.json';
+import { Household } from '../entities/Household';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import type { MappingConfig } from './importTemplates';
+import type { RowError } from './importValidation';
+import type { PlannedRow } from './importMatching';
+import type { HouseholdRelationship } from './households';
+
+// Mapping targets that describe the row's household instead of the person
+export const HOUSEHOLD_IMPORT_FIELDS = [
+  { key: 'householdKey', label: 'Household ID' },
+  { key: 'householdName', label: 'Household Name' },
+  { key: 'householdRelationship', label: 'Household Relationship' },
+];
+
+export const isHouseholdField = (key: string) => HOUSEHOLD_IMPORT_FIELDS.some(field => field.key === key);
+
+export interface HouseholdRowData {
+  externalId?: string;
+  name?: string;
+  relationship: HouseholdRelationship;
+}
+
+const RELATIONSHIPS = householdMemberSchema.properties.relationship.enum as HouseholdRelationship[];
+
+// Common wording in church management exports
+const RELATIONSHIP_SYNONYMS: Record<string, HouseholdRelationship> = {
+  'head of household': 'head',
+  primary: 'head',
+  husband: 'spouse',
+  wife: 'spouse',
+  partner: 'spouse',
+  son: 'child',
+  daughter: 'child',
+  dependent: 'child',
+};
+
+const getColumnValue = (row: Record<string, string>, mapping: MappingConfig, field: string) => {
+  const column = Object.keys(mapping).find(c => mapping[c] === field);
+  return column ? (row[column] ?? '').trim() : '';
+};
+
+// Reads the household columns of a transformed row. Rows without a household
+// ID or name are not added to a household. A blank relationship is "other".
+export const readHouseholdRow = (
+  rowNumber: number,
+  row: Record<string, string>,
+  mapping: MappingConfig
+): { household?: HouseholdRowData; errors: RowError[] } => {
+  const externalId = getColumnValue(row, mapping, 'householdKey');
+  const name = getColumnValue(row, mapping, 'householdName');
+  const rawRelationship = getColumnValue(row, mapping, 'householdRelationship');
+  if (!externalId && !name) return { errors: [] };
+
+  const normalized = rawRelationship.toLowerCase();
+  const relationship = RELATIONSHIPS.find(value => value === normalized) || RELATIONSHIP_SYNONYMS[normalized];
+  if (rawRelationship && !relationship) {
+    return {
+      errors: [{
+        rowNumber,
+        field: 'householdRelationship',
+        label: 'Household Relationship',
+        value: rawRelationship,
+        message: `Must be one of ${RELATIONSHIPS.join(', ')}`,
+      }],
+    };
+  }
+
+  return {
+    household: { externalId: externalId || undefined, name: name || undefined, relationship: relationship || 'other' },
+    errors: [],
+  };
+};
+
+// Rows are grouped by household ID when the file has one, otherwise by name
+export const getHouseholdGroupKey = (household: HouseholdRowData) =>
+  household.externalId
+    ? `id:${household.externalId.toLowerCase()}`
+    : `name:${(household.name || '').toLowerCase()}`;
+
+export interface HouseholdImportResult {
+  createdHouseholdIds: string[];
+  createdMemberIds: string[];
+  removedMembers: { householdId: string; personId: string; relationship: HouseholdRelationship }[];
+}
+
+// Finds or creates the households of an import as its rows are saved.
+// Existing households are reused by ID, or by name when they have no ID of
+// their own. New households are only created once one of their people is
+// saved, so a failed import leaves no empty households behind.
+export const createHouseholdImporter = async () => {
+  const [householdsResponse, membersResponse] = await Promise.all([
+    Household.queryAll({ fields: ['name', 'externalId'] }),
+    HouseholdMember.queryAll({ fields: ['householdId', 'personId', 'relationship'] }),
+  ]);
+  if (!householdsResponse.success || !membersResponse.success) {
+    throw new Error('Failed to load existing households');
+  }
+
+  const byExternalId = new Map<string, Household>();
+  const byName = new Map<string, Household[]>();
+  householdsResponse.data.forEach(household => {
+    if (household.externalId) {
+      byExternalId.set(household.externalId.toLowerCase(), household);
+    } else {
+      const name = household.name.trim().toLowerCase();
+      byName.set(name, [...(byName.get(name) || []), household]);
+    }
+  });
+
+  const membershipsByPerson = new Map<string, HouseholdMember[]>();
+  membersResponse.data.forEach(membership => {
+    membershipsByPerson.set(membership.personId, [...(membershipsByPerson.get(membership.personId) || []), membership]);
+  });
+
+  const resolved = new Map<string, string>();
+  const result: HouseholdImportResult = { createdHouseholdIds: [], createdMemberIds: [], removedMembers: [] };
+
+  const findExisting = (household: HouseholdRowData) => {
+    if (household.externalId) {
+      const match = byExternalId.get(household.externalId.toLowerCase());
+      if (match) return match;
+    }
+    // Only an unambiguous name is reused
+    const named = household.name ? byName.get(household.name.toLowerCase()) : undefined;
+    return named?.length === 1 ? named[0] : undefined;
+  };
+
+  const getHouseholdId = async (plannedRow: PlannedRow) => {
+    const household = plannedRow.household;
+    if (!household) return undefined;
+
+    const key = getHouseholdGroupKey(household);
+    const known = resolved.get(key) || findExisting(household)?._id;
+    if (known) {
+      resolved.set(key, known);
+      return known;
+    }
+
+    const lastName = plannedRow.data.lastName || plannedRow.existing?.lastName;
+    const response = await Household.create({
+      name: household.name || (lastName ? `The ${lastName} Family` : `Household ${household.externalId}`),
+      externalId: household.externalId,
+    });
+    if (!response.success) throw new Error(response.message);
+
+    result.createdHouseholdIds.push(response.data._id);
+    resolved.set(key, response.data._id);
+    return response.data._id;
+  };
+
+  // People already in the household keep their membership as is; people in
+  // another household are moved.
+  const addMember = async (personId: string, householdId: string, relationship: HouseholdRelationship) => {
+    const memberships = membershipsByPerson.get(personId) || [];
+    if (memberships.some(membership => membership.householdId === householdId)) return;
+
+    for (const membership of memberships) {
+      const response = await HouseholdMember.delete(membership._id);
+      if (!response.success) throw new Error(response.message);
+      result.removedMembers.push({
+        householdId: membership.householdId,
+        personId,
+        relationship: membership.relationship,
+      });
+    }
+
+    const response = await HouseholdMember.create({ householdId, personId, relationship });
+    if (!response.success) throw new Error(response.message);
+    result.createdMemberIds.push(response.data._id);
+    membershipsByPerson.set(personId, [response.data]);
+  };
+
+  return { getHouseholdId, addMember, result };
+};
@@ -0,0 +1,125 @@
+import { Person } from '../entities/Person';
+import { normalizeEmail, normalizePhone } from './duplicates';
+import type { HouseholdRowData } from './importHouseholds';
+import { getSourceRowNumber } from './importSources';
+
+// create: every row becomes a new person
+// upsert: matched rows update the existing person, the rest are created
+// update: matched rows update the existing person, the rest are skipped
+export type ImportMode = 'create' | 'upsert' | 'update';
+
+// 'email', 'phone', or 'fields.<key>' for a profile field such as an external ID
+export type MatchKey = string;
+
+export interface ImportRowData {
+  [key: string]: any;
+  fields: Record<string, any>;
+}
+
+export interface PlannedRow {
+  // Position among the imported rows, from 1. getSourceRowNumber gives the
+  // line of the file.
+  rowNumber: number;
+  action: 'create' | 'update' | 'skip';
+  data: ImportRowData;
+  existing?: Person;
+  reason?: string;
+  household?: HouseholdRowData;
+}
+
+export interface ImportPlanSummary {
+  create: number;
+  update: number;
+  skip: number;
+}
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  create: 'Create new people only',
+  upsert: 'Update matches, create the rest',
+  update: 'Update matches only',
+};
+
+const getMatchValue = (matchKey: MatchKey, record: { email?: string; phone?: string; fields?: Record<string, any> }) => {
+  if (matchKey === 'email') return normalizeEmail(record.email);
+  if (matchKey === 'phone') return normalizePhone(record.phone);
+  const value = record.fields?.[matchKey.replace(/^fields\./, '')];
+  return value === undefined || value === null ? '' : String(value).trim().toLowerCase();
+};
+
+// Loads the existing people the rows will be matched against, keyed by the
+// normalized match value.
+export const loadMatchIndex = async (matchKey: MatchKey) => {
+  const response = await Person.queryAll({
+    where: { archived: { $ne: true } },
+    fields: ['firstName', 'lastName', 'preferredName', 'email', 'phone', 'status', 'fields', 'householdId'],
+  });
+  if (!response.success) {
+    throw new Error(response.message || 'Failed to load existing people');
+  }
+
+  const index = new Map<string, Person[]>();
+  response.data.forEach(person => {
+    const value = getMatchValue(matchKey, person);
+    if (!value) return;
+    index.set(value, [...(index.get(value) || []), person]);
+  });
+  return index;
+};
+
+export const planImport = (
+  rows: ImportRowData[],
+  mode: ImportMode,
+  matchKey: MatchKey,
+  index: Map<string, Person[]>,
+  lineNumbers?: number[]
+): PlannedRow[] => {
+  // Rows sharing a key with an earlier row in the same file would otherwise
+  // create the same person twice.
+  const seenInFile = new Map<string, number>();
+
+  return rows.map((data, i) => {
+    const rowNumber = i + 1;
+    if (mode === 'create') {
+      return { rowNumber, action: 'create', data };
+    }
+
+    const value = getMatchValue(matchKey, data);
+    if (!value) {
+      return mode === 'upsert'
+        ? { rowNumber, action: 'create', data }
+        : { rowNumber, action: 'skip', data, reason: 'No value to match on' };
+    }
+
+    const earlierRow = seenInFile.get(value);
+    if (earlierRow !== undefined) {
+      return { rowNumber, action: 'skip', data, reason: `Same match value as row ${getSourceRowNumber(lineNumbers, earlierRow)}` };
+    }
+    seenInFile.set(value, rowNumber);
+
+    const matches = index.get(value) || [];
+    if (matches.length > 1) {
+      return { rowNumber, action: 'skip', data, reason: `Matches ${matches.length} existing people` };
+    }
+    if (matches.length === 1) {
+      return { rowNumber, action: 'update', data, existing: matches[0] };
+    }
+    return mode === 'upsert'
+      ? { rowNumber, action: 'create', data }
+      : { rowNumber, action: 'skip', data, reason: 'No existing person matches' };
+  });
+};
+
+export const summarizePlan = (plan: PlannedRow[]): ImportPlanSummary =>
+  plan.reduce(
+    (summary, row) => ({ ...summary, [row.action]: summary[row.action] + 1 }),
+    { create: 0, update: 0, skip: 0 }
+  );
+
+// Matched rows only touch the mapped columns; custom fields are merged so
+// unmapped keys on the existing person survive.
+export const buildUpdatePayload = (row: PlannedRow) => {
+  const { fields, ...core } = row.data;
+  return Object.keys(fields).length > 0
+    ? { ...core, fields: { ...(row.existing?.fields || {}), ...fields } }
+    : core;
+};
@@ -0,0 +1,34 @@
+// File types the people import accepts. Every source is read into the same
+// table of header-keyed rows, which then goes through mapping, transforms,
+// matching and validation like a CSV file.
+
+export type ImportSourceType = 'csv' | 'xlsx' | 'vcard';
+
+export interface ImportTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  // The file line or sheet row each row came from, so problems are reported
+  // where the user will look for them. vCards have none.
+  lineNumbers?: number[];
+}
+
+// Where to find a row, numbered from 1 among the table's rows, in the source
+// file. Contacts from a vCard keep their position.
+export const getSourceRowNumber = (lineNumbers: number[] | undefined, rowNumber: number) =>
+  lineNumbers?.[rowNumber - 1] ?? rowNumber;
+
+const EXTENSIONS: Record<ImportSourceType, string[]> = {
+  csv: ['.csv', '.txt', '.tsv'],
+  xlsx: ['.xlsx'],
+  vcard: ['.vcf', '.vcard'],
+};
+
+export const IMPORT_FILE_ACCEPT = Object.values(EXTENSIONS).flat().join(',');
+
+export const getImportSourceType = (fileName: string): ImportSourceType | null => {
+  const lowerName = fileName.toLowerCase();
+  const type = (Object.keys(EXTENSIONS) as ImportSourceType[]).find(sourceType =>
+    EXTENSIONS[sourceType].some(extension => lowerName.endsWith(extension))
+  );
+  return type || null;
+};
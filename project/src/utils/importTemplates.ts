@@ -0,0 +1,72 @@
+import type { ImportTemplate } from '../entities/ImportTemplate';
+import { getDerivedColumns } from './importTransforms';
+
+export interface MappingConfig {
+  [csvColumn: string]: string | null;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+const guessField = (header: string) => {
+  const lowerHeader = header.toLowerCase();
+
+  if (lowerHeader.includes('first') && lowerHeader.includes('name')) return 'firstName';
+  if (lowerHeader.includes('last') && lowerHeader.includes('name')) return 'lastName';
+  if (lowerHeader.includes('email')) return 'email';
+  if (lowerHeader.includes('phone')) return 'phone';
+  if (lowerHeader.includes('status')) return 'status';
+  return null;
+};
+
+// Maps common column names when no template applies. Only the first column
+// matching a field is mapped, so "Email" wins over a later "Other Emails".
+export const guessMapping = (headers: string[]): MappingConfig => {
+  const mapping: MappingConfig = {};
+  headers.forEach(header => {
+    const field = guessField(header);
+    if (field && !Object.values(mapping).includes(field)) {
+      mapping[header] = field;
+    }
+  });
+  return mapping;
+};
+
+// A template applies when the file has exactly the template's headers. As a
+// fallback, a template whose mapped columns are all present still applies, so
+// an export that gained an extra column keeps working. Exact matches win.
+export const findMatchingTemplate = (templates: ImportTemplate[], headers: string[]) => {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+
+  const exact = templates.find(template =>
+    template.headers.length === fileHeaders.size &&
+    template.headers.every(header => fileHeaders.has(normalizeHeader(header)))
+  );
+  if (exact) return exact;
+
+  return templates.find(template => {
+    const mappedColumns = Object.keys(template.mapping)
+      .filter(column => template.mapping[column] && template.headers.includes(column));
+    return mappedColumns.length > 0 && mappedColumns.every(column => fileHeaders.has(normalizeHeader(column)));
+  });
+};
+
+// Template headers may differ in case or spacing from the file's; the mapping
+// and transforms are re-keyed to the file's actual header names, including the
+// columns derived by split name transforms.
+export const adaptTemplate = (template: ImportTemplate, headers: string[]) => {
+  const byNormalized = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const toFileHeader = (column: string) => byNormalized.get(normalizeHeader(column));
+
+  const transforms = (template.transforms || [])
+    .filter(transform => toFileHeader(transform.column))
+    .map(transform => ({ ...transform, column: toFileHeader(transform.column)! }));
+  getDerivedColumns(transforms).forEach(column => byNormalized.set(normalizeHeader(column), column));
+
+  const mapping: MappingConfig = {};
+  Object.entries(template.mapping).forEach(([column, field]) => {
+    const header = toFileHeader(column);
+    if (header && field) mapping[header] = field;
+  });
+
+  return { mapping, transforms };
+};
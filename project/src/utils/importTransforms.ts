@@ -0,0 +1,162 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import type { ImportTemplate } from '../entities/ImportTemplate';
+
+dayjs.extend(customParseFormat);
+
+// Declared in ImportTemplate.json so saved templates and the import dialog
+// share one shape.
+export type ColumnTransform = NonNullable<ImportTemplate['transforms']>[number];
+export type TransformType = ColumnTransform['type'];
+export type CaseStyle = NonNullable<ColumnTransform['caseStyle']>;
+
+export const TRANSFORM_TYPE_LABELS: Record<TransformType, string> = {
+  lookup: 'Replace values',
+  date: 'Parse date',
+  phone: 'Normalize phone',
+  splitName: 'Split full name',
+  trim: 'Trim whitespace',
+  case: 'Change case',
+};
+
+export const CASE_STYLE_LABELS: Record<CaseStyle, string> = {
+  upper: 'UPPER CASE',
+  lower: 'lower case',
+  title: 'Title Case',
+};
+
+// Offered in the date format picker; any dayjs format string is accepted
+export const DATE_FORMATS = ['MM/DD/YYYY', 'M/D/YYYY', 'M/D/YY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'YYYY-MM-DD', 'MMM D, YYYY'];
+
+// Stored date values use the same ISO date the validation step parses
+const OUTPUT_DATE_FORMAT = 'YYYY-MM-DD';
+
+const NAME_PARTICLES = ['da', 'de', 'del', 'della', 'der', 'di', 'du', 'la', 'le', 'van', 'von', 'st', 'st.'];
+const NAME_SUFFIXES = ['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv'];
+
+// New, empty transform of the given type
+export const createTransform = (column: string, type: TransformType): ColumnTransform => {
+  switch (type) {
+    case 'lookup':
+      return { column, type, values: [{ from: '', to: '' }] };
+    case 'date':
+      return { column, type, format: DATE_FORMATS[0] };
+    case 'case':
+      return { column, type, caseStyle: 'title' };
+    default:
+      return { column, type };
+  }
+};
+
+// A split name transform adds these two columns to the row, which are then
+// mapped like any other column.
+export const splitNameColumns = (column: string): [string, string] => [`${column} (First)`, `${column} (Last)`];
+
+export const getDerivedColumns = (transforms: ColumnTransform[]) =>
+  transforms.filter(transform => transform.type === 'splitName').flatMap(transform => splitNameColumns(transform.column));
+
+// Handles "Last, First" as well as "First Middle Last". Particles such as
+// "van" and suffixes such as "Jr." stay with the last name.
+export const splitFullName = (value: string): { first: string; last: string } => {
+  const name = value.trim().replace(/\s+/g, ' ');
+  if (!name) return { first: '', last: '' };
+
+  const comma = name.indexOf(',');
+  if (comma !== -1 && !NAME_SUFFIXES.includes(name.slice(comma + 1).trim().toLowerCase())) {
+    return { first: name.slice(comma + 1).trim(), last: name.slice(0, comma).trim() };
+  }
+
+  const parts = name.replace(/,/g, '').split(' ');
+  if (parts.length === 1) return { first: parts[0], last: '' };
+
+  let start = parts.length - 1;
+  if (start > 1 && NAME_SUFFIXES.includes(parts[start].toLowerCase())) start--;
+  while (start > 1 && NAME_PARTICLES.includes(parts[start - 1].toLowerCase())) start--;
+
+  return { first: parts.slice(0, start).join(' '), last: parts.slice(start).join(' ') };
+};
+
+// North American numbers are formatted as (555) 123-4567; anything else
+// keeps its digits with a leading + when it had one.
+export const normalizePhoneValue = (value: string) => {
+  const trimmed = value.trim();
+  const [number, extension] = trimmed.split(/\s*(?:ext\.?|x)\s*/i);
+  let digits = number.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+  if (digits.length < 7) return trimmed;
+
+  const formatted = digits.length === 10
+    ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+    : `${number.trim().startsWith('+') ? '+' : ''}${digits}`;
+  const extensionDigits = extension?.replace(/\D/g, '');
+  return extensionDigits ? `${formatted} x${extensionDigits}` : formatted;
+};
+
+const changeCase = (value: string, style?: CaseStyle) => {
+  switch (style) {
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    case 'title':
+      return value.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, separator, letter) => separator + letter.toUpperCase());
+    default:
+      return value;
+  }
+};
+
+// Values that cannot be converted are passed through unchanged, so the
+// validation step reports them against the original text.
+export const applyTransform = (transform: ColumnTransform, value: string) => {
+  switch (transform.type) {
+    case 'lookup': {
+      const needle = value.trim().toLowerCase();
+      const match = transform.values?.find(entry => entry.from.trim().toLowerCase() === needle);
+      return match ? match.to : value;
+    }
+    case 'date': {
+      if (!value.trim() || !transform.format) return value;
+      const date = dayjs(value.trim(), transform.format, true);
+      return date.isValid() ? date.format(OUTPUT_DATE_FORMAT) : value;
+    }
+    case 'phone':
+      return value.trim() ? normalizePhoneValue(value) : value;
+    case 'trim':
+      return value.trim().replace(/\s+/g, ' ');
+    case 'case':
+      return changeCase(value, transform.caseStyle);
+    default:
+      return value;
+  }
+};
+
+// Runs the column transforms, in order, over a raw CSV row before it is
+// mapped. Several transforms on one column see each other's output.
+export const applyTransforms = (row: Record<string, string>, transforms: ColumnTransform[]) => {
+  if (transforms.length === 0) return row;
+
+  const transformed = { ...row };
+  transforms.forEach(transform => {
+    if (!(transform.column in transformed)) return;
+
+    const value = transformed[transform.column] ?? '';
+    if (transform.type === 'splitName') {
+      const [firstColumn, lastColumn] = splitNameColumns(transform.column);
+      const { first, last } = splitFullName(value);
+      transformed[firstColumn] = first;
+      transformed[lastColumn] = last;
+    } else {
+      transformed[transform.column] = applyTransform(transform, value);
+    }
+  });
+  return transformed;
+};
+
+// Human-readable result of one transform, for previews
+export const previewTransform = (transform: ColumnTransform, value: string) => {
+  if (transform.type === 'splitName') {
+    const { first, last } = splitFullName(value);
+    return `${first || '-'} / ${last || '-'}`;
+  }
+  return applyTransform(transform, value);
+};
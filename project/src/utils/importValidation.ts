@@ -0,0 +1,169 @@
+import dayjs from 'dayjs';
+import personSchema from '../entities/Person.json';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import type { ImportRowData } from './importMatching';
+
+export interface RowError {
+  rowNumber: number;
+  // Target field key; `fields.<key>` for custom fields
+  field: string;
+  label: string;
+  value: string;
+  message: string;
+}
+
+export interface CoreImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+// Required flags come from the Person schema. Status defaults to active, so
+// only the names must be present on new people.
+export const CORE_IMPORT_FIELDS: CoreImportField[] = [
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'preferredName', label: 'Preferred Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'status', label: 'Status' },
+].map(field => ({
+  ...field,
+  required: field.key !== 'status' && personSchema.required.includes(field.key),
+}));
+
+const STATUS_VALUES: string[] = personSchema.properties.status.enum;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const isValidPhone = (value: string) => /^[\d\s()+.\-x]+$/i.test(value) && value.replace(/\D/g, '').length >= 7;
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Accepts an option's value or its label, case-insensitively
+const findOption = (field: ProfileFieldDef, value: string) => {
+  const needle = value.trim().toLowerCase();
+  return field.options?.find(option =>
+    option.value.toLowerCase() === needle || option.label.toLowerCase() === needle
+  );
+};
+
+// Checks one custom field value and converts it to the type stored on Person.
+const convertFieldValue = (field: ProfileFieldDef, raw: string): { value?: any; error?: string } => {
+  switch (field.type) {
+    case 'number': {
+      const number = Number(raw.replace(/,/g, ''));
+      return Number.isFinite(number) ? { value: number } : { error: 'Must be a number' };
+    }
+    case 'date': {
+      const date = dayjs(raw);
+      return date.isValid() ? { value: date.toISOString() } : { error: 'Must be a valid date' };
+    }
+    case 'checkbox': {
+      const normalized = raw.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: 'Must be yes or no' };
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(raw) ? { value: raw } : { error: 'Must be a valid email address' };
+    case 'phone':
+      return isValidPhone(raw) ? { value: raw } : { error: 'Must be a valid phone number' };
+    case 'url':
+      return isValidUrl(raw) ? { value: raw } : { error: 'Must be a full http(s) URL' };
+    case 'select': {
+      const option = findOption(field, raw);
+      return option ? { value: option.value } : { error: `"${raw}" is not one of the options` };
+    }
+    case 'multiselect': {
+      const parts = raw.split(/[;|]/).map(part => part.trim()).filter(Boolean);
+      const unknown = parts.filter(part => !findOption(field, part));
+      return unknown.length === 0
+        ? { value: parts.map(part => findOption(field, part)!.value) }
+        : { error: `${unknown.map(part => `"${part}"`).join(', ')} not in the options` };
+    }
+    default:
+      return { value: raw };
+  }
+};
+
+// Validates a mapped row against the Person schema and the profile field
+// definitions. `isNew` rows must carry every required field; rows updating an
+// existing person are only checked for the columns they contain.
+export const validateImportRow = (
+  rowNumber: number,
+  data: ImportRowData,
+  profileFields: ProfileFieldDef[],
+  isNew: boolean
+): { data: ImportRowData; errors: RowError[] } => {
+  const errors: RowError[] = [];
+  const converted: ImportRowData = { ...data, fields: {} };
+  const addError = (field: string, label: string, value: unknown, message: string) =>
+    errors.push({ rowNumber, field, label, value: isBlank(value) ? '' : String(value), message });
+
+  CORE_IMPORT_FIELDS.forEach(field => {
+    const value = data[field.key];
+    const present = field.key in data;
+
+    if (isBlank(value)) {
+      if (field.required && (isNew || present)) {
+        addError(field.key, field.label, value, 'Required');
+      }
+      // Blank cells never wipe existing values
+      delete converted[field.key];
+      return;
+    }
+
+    if (field.key === 'status') {
+      const status = String(value).toLowerCase();
+      if (STATUS_VALUES.includes(status)) {
+        converted.status = status;
+      } else {
+        addError(field.key, field.label, value, `Must be one of ${STATUS_VALUES.join(', ')}`);
+      }
+    } else if (field.key === 'email' && !EMAIL_PATTERN.test(value)) {
+      addError(field.key, field.label, value, 'Must be a valid email address');
+    } else if (field.key === 'phone' && !isValidPhone(value)) {
+      addError(field.key, field.label, value, 'Must be a valid phone number');
+    }
+  });
+
+  profileFields.forEach(field => {
+    const raw = data.fields[field.key];
+    const present = field.key in data.fields;
+
+    if (isBlank(raw)) {
+      if (field.required && (isNew || present)) {
+        addError(`fields.${field.key}`, field.label, raw, 'Required');
+      }
+      return;
+    }
+
+    const result = convertFieldValue(field, String(raw).trim());
+    if (result.error) {
+      addError(`fields.${field.key}`, field.label, raw, result.error);
+    } else {
+      converted.fields[field.key] = result.value;
+    }
+  });
+
+  // Mapped keys without a definition (e.g. an archived field) pass through
+  Object.entries(data.fields).forEach(([key, value]) => {
+    if (!profileFields.some(field => field.key === key) && !isBlank(value)) {
+      converted.fields[key] = value;
+    }
+  });
+
+  return { data: converted, errors };
+};
@@ -0,0 +1,88 @@
+import { OrgInvitation } from '../entities/OrgInvitation';
+import { OrgMember } from '../entities/OrgMember';
+import type { User } from '../types';
+import { getRouterBasename } from './routerUtils';
+
+// Written by public/auth-callback.html when an invitation link is opened and
+// consumed by AuthProvider once the user is signed in.
+export const PENDING_INVITE_KEY = 'pendingInviteToken';
+
+export const INVITATION_TTL_DAYS = 14;
+
+export const createInvitationToken = () => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getInvitationLink = (token: string) =>
+  `${window.location.origin}${getRouterBasename()}/auth-callback.html?invite=${token}`;
+
+export const isInvitationExpired = (invitation: OrgInvitation) =>
+  new Date(invitation.expiresAt).getTime() < Date.now();
+
+export interface RedeemResult {
+  success: boolean;
+  message: string;
+  organizationId?: string;
+}
+
+// Turns a pending invitation into an OrgMember row for the signed-in user.
+export const redeemInvitation = async (token: string, user: User): Promise<RedeemResult> => {
+  const response = await OrgInvitation.query({ where: { token }, limit: 1, allOrganizations: true });
+  const invitation = response.success ? response.data[0] : undefined;
+
+  if (!invitation || invitation.status === 'revoked') {
+    return { success: false, message: 'This invitation is no longer valid.' };
+  }
+  if (invitation.status === 'accepted') {
+    return { success: false, message: 'This invitation has already been used.' };
+  }
+  if (isInvitationExpired(invitation)) {
+    return { success: false, message: 'This invitation has expired. Ask for a new one.' };
+  }
+  if (invitation.email.toLowerCase() !== user.email?.toLowerCase()) {
+    return { success: false, message: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.` };
+  }
+
+  const existing = await OrgMember.query({
+    where: { organizationId: invitation.organizationId, userId: user._id },
+    limit: 1,
+    allOrganizations: true,
+  });
+
+  // Without knowing whether the user is already a member, adding them could
+  // leave them in the organization twice
+  if (!existing.success) {
+    return { success: false, message: 'Could not accept the invitation. Please try again.' };
+  }
+
+  if (existing.data.length === 0) {
+    const created = await OrgMember.create({
+      organizationId: invitation.organizationId,
+      userId: user._id,
+      email: user.email,
+      name: user.name,
+      role: invitation.role,
+    });
+    if (!created.success) {
+      return { success: false, message: 'Could not accept the invitation. Please try again.' };
+    }
+  }
+
+  // The membership is kept if this fails; trying again finds it and only
+  // marks the invitation as used
+  const accepted = await OrgInvitation.update(invitation._id, {
+    status: 'accepted',
+    acceptedByUserId: user._id,
+  });
+  if (!accepted.success) {
+    return { success: false, message: 'Could not accept the invitation. Please try again.' };
+  }
+
+  return {
+    success: true,
+    message: 'Invitation accepted.',
+    organizationId: invitation.organizationId,
+  };
+};
@@ -0,0 +1,70 @@
+// Common English given names and their nicknames. Searching any name in a
+// group also finds the others, so "Bob" finds "Robert" and the other way round.
+const NICKNAME_GROUPS = [
+  ['abigail', 'abby', 'abbie', 'gail'],
+  ['alexander', 'alex', 'al', 'sasha', 'xander'],
+  ['alexandra', 'alex', 'alexa', 'sandra', 'sasha'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony'],
+  ['barbara', 'barb', 'barbie'],
+  ['benjamin', 'ben', 'benny', 'benji'],
+  ['catherine', 'katherine', 'kathryn', 'cathy', 'kathy', 'kate', 'katie', 'kat', 'kit'],
+  ['charles', 'charlie', 'chuck', 'chaz'],
+  ['christina', 'christine', 'chris', 'chrissy', 'tina'],
+  ['christopher', 'chris', 'topher', 'kit'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['deborah', 'debra', 'deb', 'debbie'],
+  ['donald', 'don', 'donnie'],
+  ['dorothy', 'dot', 'dottie', 'dolly'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'betsy', 'eliza', 'libby'],
+  ['frances', 'francis', 'fran', 'frankie'],
+  ['frederick', 'fred', 'freddie'],
+  ['gerald', 'gerry', 'jerry'],
+  ['gregory', 'greg'],
+  ['harold', 'harry', 'hal'],
+  ['henry', 'hank', 'harry', 'hal'],
+  ['jacob', 'jake'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['jennifer', 'jen', 'jenny'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['jonathan', 'jon', 'jonny', 'nathan'],
+  ['joseph', 'joe', 'joey'],
+  ['joshua', 'josh'],
+  ['kenneth', 'ken', 'kenny'],
+  ['lawrence', 'larry', 'laurie'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'greta'],
+  ['matthew', 'matt', 'matty'],
+  ['michael', 'mike', 'mikey', 'mick', 'mickey'],
+  ['nicholas', 'nick', 'nicky'],
+  ['pamela', 'pam'],
+  ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete'],
+  ['rebecca', 'becky', 'becca'],
+  ['richard', 'rick', 'ricky', 'rich', 'richie', 'dick'],
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+  ['ronald', 'ron', 'ronnie'],
+  ['samantha', 'sam', 'sammy'],
+  ['samuel', 'sam', 'sammy'],
+  ['stephen', 'steven', 'steve', 'stevie'],
+  ['susan', 'sue', 'susie', 'suzy'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['thomas', 'tom', 'tommy'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'tori'],
+  ['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+for (const group of NICKNAME_GROUPS) {
+  for (const name of group) {
+    const related = NICKNAMES.get(name) || new Set<string>();
+    group.forEach(other => other !== name && related.add(other));
+    NICKNAMES.set(name, related);
+  }
+}
+
+// Names that are nicknames of, or have as a nickname, the given lowercase name
+export const getRelatedNames = (name: string) => NICKNAMES.get(name) ?? new Set<string>();
@@ -0,0 +1,248 @@
+// Organization backups: every org-scoped record of the entities below in one
+// versioned JSON archive, and restoring such an archive into an empty
+// organization. Records get new IDs on restore, so references between them
+// are remapped to the new IDs.
+import { Household } from '../entities/Household';
+import { HouseholdMember } from '../entities/HouseholdMember';
+import { Note } from '../entities/Note';
+import { OrgMember } from '../entities/OrgMember';
+import { Person } from '../entities/Person';
+import { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import { Tag } from '../entities/Tag';
+import type { EntityClient, EntityRecord } from './entityWrapper';
+
+export const BACKUP_FORMAT = 'organization-backup';
+export const BACKUP_VERSION = 1;
+
+const BACKUP_CLIENTS = {
+  Tag,
+  ProfileFieldDef,
+  Household,
+  Person,
+  HouseholdMember,
+  Note,
+  OrgMember,
+} as Record<string, EntityClient<EntityRecord>>;
+
+export type BackupEntityName = 'Tag' | 'ProfileFieldDef' | 'Household' | 'Person' | 'HouseholdMember' | 'Note' | 'OrgMember';
+
+// Restore order: records are created after the records they point to
+export const BACKUP_ENTITIES: BackupEntityName[] = [
+  'Tag',
+  'ProfileFieldDef',
+  'Household',
+  'Person',
+  'HouseholdMember',
+  'Note',
+  'OrgMember',
+];
+
+export const BACKUP_ENTITY_LABELS: Record<BackupEntityName, string> = {
+  Tag: 'Tags',
+  ProfileFieldDef: 'Profile fields',
+  Household: 'Households',
+  Person: 'People',
+  HouseholdMember: 'Household members',
+  Note: 'Notes',
+  OrgMember: 'Team members',
+};
+
+// Fields holding the ID of another record in the archive. User IDs (note
+// authors, team members) are global and kept as they are.
+const REFERENCES: Partial<Record<BackupEntityName, Record<string, BackupEntityName>>> = {
+  Person: { householdId: 'Household', tagIds: 'Tag', mergedIntoId: 'Person' },
+  HouseholdMember: { householdId: 'Household', personId: 'Person' },
+  Note: { personId: 'Person' },
+};
+
+// A record without these is not restored
+const REQUIRED_REFERENCES: Partial<Record<BackupEntityName, string[]>> = {
+  HouseholdMember: ['householdId', 'personId'],
+  Note: ['personId'],
+};
+
+// Set by the server on every record
+const SERVER_FIELDS = ['_id', 'organizationId', 'createdAt', 'updatedAt'];
+
+type BackupRecord = Record<string, any> & { _id: string };
+
+export interface OrgBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  organization: { _id: string; name: string };
+  entities: Record<BackupEntityName, BackupRecord[]>;
+}
+
+export const getBackupCounts = (backup: OrgBackup) =>
+  Object.fromEntries(BACKUP_ENTITIES.map(name => [name, backup.entities[name].length])) as Record<BackupEntityName, number>;
+
+export const createOrgBackup = async (
+  organization: { _id: string; name: string },
+  onProgress?: (entity: BackupEntityName) => void
+): Promise<OrgBackup> => {
+  const entities = {} as Record<BackupEntityName, BackupRecord[]>;
+  for (const name of BACKUP_ENTITIES) {
+    onProgress?.(name);
+    const response = await BACKUP_CLIENTS[name].queryAll();
+    if (!response.success) {
+      throw new Error(response.message || `Failed to load ${BACKUP_ENTITY_LABELS[name].toLowerCase()}`);
+    }
+    entities[name] = response.data as BackupRecord[];
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    organization: { _id: organization._id, name: organization.name },
+    entities,
+  };
+};
+
+// Reads an archive file, rejecting anything that is not a backup this
+// version of the app understands
+export const parseOrgBackup = (text: string): OrgBackup => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (data?.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    throw new Error('The file is not an organization backup');
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error(`The backup was made by a newer version of the app (format version ${data.version})`);
+  }
+  const invalid = BACKUP_ENTITIES.find(name =>
+    !Array.isArray(data.entities?.[name]) || data.entities[name].some((record: any) => typeof record?._id !== 'string')
+  );
+  if (invalid) {
+    throw new Error(`The backup's ${BACKUP_ENTITY_LABELS[invalid].toLowerCase()} are missing or damaged`);
+  }
+  return data as OrgBackup;
+};
+
+// Entities that already have records in the active organization. Team
+// members are left out since the person restoring is always one.
+export const findExistingData = async () => {
+  const names = BACKUP_ENTITIES.filter(name => name !== 'OrgMember');
+  const responses = await Promise.all(names.map(name => BACKUP_CLIENTS[name].query({ limit: 1, fields: ['_id'] })));
+  const failed = responses.find(response => !response.success);
+  if (failed) throw new Error(failed.message || 'Failed to check the organization');
+  return names.filter((_, i) => responses[i].data.length > 0);
+};
+
+export interface RestoreOptions {
+  // Team memberships give the archive's users access to this organization
+  includeTeam: boolean;
+  onProgress?: (restored: number, total: number) => void;
+}
+
+export interface RestoreResult {
+  restored: Record<BackupEntityName, number>;
+  // Records left out because a record they depend on is not in the archive
+  skipped: number;
+  // References to records that are not in the archive, which were cleared
+  droppedReferences: number;
+}
+
+// Restores into the active organization, which must be empty. When any record
+// fails, everything restored so far is deleted again.
+export const restoreOrgBackup = async (backup: OrgBackup, { includeTeam, onProgress }: RestoreOptions) => {
+  const existing = await findExistingData();
+  if (existing.length > 0) {
+    throw new Error('Backups can only be restored into an empty organization');
+  }
+
+  const teamResponse = await OrgMember.queryAll({ fields: ['userId'] });
+  if (!teamResponse.success) throw new Error(teamResponse.message);
+  const existingUserIds = new Set(teamResponse.data.map(member => member.userId));
+
+  const names = BACKUP_ENTITIES.filter(name => name !== 'OrgMember' || includeTeam);
+  const total = names.reduce((sum, name) => sum + backup.entities[name].length, 0);
+  const idMaps = Object.fromEntries(BACKUP_ENTITIES.map(name => [name, new Map<string, string>()])) as Record<BackupEntityName, Map<string, string>>;
+  const created: { name: BackupEntityName; id: string }[] = [];
+  const result: RestoreResult = {
+    restored: Object.fromEntries(BACKUP_ENTITIES.map(name => [name, 0])) as Record<BackupEntityName, number>,
+    skipped: 0,
+    droppedReferences: 0,
+  };
+  let done = 0;
+
+  const remap = (value: any, target: BackupEntityName) => {
+    if (Array.isArray(value)) {
+      const mapped = value.map(id => idMaps[target].get(id)).filter((id): id is string => Boolean(id));
+      result.droppedReferences += value.length - mapped.length;
+      return mapped;
+    }
+    if (!value) return value;
+    const mapped = idMaps[target].get(value);
+    if (!mapped) result.droppedReferences += 1;
+    return mapped ?? null;
+  };
+
+  try {
+    for (const name of names) {
+      const client = BACKUP_CLIENTS[name];
+      const references = REFERENCES[name] || {};
+      // References to the same entity (people merged into other people) are
+      // set once every record of that entity exists
+      const selfReferences = Object.keys(references).filter(field => references[field] === name);
+      const deferred: { id: string; record: BackupRecord }[] = [];
+
+      for (const record of backup.entities[name]) {
+        // People already on the team keep their current role
+        if (name === 'OrgMember' && existingUserIds.has(record.userId)) {
+          done += 1;
+          onProgress?.(done, total);
+          continue;
+        }
+
+        const data: Record<string, any> = Object.fromEntries(
+          Object.entries(record).filter(([key]) => !SERVER_FIELDS.includes(key) && !selfReferences.includes(key))
+        );
+        Object.entries(references).forEach(([field, target]) => {
+          if (target !== name && field in data) data[field] = remap(data[field], target);
+        });
+
+        if (REQUIRED_REFERENCES[name]?.some(field => !data[field])) {
+          result.skipped += 1;
+        } else {
+          const response = await client.create(data);
+          if (!response.success) {
+            throw new Error(`Failed to restore ${BACKUP_ENTITY_LABELS[name].toLowerCase()}: ${response.message}`);
+          }
+          created.push({ name, id: response.data._id });
+          idMaps[name].set(record._id, response.data._id);
+          result.restored[name] += 1;
+          if (selfReferences.some(field => record[field])) {
+            deferred.push({ id: response.data._id, record });
+          }
+        }
+
+        done += 1;
+        onProgress?.(done, total);
+      }
+
+      for (const { id, record } of deferred) {
+        const data = Object.fromEntries(selfReferences.map(field => [field, remap(record[field], name)]));
+        const response = await client.update(id, data);
+        if (!response.success) throw new Error(response.message);
+      }
+    }
+  } catch (error) {
+    for (const { name, id } of [...created].reverse()) {
+      try {
+        await BACKUP_CLIENTS[name].delete(id);
+      } catch (deleteError) {
+        console.error(`Failed to remove restored ${name} ${id}:`, deleteError);
+      }
+    }
+    throw error;
+  }
+
+  return result;
+};
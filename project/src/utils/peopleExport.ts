@@ -0,0 +1,350 @@
+// People export to CSV, Excel and vCard. People are loaded a page at a time
+// and each page is written before the next is fetched, so large exports are
+// built in chunks and the browser stays responsive.
+import dayjs from 'dayjs';
+import { Person } from '../entities/Person';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import type { Tag } from '../entities/Tag';
+import type { PagedResponse } from '../types';
+import { toCsv } from './csv';
+import {
+  ADDRESS_FIELDS,
+  RELATIONSHIP_LABELS,
+  formatAddressee,
+  getGroupName,
+  getPersonHousehold,
+  groupByHousehold,
+  loadHouseholdIndex,
+} from './households';
+import type { AddressField, HouseholdGroup, HouseholdIndex } from './households';
+import { toVCard } from './vcard';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'vcard';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  xlsx: {
+    label: 'Excel',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  vcard: { label: 'vCard', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8;' },
+};
+
+// A row per person, or a row per household for mailing lists
+export type ExportRowMode = 'person' | 'household';
+
+export type ExportCellType = 'text' | 'number' | 'date' | 'boolean';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  type: ExportCellType;
+  // Set on columns read from the person's household address
+  addressField?: AddressField;
+}
+
+export type ExportCell = string | number | boolean | Date | null;
+
+export const CORE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'firstName', label: 'First Name', type: 'text' },
+  { key: 'lastName', label: 'Last Name', type: 'text' },
+  { key: 'preferredName', label: 'Preferred Name', type: 'text' },
+  { key: 'email', label: 'Email', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'text' },
+  { key: 'status', label: 'Status', type: 'text' },
+  { key: 'tags', label: 'Tags', type: 'text' },
+  { key: 'createdAt', label: 'Created Date', type: 'date' },
+  { key: 'updatedAt', label: 'Updated Date', type: 'date' },
+];
+
+const ADDRESS_EXPORT_COLUMNS: ExportColumn[] = ADDRESS_FIELDS.map(field => ({
+  key: `household.${field.key}`,
+  label: field.label,
+  type: 'text',
+  addressField: field.key,
+}));
+
+export const HOUSEHOLD_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'household', label: 'Household', type: 'text' },
+  { key: 'householdRelationship', label: 'Relationship', type: 'text' },
+  ...ADDRESS_EXPORT_COLUMNS,
+];
+
+// Fixed columns of the one-row-per-household export
+export const MAILING_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'addressee', label: 'Addressee', type: 'text' },
+  { key: 'household', label: 'Household', type: 'text' },
+  ...ADDRESS_EXPORT_COLUMNS,
+  { key: 'email', label: 'Email', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'text' },
+  { key: 'memberCount', label: 'People', type: 'number' },
+];
+
+const isHouseholdColumn = (column: ExportColumn) => HOUSEHOLD_EXPORT_COLUMNS.some(c => c.key === column.key);
+
+const PROFILE_FIELD_CELL_TYPES: Partial<Record<ProfileFieldDef['type'], ExportCellType>> = {
+  number: 'number',
+  date: 'date',
+  checkbox: 'boolean',
+};
+
+// Columns in the order they were selected
+export const getExportColumns = (keys: string[], profileFields: ProfileFieldDef[]): ExportColumn[] =>
+  keys.map(key => {
+    const coreColumn = [...CORE_EXPORT_COLUMNS, ...HOUSEHOLD_EXPORT_COLUMNS].find(column => column.key === key);
+    if (coreColumn) return coreColumn;
+
+    const field = profileFields.find(f => f.key === key);
+    return { key, label: field?.label || key, type: (field && PROFILE_FIELD_CELL_TYPES[field.type]) || 'text' };
+  });
+
+export interface ExportContext {
+  tags: Tag[];
+  // Loaded by createExportWriter when the export needs household data
+  households?: HouseholdIndex;
+}
+
+const getTagNames = (person: Person, context: ExportContext) =>
+  context.tags.filter(tag => person.tagIds?.includes(tag._id)).map(tag => tag.name);
+
+// The calendar date a stored value falls on, as UTC midnight, which is how
+// spreadsheets store date-only values.
+const toCalendarDate = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = dayjs(value as string);
+  return date.isValid() ? new Date(Date.UTC(date.year(), date.month(), date.date())) : null;
+};
+
+// Typed value of one cell; each writer formats it for its file type
+export const getCellValue = (person: Person, column: ExportColumn, context: ExportContext): ExportCell => {
+  switch (column.key) {
+    case 'tags':
+      return getTagNames(person, context).join('; ');
+    case 'household':
+      return getPersonHousehold(person, context.households).household?.name || null;
+    case 'householdRelationship': {
+      const { relationship } = getPersonHousehold(person, context.households);
+      return relationship ? RELATIONSHIP_LABELS[relationship] : null;
+    }
+    case 'createdAt':
+    case 'updatedAt':
+      return toCalendarDate(person[column.key]);
+  }
+
+  if (column.addressField) {
+    return getPersonHousehold(person, context.households).household?.[column.addressField] || null;
+  }
+
+  const isCore = CORE_EXPORT_COLUMNS.some(c => c.key === column.key);
+  const value = isCore ? person[column.key as keyof Person] : person.fields?.[column.key];
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.join('; ');
+
+  switch (column.type) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : String(value);
+    }
+    case 'date':
+      return toCalendarDate(value) ?? String(value);
+    case 'boolean':
+      return Boolean(value);
+    default:
+      return String(value);
+  }
+};
+
+export const formatTextCell = (value: ExportCell) => {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export interface ExportWriter {
+  addPeople: (people: Person[]) => void;
+  finish: () => Promise<Blob>;
+}
+
+// Rows of typed cells, written to a CSV or Excel file
+interface TableWriter {
+  addRows: (rows: ExportCell[][]) => void;
+  finish: () => Promise<Blob>;
+}
+
+// The file is kept as a list of chunks and only joined by the Blob
+const createCsvTableWriter = (columns: ExportColumn[]): TableWriter => {
+  const chunks = [toCsv([columns.map(column => column.label)])];
+  return {
+    addRows: (rows) => {
+      if (rows.length === 0) return;
+      chunks.push('\r\n', toCsv(rows.map(row => row.map(formatTextCell))));
+    },
+    finish: async () => new Blob(chunks, { type: EXPORT_FORMATS.csv.mimeType }),
+  };
+};
+
+const createXlsxTableWriter = async (columns: ExportColumn[], sheetName: string): Promise<TableWriter> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({
+    header: column.label,
+    key: column.key,
+    width: column.type === 'text' ? 20 : 14,
+    style: column.type === 'date' ? { numFmt: 'yyyy-mm-dd' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  return {
+    addRows: (rows) => {
+      rows.forEach(row => sheet.addRow(row));
+    },
+    finish: async () => new Blob([await workbook.xlsx.writeBuffer()], { type: EXPORT_FORMATS.xlsx.mimeType }),
+  };
+};
+
+const createPersonRowWriter = (table: TableWriter, columns: ExportColumn[], context: ExportContext): ExportWriter => ({
+  addPeople: (people) => {
+    table.addRows(people.map(person => columns.map(column => getCellValue(person, column, context))));
+  },
+  finish: table.finish,
+});
+
+const getHouseholdRow = (group: HouseholdGroup) => {
+  const { household, members } = group;
+  const firstValue = (key: 'email' | 'phone') => members.find(member => member.person[key])?.person[key] || null;
+
+  return MAILING_EXPORT_COLUMNS.map((column): ExportCell => {
+    if (column.addressField) return household?.[column.addressField] || null;
+    switch (column.key) {
+      case 'addressee':
+        return formatAddressee(members);
+      case 'household':
+        return getGroupName(group);
+      case 'email':
+      case 'phone':
+        return firstValue(column.key);
+      default:
+        return members.length;
+    }
+  });
+};
+
+// Households are only complete once every page has arrived, so the rows are
+// written at the end, sorted by household. Only the exported people are
+// named in the addressee.
+const createHouseholdRowWriter = (table: TableWriter, context: ExportContext): ExportWriter => {
+  const people: Person[] = [];
+  return {
+    addPeople: (page) => {
+      people.push(...page);
+    },
+    finish: async () => {
+      const groups = context.households ? groupByHousehold(people, context.households) : [];
+      groups.sort((a, b) => getGroupName(a).localeCompare(getGroupName(b)));
+      table.addRows(groups.map(getHouseholdRow));
+      return table.finish();
+    },
+  };
+};
+
+// Contacts carry a fixed set of fields, so the column selection does not
+// apply. The birthday comes from a date profile field when one is chosen.
+const createVCardWriter = (context: ExportContext, birthdayField?: string): ExportWriter => {
+  const chunks: string[] = [];
+  return {
+    addPeople: (people) => {
+      chunks.push(people.map(person => {
+        const birthday = birthdayField ? toCalendarDate(person.fields?.[birthdayField]) : null;
+        return toVCard({
+          firstName: person.firstName,
+          lastName: person.lastName,
+          nickname: person.preferredName,
+          email: person.email,
+          phone: person.phone,
+          birthday: birthday ? birthday.toISOString().slice(0, 10) : undefined,
+          categories: getTagNames(person, context),
+        });
+      }).join(''));
+    },
+    finish: async () => new Blob(chunks, { type: EXPORT_FORMATS.vcard.mimeType }),
+  };
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  context: ExportContext;
+  rowMode?: ExportRowMode;
+  birthdayField?: string;
+}
+
+export const createExportWriter = async ({
+  format,
+  columns,
+  context,
+  rowMode = 'person',
+  birthdayField,
+}: ExportOptions): Promise<ExportWriter> => {
+  if (format === 'vcard') return createVCardWriter(context, birthdayField);
+
+  const byHousehold = rowMode === 'household';
+  const needsHouseholds = byHousehold || columns.some(isHouseholdColumn);
+  const fullContext = needsHouseholds ? { ...context, households: await loadHouseholdIndex() } : context;
+  const tableColumns = byHousehold ? MAILING_EXPORT_COLUMNS : columns;
+  const table = format === 'xlsx'
+    ? await createXlsxTableWriter(tableColumns, byHousehold ? 'Households' : 'People')
+    : createCsvTableWriter(tableColumns);
+
+  return byHousehold
+    ? createHouseholdRowWriter(table, fullContext)
+    : createPersonRowWriter(table, columns, fullContext);
+};
+
+const EXPORT_PAGE_SIZE = 500;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Walks every person matching `where`, one page at a time, reporting how many
+// have been written so far.
+export const exportPeople = async (
+  where: Record<string, any>,
+  writer: ExportWriter,
+  onProgress?: (written: number) => void
+) => {
+  let written = 0;
+  let cursor: string | null = null;
+  do {
+    const page: PagedResponse<Person> = await Person.query({
+      where,
+      sort: 'lastName',
+      limit: EXPORT_PAGE_SIZE,
+      cursor,
+    });
+    if (!page.success) {
+      throw new Error(page.message || 'Failed to load people');
+    }
+
+    writer.addPeople(page.data);
+    written += page.data.length;
+    onProgress?.(written);
+    cursor = page.nextCursor || null;
+    await yieldToEventLoop();
+  } while (cursor);
+
+  return { blob: await writer.finish(), count: written };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,334 @@
+// Advanced people filters: a tree of AND/OR groups of field conditions. The
+// tree is translated into a query() where clause and encoded into the URL so
+// a filtered list can be shared by link.
+import dayjs from 'dayjs';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import { containsText, equalsText } from './queryUtils';
+
+export type QueryFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'tags' | 'household';
+
+export interface QueryField {
+  key: string;
+  label: string;
+  type: QueryFieldType;
+  // Property path in the Person record
+  path: string;
+  options?: { value: string; label: string }[];
+}
+
+export type QueryOperator =
+  | 'contains'
+  | 'equals'
+  | 'notEquals'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'inLast'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'includesAny'
+  | 'includesAll'
+  | 'isTrue'
+  | 'isFalse'
+  | 'isEmpty'
+  | 'isNotEmpty';
+
+// What the value editor of an operator asks for
+export type OperatorValue = 'none' | 'single' | 'range' | 'multiple';
+
+export const OPERATORS: Record<QueryOperator, { label: string; value: OperatorValue }> = {
+  contains: { label: 'contains', value: 'single' },
+  equals: { label: 'is', value: 'single' },
+  notEquals: { label: 'is not', value: 'single' },
+  before: { label: 'is before', value: 'single' },
+  after: { label: 'is after', value: 'single' },
+  between: { label: 'is between', value: 'range' },
+  inLast: { label: 'is in the last (days)', value: 'single' },
+  greaterThan: { label: 'is greater than', value: 'single' },
+  lessThan: { label: 'is less than', value: 'single' },
+  includesAny: { label: 'includes any of', value: 'multiple' },
+  includesAll: { label: 'includes all of', value: 'multiple' },
+  isTrue: { label: 'is checked', value: 'none' },
+  isFalse: { label: 'is not checked', value: 'none' },
+  isEmpty: { label: 'is empty', value: 'none' },
+  isNotEmpty: { label: 'is not empty', value: 'none' },
+};
+
+export const FIELD_TYPE_OPERATORS: Record<QueryFieldType, QueryOperator[]> = {
+  text: ['contains', 'equals', 'isEmpty', 'isNotEmpty'],
+  number: ['equals', 'greaterThan', 'lessThan', 'between', 'isEmpty', 'isNotEmpty'],
+  date: ['equals', 'before', 'after', 'between', 'inLast', 'isEmpty', 'isNotEmpty'],
+  select: ['equals', 'notEquals', 'includesAny', 'isEmpty', 'isNotEmpty'],
+  multiselect: ['includesAny', 'includesAll', 'isEmpty', 'isNotEmpty'],
+  checkbox: ['isTrue', 'isFalse'],
+  tags: ['includesAny', 'includesAll', 'isEmpty', 'isNotEmpty'],
+  household: ['isEmpty', 'isNotEmpty'],
+};
+
+// Wording that reads better than the generic label for some field types
+const OPERATOR_LABEL_OVERRIDES: Partial<Record<QueryFieldType, Partial<Record<QueryOperator, string>>>> = {
+  date: { equals: 'is on' },
+  select: { includesAny: 'is any of' },
+  tags: { isEmpty: 'has no tags', isNotEmpty: 'has any tag' },
+  household: { isEmpty: 'has no household', isNotEmpty: 'has a household' },
+};
+
+export const getOperatorLabel = (field: QueryField | undefined, operator: QueryOperator) =>
+  (field && OPERATOR_LABEL_OVERRIDES[field.type]?.[operator]) || OPERATORS[operator].label;
+
+const STATUS_OPTIONS = [
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'visitor', label: 'Visitor' },
+];
+
+const CORE_QUERY_FIELDS: QueryField[] = [
+  { key: 'firstName', label: 'First Name', type: 'text', path: 'firstName' },
+  { key: 'lastName', label: 'Last Name', type: 'text', path: 'lastName' },
+  { key: 'preferredName', label: 'Preferred Name', type: 'text', path: 'preferredName' },
+  { key: 'email', label: 'Email', type: 'text', path: 'email' },
+  { key: 'phone', label: 'Phone', type: 'text', path: 'phone' },
+  { key: 'status', label: 'Status', type: 'select', path: 'status', options: STATUS_OPTIONS },
+  { key: 'tags', label: 'Tags', type: 'tags', path: 'tagIds' },
+  { key: 'household', label: 'Household', type: 'household', path: 'householdId' },
+  { key: 'createdAt', label: 'Created Date', type: 'date', path: 'createdAt' },
+  { key: 'updatedAt', label: 'Updated Date', type: 'date', path: 'updatedAt' },
+];
+
+const PROFILE_FIELD_QUERY_TYPES: Partial<Record<ProfileFieldDef['type'], QueryFieldType>> = {
+  number: 'number',
+  date: 'date',
+  checkbox: 'checkbox',
+  select: 'select',
+  multiselect: 'multiselect',
+};
+
+// Profile fields are keyed by their path so they cannot clash with core fields
+export const getQueryFields = (profileFields: ProfileFieldDef[]): QueryField[] => [
+  ...CORE_QUERY_FIELDS,
+  ...profileFields.map(field => ({
+    key: `fields.${field.key}`,
+    label: field.label,
+    type: PROFILE_FIELD_QUERY_TYPES[field.type] || 'text',
+    path: `fields.${field.key}`,
+    options: field.options,
+  })),
+];
+
+export type QueryValue = string | number | null | (string | number | null)[];
+
+export interface QueryRule {
+  id: string;
+  kind: 'rule';
+  field: string;
+  operator: QueryOperator;
+  value?: QueryValue;
+}
+
+export interface QueryGroup {
+  id: string;
+  kind: 'group';
+  combinator: 'and' | 'or';
+  rules: QueryNode[];
+}
+
+export type QueryNode = QueryRule | QueryGroup;
+
+// Groups nest at most this deep, which keeps the builder readable
+export const MAX_GROUP_DEPTH = 3;
+
+let nextNodeId = 0;
+const createNodeId = () => `q${++nextNodeId}`;
+
+export const createQueryGroup = (combinator: QueryGroup['combinator'] = 'and', rules: QueryNode[] = []): QueryGroup => ({
+  id: createNodeId(),
+  kind: 'group',
+  combinator,
+  rules,
+});
+
+export const createQueryRule = (field: QueryField): QueryRule => ({
+  id: createNodeId(),
+  kind: 'rule',
+  field: field.key,
+  operator: FIELD_TYPE_OPERATORS[field.type][0],
+});
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// A rule without the value its operator needs does not filter anything yet
+export const isRuleComplete = (rule: QueryRule) => {
+  const { value } = rule;
+  switch (OPERATORS[rule.operator].value) {
+    case 'none':
+      return true;
+    case 'single':
+      return !isBlank(value) && !Array.isArray(value);
+    case 'range':
+      return Array.isArray(value) && value.length === 2 && value.some(bound => !isBlank(bound));
+    case 'multiple':
+      return Array.isArray(value) && value.length > 0;
+  }
+};
+
+export const countQueryRules = (node: QueryNode): number =>
+  node.kind === 'rule' ? (isRuleComplete(node) ? 1 : 0) : node.rules.reduce((sum, child) => sum + countQueryRules(child), 0);
+
+// Dates are compared as ISO strings over whole local days, the way the
+// date pickers store them
+const startOfDay = (value: string | number) => dayjs(value).startOf('day').toISOString();
+const startOfNextDay = (value: string | number) => dayjs(value).startOf('day').add(1, 'day').toISOString();
+
+const toNumber = (value: unknown) => Number(value);
+
+const ruleToWhere = (rule: QueryRule, field: QueryField): Record<string, any> => {
+  const { path, type } = field;
+  const value = rule.value;
+  const values = Array.isArray(value) ? value : [];
+  const isList = type === 'multiselect' || type === 'tags';
+
+  switch (rule.operator) {
+    case 'contains':
+      return { [path]: containsText(String(value)) };
+    case 'equals':
+      if (type === 'text') return { [path]: equalsText(String(value)) };
+      if (type === 'number') return { [path]: toNumber(value) };
+      if (type === 'date') return { [path]: { $gte: startOfDay(value as string), $lt: startOfNextDay(value as string) } };
+      return { [path]: value };
+    case 'notEquals':
+      return { [path]: { $ne: value } };
+    case 'before':
+      return { [path]: { $lt: startOfDay(value as string) } };
+    case 'after':
+      return { [path]: { $gte: startOfNextDay(value as string) } };
+    case 'between': {
+      const [from, to] = values;
+      const range: Record<string, any> = {};
+      if (type === 'date') {
+        if (!isBlank(from)) range.$gte = startOfDay(from as string);
+        if (!isBlank(to)) range.$lt = startOfNextDay(to as string);
+      } else {
+        if (!isBlank(from)) range.$gte = toNumber(from);
+        if (!isBlank(to)) range.$lte = toNumber(to);
+      }
+      return { [path]: range };
+    }
+    // Relative to the day the query runs, so saved views stay current
+    case 'inLast':
+      return { [path]: { $gte: dayjs().startOf('day').subtract(toNumber(value), 'day').toISOString() } };
+    case 'greaterThan':
+      return { [path]: { $gt: toNumber(value) } };
+    case 'lessThan':
+      return { [path]: { $lt: toNumber(value) } };
+    case 'includesAny':
+      return { [path]: { $in: values } };
+    case 'includesAll':
+      return { [path]: { $all: values } };
+    case 'isTrue':
+      return { [path]: true };
+    case 'isFalse':
+      return { [path]: { $ne: true } };
+    case 'isEmpty':
+      return isList ? { [path]: { $in: [null, []] } } : { [path]: { $in: [null, ''] } };
+    case 'isNotEmpty':
+      return isList ? { [`${path}.0`]: { $exists: true } } : { [path]: { $nin: [null, ''] } };
+  }
+};
+
+// The where clause of a query, or null when it has no complete rules.
+// Rules on fields that no longer exist are ignored.
+export const queryToWhere = (node: QueryNode, fields: QueryField[]): Record<string, any> | null => {
+  if (node.kind === 'rule') {
+    const field = fields.find(f => f.key === node.field);
+    return field && isRuleComplete(node) ? ruleToWhere(node, field) : null;
+  }
+
+  const clauses = node.rules
+    .map(child => queryToWhere(child, fields))
+    .filter((clause): clause is Record<string, any> => clause !== null);
+  if (clauses.length === 0) return null;
+  if (clauses.length === 1) return clauses[0];
+  return { [node.combinator === 'or' ? '$or' : '$and']: clauses };
+};
+
+// URL form: groups are { "and": [...] } or { "or": [...] } and rules are
+// [field, operator, value?]. Node IDs are left out and recreated on decode.
+type EncodedNode = { and: EncodedNode[] } | { or: EncodedNode[] } | [string, QueryOperator, QueryValue?];
+
+const encodeNode = (node: QueryNode): EncodedNode | null => {
+  if (node.kind === 'rule') {
+    if (!isRuleComplete(node)) return null;
+    return OPERATORS[node.operator].value === 'none'
+      ? [node.field, node.operator]
+      : [node.field, node.operator, node.value ?? null];
+  }
+  const rules = node.rules.map(encodeNode).filter((child): child is EncodedNode => child !== null);
+  if (rules.length === 0) return null;
+  return node.combinator === 'or' ? { or: rules } : { and: rules };
+};
+
+export const encodeQuery = (group: QueryGroup) => {
+  const encoded = encodeNode(group);
+  return encoded ? JSON.stringify(encoded) : null;
+};
+
+const decodeNode = (data: any, depth: number): QueryNode | null => {
+  if (Array.isArray(data)) {
+    const [field, operator, value] = data;
+    if (typeof field !== 'string' || !(operator in OPERATORS)) return null;
+    return { id: createNodeId(), kind: 'rule', field, operator, value };
+  }
+  const combinator = Array.isArray(data?.or) ? 'or' : Array.isArray(data?.and) ? 'and' : null;
+  if (!combinator || depth > MAX_GROUP_DEPTH) return null;
+  const rules = (data[combinator] as unknown[])
+    .map(child => decodeNode(child, depth + 1))
+    .filter((child): child is QueryNode => child !== null);
+  return createQueryGroup(combinator, rules);
+};
+
+// Links may be edited by hand, so anything malformed is dropped
+export const decodeQuery = (text: string | null): QueryGroup | null => {
+  if (!text) return null;
+  try {
+    const node = decodeNode(JSON.parse(text), 1);
+    if (!node) return null;
+    return node.kind === 'group' ? node : createQueryGroup('and', [node]);
+  } catch {
+    return null;
+  }
+};
+
+export interface PeopleFilters {
+  status?: string;
+  tagIds?: string[];
+  [key: string]: any;
+}
+
+// The where clause of the people list's quick filters and advanced query,
+// which is passed already translated. Search text is matched separately, see
+// personSearch.ts.
+export const buildPeopleWhere = (filters: PeopleFilters, queryWhere: Record<string, any> | null) => {
+  // Merged records stay in the database but are hidden from the list
+  const conditions: Record<string, any> = { archived: { $ne: true } };
+
+  if (filters.status) {
+    conditions.status = filters.status;
+  }
+
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    conditions.tagIds = { $in: filters.tagIds };
+  }
+
+  // Dynamic field filters
+  for (const [key, value] of Object.entries(filters)) {
+    if (key !== 'status' && key !== 'tagIds' && value !== undefined && value !== '') {
+      conditions[`fields.${key}`] = value;
+    }
+  }
+
+  if (queryWhere) {
+    conditions.$and = [queryWhere];
+  }
+
+  return conditions;
+};
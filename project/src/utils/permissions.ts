@@ -0,0 +1,101 @@
+import type { OrgMember } from '../types';
+
+export type Role = OrgMember['role'];
+
+export type Action = 'view' | 'create' | 'update' | 'delete' | 'import' | 'export' | 'merge' | 'manage';
+
+export type Resource =
+  | 'person'
+  | 'household'
+  | 'tag'
+  | 'note'
+  | 'staffNote'
+  | 'staffField'
+  | 'profileField'
+  | 'importBatch'
+  | 'importTemplate'
+  | 'savedView'
+  | 'team'
+  | 'ownership'
+  | 'backup'
+  | 'settings';
+
+export const ROLES: Role[] = ['owner', 'admin', 'member', 'viewer'];
+
+// Human-readable names used by the permissions matrix
+export const RESOURCE_LABELS: Record<Resource, string> = {
+  person: 'People',
+  household: 'Households',
+  tag: 'Tags',
+  note: 'Notes',
+  staffNote: 'Staff-only notes',
+  staffField: 'Staff-only profile fields',
+  profileField: 'Profile field definitions',
+  importBatch: 'Import history & rollback',
+  importTemplate: 'Import templates',
+  savedView: 'Saved people views',
+  team: 'Team members & invitations',
+  ownership: 'Owner role',
+  backup: 'Organization backup & restore',
+  settings: 'Settings pages',
+};
+
+export const ACTION_LABELS: Record<Action, string> = {
+  view: 'View',
+  create: 'Create',
+  update: 'Edit',
+  delete: 'Delete',
+  import: 'Import',
+  export: 'Export',
+  merge: 'Merge',
+  manage: 'Manage',
+};
+
+const ALL_ACTIONS: Action[] = ['view', 'create', 'update', 'delete', 'import', 'export', 'merge', 'manage'];
+
+const staffPolicy: Partial<Record<Resource, Action[]>> = {
+  person: ['view', 'create', 'update', 'delete', 'import', 'export', 'merge'],
+  household: ['view', 'create', 'update', 'delete'],
+  tag: ['view', 'create', 'update', 'delete'],
+  note: ['view', 'create', 'update', 'delete'],
+  staffNote: ['view', 'create'],
+  staffField: ['view', 'update', 'export'],
+  profileField: ALL_ACTIONS,
+  importBatch: ['view', 'manage'],
+  importTemplate: ['view', 'create', 'update', 'delete'],
+  // Anyone who saves views edits their own; manage covers others' shared views
+  savedView: ['view', 'create', 'manage'],
+  team: ALL_ACTIONS,
+  settings: ['view'],
+};
+
+// The single source of truth for what each role may do. Anything not listed
+// is denied.
+export const POLICY: Record<Role, Partial<Record<Resource, Action[]>>> = {
+  owner: {
+    ...staffPolicy,
+    ownership: ['manage'],
+    // Backups hold every record, staff notes included, and restoring one
+    // adds team members with their roles
+    backup: ['export', 'import'],
+  },
+  admin: staffPolicy,
+  member: {
+    person: ['view', 'create', 'update', 'import', 'export'],
+    household: ['view', 'create', 'update', 'delete'],
+    tag: ['view', 'create', 'update', 'delete'],
+    note: ['view', 'create'],
+    importTemplate: ['view', 'create'],
+    savedView: ['view', 'create'],
+  },
+  viewer: {
+    person: ['view', 'export'],
+    household: ['view'],
+    tag: ['view'],
+    note: ['view'],
+    savedView: ['view', 'create'],
+  },
+};
+
+export const hasPermission = (role: Role | null | undefined, action: Action, resource: Resource) =>
+  Boolean(role && POLICY[role][resource]?.includes(action));
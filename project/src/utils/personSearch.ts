@@ -0,0 +1,434 @@
+// Search of the people list. Names, emails, phone numbers and text profile
+// fields of every person are folded into an index that is built once per
+// organization and then kept current by loading only the people changed since.
+// Searches run against the index, so they can ignore accents and punctuation,
+// tolerate typos, match nicknames and rank the results.
+import { Person } from '../entities/Person';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+import { getActiveOrganizationId } from './entityWrapper';
+import { getRelatedNames } from './nicknames';
+
+// At most this many matches are shown, best first
+export const MAX_SEARCH_RESULTS = 200;
+
+// Matches are checked against the list's filters this many at a time, which
+// keeps each where clause small
+const MATCH_CHECK_CHUNK_SIZE = 100;
+
+// A reused index is refreshed with changed people at most this often
+const INDEX_REFRESH_INTERVAL = 10000;
+
+const TEXT_FIELD_TYPES: ProfileFieldDef['type'][] = ['text', 'textarea', 'email', 'url'];
+
+type MatchKind = 'exact' | 'nickname' | 'prefix' | 'fuzzy' | 'substring';
+
+const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 1,
+  nickname: 0.9,
+  prefix: 0.8,
+  fuzzy: 0.6,
+  substring: 0.4,
+};
+
+// A term to highlight in displayed text: a whole word, the start of a word,
+// part of a word, or a run of phone digits
+export interface HighlightTerm {
+  kind: 'word' | 'prefix' | 'substring' | 'digits';
+  value: string;
+}
+
+export interface PersonSearchMatch {
+  personId: string;
+  score: number;
+  terms: HighlightTerm[];
+}
+
+interface IndexedText {
+  weight: number;
+  words: string[];
+}
+
+interface IndexedPhone {
+  weight: number;
+  digits: string;
+}
+
+interface IndexEntry {
+  name: string;
+  // Shown in quick results: display name and email or phone
+  label: string;
+  detail?: string;
+  texts: IndexedText[];
+  phones: IndexedPhone[];
+}
+
+interface PersonSearchIndex {
+  organizationId: string | null;
+  fieldsKey: string;
+  // Latest updatedAt seen; people updated since are loaded on refresh
+  syncedAt: string;
+  refreshedAt: number;
+  entries: Map<string, IndexEntry>;
+}
+
+interface Word {
+  value: string;
+  // Position in the original text of each character of value
+  offsets: number[];
+}
+
+const foldChar = (char: string) => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const WORD_CHAR = /^[\p{L}\p{N}]+$/u;
+// Apostrophes join words, so O'Brien is obrien
+const APOSTROPHE = /['’]/;
+
+// Splits text into lowercase, accent-free words, remembering where each
+// character came from so matches can be highlighted in the original text
+const splitWords = (text: string): Word[] => {
+  const words: Word[] = [];
+  let current: Word | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (current && APOSTROPHE.test(char)) continue;
+
+    const folded = foldChar(char);
+    if (folded && WORD_CHAR.test(folded)) {
+      current = current || { value: '', offsets: [] };
+      for (const c of folded) {
+        current.value += c;
+        current.offsets.push(i);
+      }
+    } else if (current) {
+      words.push(current);
+      current = null;
+    }
+  }
+  if (current) words.push(current);
+
+  return words;
+};
+
+export const foldText = (text: string) => splitWords(text).map(word => word.value).join(' ');
+
+const toDigits = (value: string) => value.replace(/\D/g, '');
+
+// Typos allowed for a word of the given length
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// Edit distance counting swapped neighbours as one edit, or Infinity once it
+// is known to exceed max
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return Infinity;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// How well one query word matches one indexed word, if at all
+const matchWord = (queryWord: string, word: string): { kind: MatchKind; score: number; term: HighlightTerm } | null => {
+  if (word === queryWord) {
+    return { kind: 'exact', score: MATCH_SCORES.exact, term: { kind: 'word', value: word } };
+  }
+  if (getRelatedNames(queryWord).has(word)) {
+    return { kind: 'nickname', score: MATCH_SCORES.nickname, term: { kind: 'word', value: word } };
+  }
+  if (word.startsWith(queryWord)) {
+    return { kind: 'prefix', score: MATCH_SCORES.prefix, term: { kind: 'prefix', value: queryWord } };
+  }
+
+  const typos = maxTypos(queryWord.length);
+  if (typos > 0) {
+    // A typo in what is typed so far still matches the start of a longer word
+    const distance = Math.min(
+      editDistance(queryWord, word, typos),
+      word.length > queryWord.length ? editDistance(queryWord, word.slice(0, queryWord.length), typos) : Infinity
+    );
+    if (distance <= typos) {
+      return {
+        kind: 'fuzzy',
+        score: MATCH_SCORES.fuzzy - (distance - 1) * 0.15,
+        term: { kind: 'word', value: word },
+      };
+    }
+  }
+
+  if (queryWord.length >= 3 && word.includes(queryWord)) {
+    return { kind: 'substring', score: MATCH_SCORES.substring, term: { kind: 'substring', value: queryWord } };
+  }
+  return null;
+};
+
+// Profile fields whose values are searched: text-like and phone fields, and
+// staff-only ones only for those who may see them
+export const getSearchableFields = (profileFields: ProfileFieldDef[], canViewStaffFields: boolean) =>
+  profileFields.filter(field =>
+    (TEXT_FIELD_TYPES.includes(field.type) || field.type === 'phone')
+    && (field.visibility !== 'staff_only' || canViewStaffFields)
+  );
+
+const indexPerson = (person: Person, searchFields: ProfileFieldDef[]): IndexEntry => {
+  const texts: IndexedText[] = [];
+  const phones: IndexedPhone[] = [];
+  const addText = (value: unknown, weight: number) => {
+    if (typeof value === 'string' && value.trim()) texts.push({ weight, words: splitWords(value).map(w => w.value) });
+  };
+  const addPhone = (value: unknown, weight: number) => {
+    const digits = typeof value === 'string' ? toDigits(value) : '';
+    if (digits) phones.push({ weight, digits });
+  };
+
+  addText(person.firstName, 3);
+  addText(person.lastName, 3);
+  addText(person.preferredName, 3);
+  addText(person.email, 2);
+  addPhone(person.phone, 2);
+
+  for (const field of searchFields) {
+    const value = person.fields?.[field.key];
+    if (field.type === 'phone') {
+      addPhone(value, 1);
+    } else {
+      addText(value, 1);
+    }
+  }
+
+  const label = `${person.preferredName || person.firstName} ${person.lastName}`;
+  return {
+    name: foldText(label),
+    label,
+    detail: person.email || person.phone,
+    texts,
+    phones,
+  };
+};
+
+const INDEX_FIELDS = ['firstName', 'lastName', 'preferredName', 'email', 'phone', 'fields', 'archived', 'updatedAt'];
+
+let cachedIndex: PersonSearchIndex | null = null;
+let pendingIndex: Promise<PersonSearchIndex> | null = null;
+
+const updateIndex = (index: PersonSearchIndex, people: Person[], searchFields: ProfileFieldDef[]) => {
+  for (const person of people) {
+    // Merged records are hidden from the list, so they are not searched
+    if (person.archived) {
+      index.entries.delete(person._id);
+    } else {
+      index.entries.set(person._id, indexPerson(person, searchFields));
+    }
+    if (person.updatedAt > index.syncedAt) index.syncedAt = person.updatedAt;
+  }
+};
+
+const loadIndex = async (searchFields: ProfileFieldDef[]) => {
+  const organizationId = getActiveOrganizationId();
+  const fieldsKey = searchFields.map(field => `${field.key}:${field.type}`).join(',');
+  const reusable = cachedIndex?.organizationId === organizationId && cachedIndex.fieldsKey === fieldsKey
+    ? cachedIndex
+    : null;
+
+  if (reusable && Date.now() - reusable.refreshedAt < INDEX_REFRESH_INTERVAL) return reusable;
+
+  const index: PersonSearchIndex = reusable || {
+    organizationId,
+    fieldsKey,
+    syncedAt: '',
+    refreshedAt: 0,
+    entries: new Map(),
+  };
+  // People updated at the very instant of the last sync are loaded again,
+  // which is harmless, rather than missed
+  const response = await Person.queryAll({
+    where: reusable ? { updatedAt: { $gte: index.syncedAt } } : { archived: { $ne: true } },
+    fields: INDEX_FIELDS,
+  });
+  if (!response.success) throw new Error(response.message || 'Failed to load people');
+
+  updateIndex(index, response.data, searchFields);
+  index.refreshedAt = Date.now();
+  cachedIndex = index;
+  return index;
+};
+
+// Returns the index of the active organization, building it on first use.
+// Concurrent callers share one load.
+export const getPersonSearchIndex = (searchFields: ProfileFieldDef[]) => {
+  if (!pendingIndex) {
+    pendingIndex = loadIndex(searchFields).finally(() => {
+      pendingIndex = null;
+    });
+  }
+  return pendingIndex;
+};
+
+// Ranks every indexed person against the query. Each query word must match a
+// word of the person's; phone numbers match on their digits alone.
+export const searchPersonIndex = (index: PersonSearchIndex, query: string): PersonSearchMatch[] => {
+  const queryWords = [...new Set(splitWords(query).map(word => word.value))];
+  const queryDigits = toDigits(query);
+  // "(555) 123" is a phone number, "Apt 4" is not
+  const isPhoneQuery = queryDigits.length >= 3 && !/\p{L}/u.test(query);
+  const foldedQuery = queryWords.join(' ');
+  if (queryWords.length === 0) return [];
+
+  const matches: PersonSearchMatch[] = [];
+
+  for (const [personId, entry] of index.entries) {
+    let score = 0;
+    const terms: HighlightTerm[] = [];
+
+    if (isPhoneQuery) {
+      for (const phone of entry.phones) {
+        const position = phone.digits.indexOf(queryDigits);
+        if (position >= 0) {
+          score = Math.max(score, phone.weight * (position === 0 ? 1 : 0.8));
+        }
+      }
+      if (score > 0) terms.push({ kind: 'digits', value: queryDigits });
+    }
+
+    let wordScore = 0;
+    const wordTerms: HighlightTerm[] = [];
+    for (const queryWord of queryWords) {
+      let best: { score: number; term: HighlightTerm } | null = null;
+      for (const text of entry.texts) {
+        for (const word of text.words) {
+          const match = matchWord(queryWord, word);
+          if (match && (!best || match.score * text.weight > best.score)) {
+            best = { score: match.score * text.weight, term: match.term };
+          }
+        }
+      }
+      if (!best) {
+        wordScore = 0;
+        break;
+      }
+      wordScore += best.score;
+      wordTerms.push(best.term);
+    }
+    if (wordScore > 0) {
+      // Typing the start of someone's name ranks them first
+      if (entry.name.startsWith(foldedQuery)) wordScore += 1;
+      score = Math.max(score, wordScore);
+      terms.push(...wordTerms);
+    }
+
+    if (score > 0) matches.push({ personId, score, terms });
+  }
+
+  const names = index.entries;
+  return matches.sort((a, b) =>
+    b.score - a.score || names.get(a.personId)!.name.localeCompare(names.get(b.personId)!.name)
+  );
+};
+
+// The best few matches with their names, straight from the index, for quick
+// lookups that do not need the full records
+export const quickSearchPeople = async (query: string, searchFields: ProfileFieldDef[], limit: number) => {
+  const index = await getPersonSearchIndex(searchFields);
+  return searchPersonIndex(index, query).slice(0, limit).map(match => {
+    const entry = index.entries.get(match.personId)!;
+    return { ...match, label: entry.label, detail: entry.detail };
+  });
+};
+
+export interface PeopleSearchResult {
+  // Best matches first, at most MAX_SEARCH_RESULTS
+  matches: PersonSearchMatch[];
+  // Whether more people matched than are returned
+  truncated: boolean;
+  // Selects exactly the matched people, for exports and counts
+  where: Record<string, any>;
+}
+
+// Searches the people that filterWhere selects. Matches are checked against
+// the filters in rank order until enough are found, which also drops people
+// deleted since the index was built.
+export const searchPeople = async (
+  search: string,
+  filterWhere: Record<string, any>,
+  searchFields: ProfileFieldDef[]
+): Promise<PeopleSearchResult> => {
+  const index = await getPersonSearchIndex(searchFields);
+  const ranked = searchPersonIndex(index, search);
+  const matches: PersonSearchMatch[] = [];
+
+  let checked = 0;
+  while (checked < ranked.length && matches.length < MAX_SEARCH_RESULTS) {
+    const chunk = ranked.slice(checked, checked + MATCH_CHECK_CHUNK_SIZE);
+    const response = await Person.queryAll({
+      where: { ...filterWhere, _id: { $in: chunk.map(match => match.personId) } },
+      fields: ['_id'],
+    });
+    if (!response.success) throw new Error(response.message || 'Failed to search people');
+
+    const found = new Set(response.data.map(person => person._id));
+    matches.push(...chunk.filter(match => found.has(match.personId)));
+    checked += chunk.length;
+  }
+
+  return {
+    matches: matches.slice(0, MAX_SEARCH_RESULTS),
+    truncated: matches.length > MAX_SEARCH_RESULTS || checked < ranked.length,
+    where: { ...filterWhere, _id: { $in: matches.slice(0, MAX_SEARCH_RESULTS).map(match => match.personId) } },
+  };
+};
+
+// Ranges of text to highlight for the given terms, in order and not overlapping
+export const getHighlightRanges = (text: string, terms: HighlightTerm[]) => {
+  const ranges: [number, number][] = [];
+
+  for (const word of splitWords(text)) {
+    for (const term of terms) {
+      let start = -1;
+      if (term.kind === 'word' && word.value === term.value) start = 0;
+      if (term.kind === 'prefix' && word.value.startsWith(term.value)) start = 0;
+      if (term.kind === 'substring') start = word.value.indexOf(term.value);
+      if (start < 0) continue;
+
+      const length = term.kind === 'word' ? word.value.length : term.value.length;
+      ranges.push([word.offsets[start], word.offsets[start + length - 1] + 1]);
+    }
+  }
+
+  const digitsTerm = terms.find(term => term.kind === 'digits');
+  if (digitsTerm) {
+    const digitOffsets: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+      if (/\d/.test(text[i])) digitOffsets.push(i);
+    }
+    const position = digitOffsets.map(i => text[i]).join('').indexOf(digitsTerm.value);
+    if (position >= 0) {
+      ranges.push([digitOffsets[position], digitOffsets[position + digitsTerm.value.length - 1] + 1]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
@@ -0,0 +1,13 @@
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive "contains" condition for a query() where clause.
+export const containsText = (value: string) => ({
+  $regex: escapeRegex(value.trim()),
+  $options: 'i',
+});
+
+// Case-insensitive exact match condition for a query() where clause.
+export const equalsText = (value: string) => ({
+  $regex: `^${escapeRegex(value.trim())}$`,
+  $options: 'i',
+});
@@ -1,4 +1,4 @@
-export const getRouterBasename = () => {
+export const getRouterBasename = (): string => {
   const path = window.location.pathname;
   const match = path.match(/^(\/app\/[^\/]+\/preview)/);
   return match ? match[1] : '';
@@ -0,0 +1,86 @@
+// Saved views of the people list. A view stores the list's search text,
+// filters, advanced query, columns, sort order and page size; opening it
+// restores all of them.
+import { SavedView } from '../entities/SavedView';
+import type { EntityInput } from './entityWrapper';
+import { DEFAULT_VISIBLE_COLUMNS } from './columnLayout';
+import { buildPeopleWhere, decodeQuery, queryToWhere } from './peopleQuery';
+import type { PeopleFilters, QueryField } from './peopleQuery';
+import { searchPeople } from './personSearch';
+import type { ProfileFieldDef } from '../entities/ProfileFieldDef';
+
+export interface PeopleViewState {
+  search: string;
+  filters: PeopleFilters;
+  // Encoded advanced query, as in the list URL
+  query: string | null;
+  visibleColumns: string[];
+  sort?: string;
+  pageSize: number;
+}
+
+export const DEFAULT_VIEW_STATE: PeopleViewState = {
+  search: '',
+  filters: {},
+  query: null,
+  visibleColumns: DEFAULT_VISIBLE_COLUMNS,
+  sort: 'lastName',
+  pageSize: 50,
+};
+
+export const getViewState = (view: SavedView): PeopleViewState => ({
+  search: view.search || '',
+  filters: view.filters || {},
+  query: view.query || null,
+  visibleColumns: view.visibleColumns?.length ? view.visibleColumns : DEFAULT_VISIBLE_COLUMNS,
+  sort: view.sort || undefined,
+  pageSize: view.pageSize || DEFAULT_VIEW_STATE.pageSize,
+});
+
+export const toSavedViewData = (state: PeopleViewState): EntityInput<SavedView> => ({
+  search: state.search.trim(),
+  filters: state.filters,
+  query: state.query,
+  visibleColumns: state.visibleColumns,
+  sort: state.sort ?? null,
+  pageSize: state.pageSize,
+});
+
+// Blank filter values do not filter anything, so they do not count as a change
+const normalizeFilters = (filters: PeopleFilters) =>
+  Object.fromEntries(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+export const isSameViewState = (a: PeopleViewState, b: PeopleViewState) =>
+  a.search.trim() === b.search.trim()
+  && JSON.stringify(normalizeFilters(a.filters)) === JSON.stringify(normalizeFilters(b.filters))
+  && (a.query || null) === (b.query || null)
+  && [...a.visibleColumns].sort().join() === [...b.visibleColumns].sort().join()
+  && (a.sort || null) === (b.sort || null)
+  && a.pageSize === b.pageSize;
+
+// The people a view selects. Views with search text select only the best
+// MAX_SEARCH_RESULTS matches, and truncated tells when more people matched.
+export const getViewWhere = async (view: SavedView, queryFields: QueryField[], searchFields: ProfileFieldDef[]) => {
+  const state = getViewState(view);
+  const query = decodeQuery(state.query);
+  const where = buildPeopleWhere(state.filters, query ? queryToWhere(query, queryFields) : null);
+  if (!state.search.trim()) return { where, truncated: false };
+
+  const result = await searchPeople(state.search, where, searchFields);
+  return { where: result.where, truncated: result.truncated };
+};
+
+// Shared views and the user's own private ones
+export const loadSavedViews = (userId: string) =>
+  SavedView.queryAll({
+    where: { $or: [{ visibility: 'shared' }, { ownerUserId: userId }] },
+    sort: 'name',
+  });
+
+// Owners edit their own views; managers also edit everyone's shared views
+export const canEditView = (view: SavedView, userId: string | undefined, canManage: boolean) =>
+  view.ownerUserId === userId || (canManage && view.visibility === 'shared');
@@ -0,0 +1,46 @@
+import { UserPreference } from '../entities/UserPreference';
+import { getActiveOrganizationId } from './entityWrapper';
+
+// Preferences are stored one record per user, organization and key. The
+// entity client scopes them to the active organization. Should there ever be
+// more than one, the latest saved wins.
+const findPreference = async (userId: string, key: string) => {
+  const response = await UserPreference.query({ where: { userId, key }, sort: '-updatedAt', limit: 1 });
+  if (!response.success) {
+    throw new Error(response.message || 'Failed to load preference');
+  }
+  return response.data[0];
+};
+
+export const getUserPreference = async <T extends Record<string, any>>(userId: string, key: string) => {
+  const preference = await findPreference(userId, key);
+  return preference?.value as T | undefined;
+};
+
+// Saves of the same preference run one at a time, so two quick changes
+// cannot both find no record and create one each
+const pendingSaves = new Map<string, Promise<unknown>>();
+
+export const setUserPreference = (userId: string, key: string, value: Record<string, any>) => {
+  const queueKey = `${getActiveOrganizationId()}.${userId}.${key}`;
+  const save = (pendingSaves.get(queueKey) || Promise.resolve())
+    // A failed save does not stop the ones queued after it
+    .catch(() => undefined)
+    .then(async () => {
+      const preference = await findPreference(userId, key);
+      const response = preference
+        ? await UserPreference.update(preference._id, { value })
+        : await UserPreference.create({ userId, key, value });
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to save preference');
+      }
+      return response.data;
+    });
+
+  pendingSaves.set(queueKey, save);
+  const settle = () => {
+    if (pendingSaves.get(queueKey) === save) pendingSaves.delete(queueKey);
+  };
+  save.then(settle, settle);
+  return save;
+};
@@ -0,0 +1,207 @@
+// vCard (.vcf) reading for contacts exported from phones and address books.
+// Handles vCard 3.0 (RFC 2426) and 4.0 (RFC 6350), plus the quoted-printable
+// values older Android phones still write.
+import { splitFullName } from './importTransforms';
+import type { ImportTable } from './importSources';
+
+export interface VCardContact {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  emails: string[];
+  phones: string[];
+  birthday: string;
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Column headers of the table a vCard file is imported as. They follow the
+// wording guessMapping recognizes.
+export const VCARD_HEADERS = ['First Name', 'Last Name', 'Full Name', 'Email', 'Other Emails', 'Phone', 'Other Phones', 'Birthday'];
+
+// Lines starting with a space or tab continue the previous line. Quoted-
+// printable values instead end in "=" when they continue.
+const unfoldLines = (text: string) => {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const unfolded: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    if (/ENCODING=QUOTED-PRINTABLE/i.test(line)) {
+      while (line.endsWith('=') && i + 1 < lines.length) {
+        line = line.slice(0, -1) + lines[++i];
+      }
+    }
+    unfolded.push(line);
+  }
+  return unfolded;
+};
+
+const decodeQuotedPrintable = (value: string, charset = 'utf-8') => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+  }
+};
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Structured values (N, ADR) separate their parts with unescaped semicolons
+const splitStructured = (value: string) => value.split(/(?<!\\);/).map(part => unescapeValue(part).trim());
+
+// Parses "item1.TEL;TYPE=cell,pref:+1 555 123 4567". vCard 2.1 writes bare
+// parameters such as "TEL;CELL", which are read as types.
+const parseProperty = (line: string): VCardProperty | null => {
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  rawParams.forEach(param => {
+    const equals = param.indexOf('=');
+    const key = equals === -1 ? 'type' : param.slice(0, equals).toLowerCase();
+    const values = (equals === -1 ? param : param.slice(equals + 1)).replace(/"/g, '').split(',');
+    params[key] = [...(params[key] || []), ...values.map(value => value.toLowerCase())];
+  });
+
+  let value = line.slice(colon + 1);
+  if (params.encoding?.includes('quoted-printable')) {
+    value = decodeQuotedPrintable(value, params.charset?.[0]);
+  }
+
+  return { name: rawName.replace(/^.*\./, '').toUpperCase(), params, value };
+};
+
+const isPreferred = (property: VCardProperty) => Boolean(property.params.type?.includes('pref') || property.params.pref);
+
+// Preferred values first, then in file order
+const orderValues = (properties: VCardProperty[]) =>
+  [...properties.filter(isPreferred), ...properties.filter(property => !isPreferred(property))]
+    .map(property => unescapeValue(property.value).replace(/^(mailto|tel):/i, '').trim())
+    .filter(Boolean);
+
+// Full dates become YYYY-MM-DD; vCard 4 dates without a year ("--0314") are
+// kept as written.
+const normalizeBirthday = (value: string) => {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value.trim();
+};
+
+const toContact = (properties: VCardProperty[]): VCardContact => {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const fullName = unescapeValue(find('FN')?.value || '').trim();
+  const name = find('N');
+  const [lastName = '', firstName = ''] = name ? splitStructured(name.value) : [];
+  const fallback = !firstName && !lastName ? splitFullName(fullName) : null;
+
+  return {
+    firstName: fallback ? fallback.first : firstName,
+    lastName: fallback ? fallback.last : lastName,
+    fullName: fullName || [firstName, lastName].filter(Boolean).join(' '),
+    emails: orderValues(properties.filter(property => property.name === 'EMAIL')),
+    phones: orderValues(properties.filter(property => property.name === 'TEL')),
+    birthday: normalizeBirthday(unescapeValue(find('BDAY')?.value || '')),
+  };
+};
+
+export const parseVCards = (text: string): VCardContact[] => {
+  const contacts: VCardContact[] = [];
+  let properties: VCardProperty[] | null = null;
+
+  unfoldLines(text.replace(/^\uFEFF/, '')).forEach(line => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      properties = [];
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
+      if (properties) contacts.push(toContact(properties));
+      properties = null;
+    } else if (properties) {
+      properties.push(property);
+    }
+  });
+
+  return contacts.filter(contact => contact.fullName || contact.emails.length > 0 || contact.phones.length > 0);
+};
+
+// One row per contact, so vCards go through the same mapping step as CSV files
+export const vCardsToTable = (contacts: VCardContact[]): ImportTable => ({
+  headers: VCARD_HEADERS,
+  rows: contacts.map(contact => ({
+    'First Name': contact.firstName,
+    'Last Name': contact.lastName,
+    'Full Name': contact.fullName,
+    Email: contact.emails[0] || '',
+    'Other Emails': contact.emails.slice(1).join('; '),
+    Phone: contact.phones[0] || '',
+    'Other Phones': contact.phones.slice(1).join('; '),
+    Birthday: contact.birthday,
+  })),
+});
+
+export const parseVCardFile = async (file: Blob) => vCardsToTable(parseVCards(await file.text()));
+
+// Writing. vCard 3.0 is what phones import most reliably.
+
+export interface VCardInput {
+  firstName: string;
+  lastName: string;
+  nickname?: string;
+  email?: string;
+  phone?: string;
+  // YYYY-MM-DD
+  birthday?: string;
+  categories?: string[];
+}
+
+const escapeValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 characters are folded onto continuation lines
+const foldLine = (line: string) => {
+  const parts = [line.slice(0, 75)];
+  for (let offset = 75; offset < line.length; offset += 74) {
+    parts.push(` ${line.slice(offset, offset + 74)}`);
+  }
+  return parts.join('\r\n');
+};
+
+export const toVCard = (contact: VCardInput) => {
+  const fullName = [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeValue(contact.lastName)};${escapeValue(contact.firstName)};;;`,
+    `FN:${escapeValue(fullName)}`,
+  ];
+  if (contact.nickname) lines.push(`NICKNAME:${escapeValue(contact.nickname)}`);
+  if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeValue(contact.email)}`);
+  if (contact.phone) lines.push(`TEL;TYPE=CELL:${escapeValue(contact.phone)}`);
+  if (contact.birthday) lines.push(`BDAY:${contact.birthday}`);
+  if (contact.categories?.length) lines.push(`CATEGORIES:${contact.categories.map(escapeValue).join(',')}`);
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
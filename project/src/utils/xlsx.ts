@@ -0,0 +1,69 @@
+// Excel (.xlsx) reading. ExcelJS is large, so it is only loaded once a
+// spreadsheet is actually opened.
+import type { Workbook, Worksheet, CellValue } from 'exceljs';
+import { uniqueHeaders, toRecords } from './csv';
+import type { ImportTable } from './importSources';
+
+export const loadWorkbook = async (file: Blob): Promise<Workbook> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook;
+};
+
+// Hidden and empty sheets are not offered for import
+export const getSheetNames = (workbook: Workbook) =>
+  workbook.worksheets
+    .filter(sheet => sheet.state === 'visible' && sheet.actualRowCount > 0)
+    .map(sheet => sheet.name);
+
+// Excel stores dates as UTC midnight; date-only cells keep just the date.
+const formatDate = (date: Date) => {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+};
+
+// Converts a cell to the text a CSV export of the sheet would contain
+export const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value !== 'object') return String(value);
+
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('formula' in value || 'sharedFormula' in value) return cellToText(value.result as CellValue);
+  if ('hyperlink' in value) return cellToText(value.text as CellValue);
+  if ('error' in value) return '';
+  return String(value);
+};
+
+const readRow = (sheet: Worksheet, rowNumber: number, columnCount: number) => {
+  const row = sheet.getRow(rowNumber);
+  const values: string[] = [];
+  for (let column = 1; column <= columnCount; column++) {
+    values.push(cellToText(row.getCell(column).value).trim());
+  }
+  return values;
+};
+
+// The first non-empty row holds the headers; blank rows are skipped.
+export const readSheet = (workbook: Workbook, sheetName: string): ImportTable => {
+  const sheet = workbook.getWorksheet(sheetName);
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  const columnCount = sheet.columnCount;
+  const rows: { values: string[]; rowNumber: number }[] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const values = readRow(sheet, rowNumber, columnCount);
+    if (values.some(Boolean)) rows.push({ values, rowNumber });
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const headers = uniqueHeaders(headerRow?.values || []);
+  return {
+    headers,
+    rows: toRecords(headers, dataRows.map(row => row.values)),
+    lineNumbers: dataRows.map(row => row.rowNumber),
+  };
+};